@@ -0,0 +1,3 @@
+-- Per-configuration LLM provider and model for agentic test planning
+ALTER TABLE system_instructions ADD COLUMN llm_provider TEXT CHECK (llm_provider IN ('workers-ai', 'openai', 'scripted'));
+ALTER TABLE system_instructions ADD COLUMN llm_model TEXT;
@@ -0,0 +1,16 @@
+-- Session artifacts (screenshots) stored in R2, linked to sessions, steps and test results
+CREATE TABLE IF NOT EXISTS artifacts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  step_index INTEGER,
+  storage_key TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (session_id, name),
+  FOREIGN KEY (session_id) REFERENCES test_sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_artifacts_session_id ON artifacts(session_id);
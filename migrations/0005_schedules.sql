@@ -0,0 +1,18 @@
+-- Cron schedules that run stored configurations from the scheduled() handler
+CREATE TABLE IF NOT EXISTS schedules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  config_id INTEGER NOT NULL,
+  cron TEXT NOT NULL,
+  target_url TEXT NOT NULL,
+  enabled BOOLEAN DEFAULT TRUE,
+  last_run_at DATETIME,
+  last_session_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (config_id) REFERENCES system_instructions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_enabled ON schedules(enabled);
+
+-- Distinguishes sessions started through the API from scheduled runs
+ALTER TABLE test_sessions ADD COLUMN trigger TEXT NOT NULL DEFAULT 'api' CHECK (trigger IN ('api', 'schedule'));
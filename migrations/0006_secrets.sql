@@ -0,0 +1,9 @@
+-- Encrypted (AES-GCM, key from the SECRETS_KEY Worker secret) values referenced as {{secret:NAME}}
+CREATE TABLE IF NOT EXISTS secrets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,
+  ciphertext TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,35 @@
+-- Reference images for visual_snapshot steps and the per-session comparisons against them
+CREATE TABLE IF NOT EXISTS visual_baselines (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  scope TEXT NOT NULL,
+  name TEXT NOT NULL,
+  storage_key TEXT NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  source_session_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (scope, name)
+);
+
+CREATE TABLE IF NOT EXISTS visual_comparisons (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('passed', 'failed', 'new')),
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  diff_pixels INTEGER,
+  diff_ratio REAL,
+  max_diff_ratio REAL NOT NULL,
+  actual_artifact TEXT NOT NULL,
+  baseline_artifact TEXT,
+  diff_artifact TEXT,
+  approved_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (session_id, name),
+  FOREIGN KEY (session_id) REFERENCES test_sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_visual_comparisons_session_id ON visual_comparisons(session_id);
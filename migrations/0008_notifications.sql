@@ -0,0 +1,36 @@
+-- Where finished sessions are reported (global when config_id is NULL) and when
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('webhook', 'slack', 'email')),
+  target TEXT NOT NULL,
+  config_id INTEGER,
+  rule TEXT NOT NULL DEFAULT 'failure' CHECK (rule IN ('always', 'failure', 'recovery')),
+  secret_name TEXT,
+  enabled BOOLEAN DEFAULT TRUE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (config_id) REFERENCES system_instructions(id) ON DELETE CASCADE
+);
+
+-- One row per notification; failed deliveries are retried from the cron handler
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  channel_id INTEGER NOT NULL,
+  session_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  last_error TEXT,
+  next_attempt_at DATETIME,
+  delivered_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (channel_id, session_id),
+  FOREIGN KEY (channel_id) REFERENCES notification_channels(id) ON DELETE CASCADE,
+  FOREIGN KEY (session_id) REFERENCES test_sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_config_id ON notification_channels(config_id);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_pending ON notification_deliveries(status, next_attempt_at);
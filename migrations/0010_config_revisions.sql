@@ -0,0 +1,26 @@
+-- Immutable history of system_instructions; each change stores a full JSON snapshot
+CREATE TABLE IF NOT EXISTS config_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  config_id INTEGER NOT NULL,
+  revision INTEGER NOT NULL,
+  change TEXT NOT NULL CHECK (change IN ('create', 'update', 'delete', 'rollback')),
+  snapshot TEXT NOT NULL,
+  author TEXT,
+  restored_from INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (config_id, revision),
+  FOREIGN KEY (config_id) REFERENCES system_instructions(id) ON DELETE CASCADE
+);
+
+ALTER TABLE system_instructions ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+
+-- Which revision of its configuration a session ran against
+ALTER TABLE test_sessions ADD COLUMN config_revision INTEGER;
+
+-- Existing configurations start their history at revision 1
+INSERT INTO config_revisions (config_id, revision, change, snapshot, created_at)
+SELECT id, 1, 'create',
+       json_object('url_pattern', url_pattern, 'name', name, 'instructions', instructions, 'test_type', test_type,
+                   'llm_provider', llm_provider, 'llm_model', llm_model, 'is_active', is_active),
+       updated_at
+FROM system_instructions;
@@ -0,0 +1,3 @@
+-- How url_pattern is matched (substring keeps the original instr() behaviour) and which config wins on overlap
+ALTER TABLE system_instructions ADD COLUMN match_type TEXT NOT NULL DEFAULT 'substring' CHECK (match_type IN ('substring', 'exact', 'glob', 'regex'));
+ALTER TABLE system_instructions ADD COLUMN priority INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- Keyset pagination on /session/list walks (start_time, id); sessions are also filtered by configuration
+CREATE INDEX IF NOT EXISTS idx_test_sessions_start_time ON test_sessions(start_time, id);
+CREATE INDEX IF NOT EXISTS idx_test_sessions_config_id ON test_sessions(config_id, start_time);
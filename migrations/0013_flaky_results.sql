@@ -0,0 +1,22 @@
+-- Results that passed only after a retry are stored as "flaky", with the number of tries.
+-- SQLite cannot change a CHECK constraint in place, so test_results is rebuilt.
+CREATE TABLE IF NOT EXISTS test_results_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  test_name TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('passed', 'failed', 'skipped', 'flaky')),
+  error_message TEXT,
+  screenshot_path TEXT,
+  execution_time_ms INTEGER,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (session_id) REFERENCES test_sessions(id) ON DELETE CASCADE
+);
+
+INSERT INTO test_results_new (id, session_id, test_name, status, error_message, screenshot_path, execution_time_ms, timestamp)
+SELECT id, session_id, test_name, status, error_message, screenshot_path, execution_time_ms, timestamp FROM test_results;
+
+DROP TABLE test_results;
+ALTER TABLE test_results_new RENAME TO test_results;
+
+CREATE INDEX IF NOT EXISTS idx_test_results_session_id ON test_results(session_id);
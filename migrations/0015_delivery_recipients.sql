@@ -0,0 +1,2 @@
+-- Email recipients a delivery has already reached, so a retry only mails the ones that failed
+ALTER TABLE notification_deliveries ADD COLUMN delivered_to TEXT;
@@ -0,0 +1,126 @@
+// Shared sign-in for the console pages. POST /auth/login stores the API key in an
+// HttpOnly cookie, so the pages' own fetch calls and artifact <img> links authenticate.
+(() => {
+  const style = document.createElement('style');
+  style.textContent = `
+    #auth-badge {
+      position: fixed;
+      top: 0.75rem;
+      right: 0.75rem;
+      z-index: 1000;
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.4rem 0.75rem;
+      border-radius: 999px;
+      background: rgba(15, 23, 42, 0.9);
+      border: 1px solid rgba(148, 163, 184, 0.3);
+      color: #e2e8f0;
+      font: 600 0.85rem 'Inter', system-ui, sans-serif;
+    }
+    #auth-badge button, #auth-overlay button {
+      border: none;
+      border-radius: 999px;
+      padding: 0.3rem 0.8rem;
+      background: #3b82f6;
+      color: #fff;
+      font: inherit;
+      cursor: pointer;
+    }
+    #auth-overlay {
+      position: fixed;
+      inset: 0;
+      z-index: 1001;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: rgba(15, 23, 42, 0.85);
+      font-family: 'Inter', system-ui, sans-serif;
+    }
+    #auth-overlay form {
+      display: grid;
+      gap: 0.75rem;
+      width: min(420px, 90vw);
+      padding: 1.8rem;
+      border-radius: 20px;
+      background: #0f172a;
+      border: 1px solid rgba(148, 163, 184, 0.3);
+      color: #e2e8f0;
+    }
+    #auth-overlay h2 { margin: 0; }
+    #auth-overlay p { margin: 0; color: rgba(226, 232, 240, 0.75); line-height: 1.5; }
+    #auth-overlay input {
+      padding: 0.6rem 0.8rem;
+      border-radius: 12px;
+      border: 1px solid rgba(148, 163, 184, 0.4);
+      background: rgba(15, 23, 42, 0.6);
+      color: inherit;
+      font: inherit;
+    }
+    #auth-overlay .auth-error { color: #f87171; min-height: 1.2em; }
+  `;
+  document.head.appendChild(style);
+
+  function showBadge(key) {
+    const badge = document.createElement('div');
+    badge.id = 'auth-badge';
+    const label = document.createElement('span');
+    label.textContent = `${key.name} · ${key.role}`;
+    const signOut = document.createElement('button');
+    signOut.type = 'button';
+    signOut.textContent = 'Sign out';
+    signOut.addEventListener('click', async () => {
+      await fetch('/auth/logout', { method: 'POST' });
+      window.location.reload();
+    });
+    badge.append(label, signOut);
+    document.body.appendChild(badge);
+  }
+
+  function showLogin() {
+    const overlay = document.createElement('div');
+    overlay.id = 'auth-overlay';
+    overlay.innerHTML = `
+      <form>
+        <h2>Sign in</h2>
+        <p>Paste an API key. Admins create keys through <code>/auth/keys</code>; the first one comes from <code>POST /auth/bootstrap</code>.</p>
+        <input name="key" type="password" placeholder="pmk_…" autocomplete="current-password" required>
+        <div class="auth-error"></div>
+        <button type="submit">Sign in</button>
+      </form>
+    `;
+    const form = overlay.querySelector('form');
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      const response = await fetch('/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: form.key.value })
+      });
+      if (response.ok) {
+        window.location.reload();
+        return;
+      }
+      const data = await response.json().catch(() => ({}));
+      overlay.querySelector('.auth-error').textContent = data.error || 'Sign-in failed';
+    });
+    document.body.appendChild(overlay);
+    form.key.focus();
+  }
+
+  async function init() {
+    const response = await fetch('/auth/me');
+    if (response.ok) {
+      const data = await response.json();
+      showBadge(data.key);
+    } else if (response.status === 401) {
+      showLogin();
+    }
+  }
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', init);
+  } else {
+    init();
+  }
+})();
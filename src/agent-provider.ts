@@ -0,0 +1,375 @@
+import type {
+  AgenticAction,
+  AgentPlan,
+  AgentProviderType,
+  AgentScript,
+  AgenticTestConfig,
+  CriterionVerdict
+} from './types';
+
+export interface AgentPlanningInput {
+  url?: string;
+  snapshot: string;
+  goal: string;
+  context: string;
+  success_criteria: string[];
+  history: AgentHistoryEntry[];
+}
+
+export interface AgentEvaluationInput {
+  url?: string;
+  snapshot: string;
+  goal: string;
+  context: string;
+  success_criteria: string[];
+}
+
+export interface AgentHistoryEntry {
+  action: AgenticAction;
+  outcome: 'succeeded' | 'failed';
+  error?: string;
+}
+
+/**
+ * Decides which browser actions the agentic executor should take next and
+ * judges whether the configured success criteria have been met.
+ */
+export interface AgentProvider {
+  readonly name: AgentProviderType;
+  planActions(input: AgentPlanningInput): Promise<AgentPlan>;
+  evaluateCriteria(input: AgentEvaluationInput): Promise<CriterionVerdict[]>;
+}
+
+export interface AgentProviderSettings {
+  provider?: AgentProviderType | null;
+  model?: string | null;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface WorkersAiBinding {
+  run(model: string, inputs: { messages: ChatMessage[] }): Promise<unknown>;
+}
+
+const AGENTIC_ACTION_TYPES: AgenticAction['type'][] = [
+  'analyze_page',
+  'take_screenshot',
+  'click_element',
+  'type_text',
+  'navigate_to',
+  'wait_for_element',
+  'verify_success'
+];
+
+const DEFAULT_WORKERS_AI_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const MAX_SNAPSHOT_CHARS = 24_000;
+
+const PLANNER_SYSTEM_PROMPT = `You are a QA agent driving a real browser through Playwright.
+Plan the next few browser actions that move the page towards the goal.
+Respond with a single JSON object and nothing else:
+{"reasoning": string, "actions": [{"type": string, "description": string, "params": object}]}
+Allowed action types and params:
+- navigate_to: {"url": string}
+- click_element: {"selector": string}
+- type_text: {"selector": string, "text": string}
+- wait_for_element: {"selector": string, "timeout"?: number}
+- take_screenshot: {}
+- analyze_page: {}
+- verify_success: {} (checks the success criteria against the current page)
+Credentials appear as {{secret:NAME}} placeholders; copy them verbatim into params, they are filled in when the action runs.
+Use CSS or Playwright text selectors that exist in the snapshot. Return an empty "actions" array when the goal is already reached or no further progress is possible.`;
+
+const EVALUATOR_SYSTEM_PROMPT = `You are a QA agent judging whether a web page satisfies a list of success criteria.
+Judge each criterion only from the page snapshot you are given.
+Respond with a single JSON object and nothing else:
+{"verdicts": [{"criterion": string, "met": boolean, "reasoning": string}]}
+Return exactly one verdict per criterion, in the order given.`;
+
+/**
+ * Shared prompt construction and response parsing for providers backed by a
+ * chat-completion style model.
+ */
+abstract class ChatAgentProvider implements AgentProvider {
+  abstract readonly name: AgentProviderType;
+
+  protected abstract complete(messages: ChatMessage[]): Promise<string>;
+
+  async planActions(input: AgentPlanningInput): Promise<AgentPlan> {
+    const history = input.history.length
+      ? input.history.map((entry, index) =>
+        `${index + 1}. ${entry.action.type} ${JSON.stringify(entry.action.params)} -> ${entry.outcome}${entry.error ? ` (${entry.error})` : ''}`
+      ).join('\n')
+      : 'None yet.';
+
+    const response = await this.complete([
+      { role: 'system', content: PLANNER_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: [
+          `Goal: ${input.goal}`,
+          `Context: ${input.context || 'None provided.'}`,
+          `Success criteria:\n${input.success_criteria.map(c => `- ${c}`).join('\n')}`,
+          input.url ? `Start URL: ${input.url}` : '',
+          `Actions taken so far:\n${history}`,
+          `Current page snapshot:\n${input.snapshot}`
+        ].filter(Boolean).join('\n\n')
+      }
+    ]);
+
+    return parsePlan(response);
+  }
+
+  async evaluateCriteria(input: AgentEvaluationInput): Promise<CriterionVerdict[]> {
+    const response = await this.complete([
+      { role: 'system', content: EVALUATOR_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: [
+          `Goal: ${input.goal}`,
+          `Context: ${input.context || 'None provided.'}`,
+          `Success criteria:\n${input.success_criteria.map((c, i) => `${i + 1}. ${c}`).join('\n')}`,
+          `Current page snapshot:\n${input.snapshot}`
+        ].join('\n\n')
+      }
+    ]);
+
+    return parseVerdicts(response, input.success_criteria);
+  }
+}
+
+export class WorkersAiAgentProvider extends ChatAgentProvider {
+  readonly name = 'workers-ai' as const;
+  private ai: WorkersAiBinding;
+  private model: string;
+
+  constructor(ai: WorkersAiBinding, model = DEFAULT_WORKERS_AI_MODEL) {
+    super();
+    this.ai = ai;
+    this.model = model;
+  }
+
+  protected async complete(messages: ChatMessage[]): Promise<string> {
+    const output = await this.ai.run(this.model, { messages }) as { response?: unknown };
+    if (typeof output?.response === 'string') {
+      return output.response;
+    }
+    // Some models return already-parsed JSON when asked for a JSON object
+    if (output?.response && typeof output.response === 'object') {
+      return JSON.stringify(output.response);
+    }
+    throw new Error(`Workers AI model ${this.model} returned no response`);
+  }
+}
+
+export class OpenAiCompatibleAgentProvider extends ChatAgentProvider {
+  readonly name = 'openai' as const;
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+
+  constructor(options: { baseUrl?: string; apiKey?: string; model?: string }) {
+    super();
+    this.baseUrl = (options.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model || DEFAULT_OPENAI_MODEL;
+  }
+
+  protected async complete(messages: ChatMessage[]): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature: 0,
+        response_format: { type: 'json_object' }
+      })
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Chat completion request failed with ${response.status}: ${body.slice(0, 500)}`);
+    }
+
+    const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error(`Model ${this.model} returned no message content`);
+    }
+    return content;
+  }
+}
+
+/**
+ * Replays a fixed list of plans and checks criteria by looking for expected
+ * text in the snapshot, so agentic runs can be exercised without a model.
+ */
+export class ScriptedAgentProvider implements AgentProvider {
+  readonly name = 'scripted' as const;
+  private script: AgentScript;
+  private round = 0;
+
+  constructor(script: AgentScript) {
+    this.script = script;
+  }
+
+  async planActions(_input: AgentPlanningInput): Promise<AgentPlan> {
+    const actions = this.script.plans[this.round] ?? [];
+    this.round++;
+    return {
+      reasoning: actions.length
+        ? `Scripted plan ${this.round} of ${this.script.plans.length}`
+        : 'Scripted plans exhausted',
+      actions
+    };
+  }
+
+  async evaluateCriteria(input: AgentEvaluationInput): Promise<CriterionVerdict[]> {
+    const snapshot = input.snapshot.toLowerCase();
+    return input.success_criteria.map(criterion => {
+      const expectedText = this.script.criteria_text?.[criterion];
+      if (expectedText === undefined) {
+        return { criterion, met: false, reasoning: 'No scripted expectation for this criterion' };
+      }
+      const met = snapshot.includes(expectedText.toLowerCase());
+      return {
+        criterion,
+        met,
+        reasoning: met
+          ? `Found "${expectedText}" in the page snapshot`
+          : `Did not find "${expectedText}" in the page snapshot`
+      };
+    });
+  }
+}
+
+/**
+ * Builds the provider for an agentic run. Row-level settings from
+ * `system_instructions` win over the worker-wide defaults in `env`.
+ */
+export function createAgentProvider(
+  env: Env,
+  settings: AgentProviderSettings,
+  config: AgenticTestConfig
+): AgentProvider {
+  const provider = settings.provider || (env.AGENT_PROVIDER as AgentProviderType | undefined) || 'workers-ai';
+  const model = settings.model || env.AGENT_MODEL || undefined;
+
+  switch (provider) {
+    case 'workers-ai':
+      if (!env.AI) {
+        throw new Error('Workers AI binding (AI) is not configured');
+      }
+      return new WorkersAiAgentProvider(env.AI as unknown as WorkersAiBinding, model);
+
+    case 'openai':
+      return new OpenAiCompatibleAgentProvider({
+        baseUrl: env.OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+        model
+      });
+
+    case 'scripted':
+      if (!config.script) {
+        throw new Error('The scripted provider requires a "script" in the agentic configuration');
+      }
+      return new ScriptedAgentProvider(config.script);
+
+    default:
+      throw new Error(`Unknown agent provider: ${provider}`);
+  }
+}
+
+/**
+ * Strips markup that carries no meaning for the model (scripts, styles, SVG
+ * paths, comments) and truncates the result to keep prompts within budget.
+ */
+export function condenseSnapshot(html: string, maxChars = MAX_SNAPSHOT_CHARS): string {
+  const condensed = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|svg|noscript)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return condensed.length > maxChars
+    ? `${condensed.slice(0, maxChars)} …[truncated ${condensed.length - maxChars} chars]`
+    : condensed;
+}
+
+export function parsePlan(raw: string): AgentPlan {
+  const data = extractJsonObject(raw);
+  if (!Array.isArray(data.actions)) {
+    throw new Error('Agent plan is missing an "actions" array');
+  }
+
+  const actions = data.actions.map((candidate: unknown, index: number): AgenticAction => {
+    const type = isObject(candidate) ? candidate.type : undefined;
+    if (!isObject(candidate) || !isAgenticActionType(type)) {
+      throw new Error(`Agent plan action ${index} has unsupported type: ${type}`);
+    }
+    return {
+      type,
+      description: typeof candidate.description === 'string' ? candidate.description : type,
+      params: isObject(candidate.params) ? candidate.params : {}
+    };
+  });
+
+  return {
+    reasoning: typeof data.reasoning === 'string' ? data.reasoning : '',
+    actions
+  };
+}
+
+export function parseVerdicts(raw: string, criteria: string[]): CriterionVerdict[] {
+  const data = extractJsonObject(raw);
+  const verdicts = Array.isArray(data.verdicts) ? data.verdicts.filter(isObject) : [];
+
+  return criteria.map((criterion, index) => {
+    const verdict = verdicts.find(v => v.criterion === criterion) ?? verdicts[index];
+    if (!verdict) {
+      return { criterion, met: false, reasoning: 'Model returned no verdict for this criterion' };
+    }
+    return {
+      criterion,
+      met: verdict.met === true,
+      reasoning: typeof verdict.reasoning === 'string' ? verdict.reasoning : ''
+    };
+  });
+}
+
+function extractJsonObject(raw: string): Record<string, unknown> {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error(`Model response did not contain a JSON object: ${raw.slice(0, 200)}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Model response contained invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(data)) {
+    throw new Error('Model response was not a JSON object');
+  }
+  return data;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isAgenticActionType(value: unknown): value is AgenticAction['type'] {
+  return AGENTIC_ACTION_TYPES.includes(value as AgenticAction['type']);
+}
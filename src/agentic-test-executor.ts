@@ -1,110 +1,192 @@
-import type { AgenticTestConfig, TestExecutionResult, PlaywrightAutomationClient } from './types';
+import type {
+  AgenticAction,
+  AgenticTestConfig,
+  CriterionVerdict,
+  TestExecutionResult,
+  TestResult,
+  PlaywrightAutomationClient
+} from './types';
+import type { AgentHistoryEntry, AgentProvider } from './agent-provider';
+import { condenseSnapshot } from './agent-provider';
+import { disposeOnAbort } from './cancellation';
 import { Logger } from './logger';
 import { DatabaseService } from './database';
+import { SessionArtifacts } from './artifact-store';
 
 export class AgenticTestExecutor {
   private logger: Logger;
   private db: DatabaseService;
   private playwright: PlaywrightAutomationClient;
-
-  constructor(playwright: PlaywrightAutomationClient, db: DatabaseService, logger: Logger) {
+  private provider: AgentProvider;
+  private artifacts: SessionArtifacts;
+  private signal?: AbortSignal;
+
+  constructor(
+    playwright: PlaywrightAutomationClient,
+    db: DatabaseService,
+    logger: Logger,
+    provider: AgentProvider,
+    artifacts: SessionArtifacts,
+    signal?: AbortSignal
+  ) {
     this.playwright = playwright;
     this.db = db;
     this.logger = logger;
+    this.provider = provider;
+    this.artifacts = artifacts;
+    this.signal = signal;
   }
 
-  async executeTest(sessionId: string, config: AgenticTestConfig): Promise<TestExecutionResult> {
+  async executeTest(sessionId: string, config: AgenticTestConfig, startUrl?: string): Promise<TestExecutionResult> {
     const startTime = Date.now();
-    const results: any[] = [];
+    const results: TestResult[] = [];
     const screenshots: string[] = [];
+    const testName = `Agentic Test: ${config.goal}`;
     let success = false;
     let attempts = 0;
+    let lastVerdicts: CriterionVerdict[] = [];
+    let lastError: string | undefined;
     const maxAttempts = config.max_attempts || 3;
+    const maxSteps = config.max_steps || 8;
     const timeoutMs = config.timeout_ms || 300000; // 5 minutes default
+    const deadline = startTime + timeoutMs;
 
-    await this.logger.logTestStart(`Agentic Test: ${config.goal}`);
+    await this.logger.logTestStart(testName);
     await this.logger.logInfo('Starting agentic test execution', {
       goal: config.goal,
       context: config.context,
       success_criteria: config.success_criteria,
-      max_attempts: maxAttempts
+      max_attempts: maxAttempts,
+      provider: this.provider.name
     });
 
-    const testTimeout = setTimeout(() => {
-      throw new Error(`Test execution timeout after ${timeoutMs}ms`);
-    }, timeoutMs);
+    const releaseBrowser = disposeOnAbort(this.playwright, this.signal);
 
     try {
-      while (attempts < maxAttempts && !success) {
+      while (attempts < maxAttempts && !success && !this.signal?.aborted) {
+        if (Date.now() >= deadline) {
+          lastError = `Test execution timeout after ${timeoutMs}ms`;
+          await this.logger.logWarning(lastError, { attempts });
+          break;
+        }
+
         attempts++;
         await this.logger.logInfo(`Starting attempt ${attempts}/${maxAttempts}`);
+        const history: AgentHistoryEntry[] = [];
 
         try {
-          // Take initial snapshot
-          const initialSnapshot = await this.takeSnapshot();
-          await this.logger.logInfo('Took initial snapshot', { snapshot: 'initial' });
-
-          // Analyze the current state
-          const analysis = await this.analyzeCurrentState(initialSnapshot, config);
-          await this.logger.logInfo('Analyzed current state', analysis);
-
-          // Plan and execute actions
-          const actionPlan = await this.planActions(analysis, config);
-          await this.logger.logInfo('Generated action plan', { actions: actionPlan.length });
-
-          for (const action of actionPlan) {
-            await this.executeAgenticAction(action, screenshots);
-            
-            // Check if we've met success criteria after each action
-            const currentSnapshot = await this.takeSnapshot();
-            const criteriaCheck = await this.checkSuccessCriteria(currentSnapshot, config.success_criteria);
-            
+          if (startUrl) {
+            await this.logger.timedExecution('navigate_to', { url: startUrl }, async () => {
+              return await this.playwright.navigate(startUrl);
+            });
+          }
+
+          for (let step = 1; step <= maxSteps && Date.now() < deadline && !this.signal?.aborted; step++) {
+            const snapshot = await this.takeSnapshot();
+            const plan = await this.logger.timedExecution('plan_actions', { attempt: attempts, step }, async () => {
+              return await this.provider.planActions({
+                url: startUrl,
+                snapshot,
+                goal: config.goal,
+                context: config.context,
+                success_criteria: config.success_criteria,
+                history
+              });
+            });
+
+            if (!plan.actions.length) {
+              await this.logger.logInfo('Agent planned no further actions', { reasoning: plan.reasoning });
+            }
+
+            for (const action of plan.actions) {
+              if (this.signal?.aborted) break;
+              try {
+                await this.executeAgenticAction(action, config, screenshots);
+                history.push({ action, outcome: 'succeeded' });
+              } catch (error) {
+                // Feed the failure back to the planner instead of abandoning the attempt
+                history.push({
+                  action,
+                  outcome: 'failed',
+                  error: error instanceof Error ? error.message : String(error)
+                });
+                break;
+              }
+            }
+
+            if (this.signal?.aborted) break;
+
+            const criteriaCheck = await this.checkSuccessCriteria(await this.takeSnapshot(), config);
+            lastVerdicts = criteriaCheck.verdicts;
+
             if (criteriaCheck.success) {
               success = true;
               await this.logger.logInfo('Success criteria met', criteriaCheck);
               break;
             }
-          }
 
-          if (success) {
-            await this.db.saveTestResult({
-              session_id: sessionId,
-              test_name: `Agentic Test: ${config.goal}`,
-              status: 'passed',
-              execution_time_ms: Date.now() - startTime
-            });
-          } else if (attempts >= maxAttempts) {
-            await this.db.saveTestResult({
-              session_id: sessionId,
-              test_name: `Agentic Test: ${config.goal}`,
-              status: 'failed',
-              error_message: 'Failed to meet success criteria within maximum attempts',
-              execution_time_ms: Date.now() - startTime
-            });
+            if (!plan.actions.length) {
+              break;
+            }
           }
-
         } catch (error) {
+          // Disposing the browser on cancellation makes the in-flight call throw; that is not a test failure
+          if (this.signal?.aborted) break;
+          lastError = error instanceof Error ? error.message : String(error);
           await this.logger.logError(error as Error, { attempt: attempts });
-          
-          if (attempts >= maxAttempts) {
-            await this.db.saveTestResult({
-              session_id: sessionId,
-              test_name: `Agentic Test: ${config.goal}`,
-              status: 'failed',
-              error_message: error instanceof Error ? error.message : String(error),
-              execution_time_ms: Date.now() - startTime
-            });
-          }
         }
       }
-
     } finally {
-      clearTimeout(testTimeout);
-      await this.playwright.dispose();
+      await releaseBrowser();
     }
 
     const executionTime = Date.now() - startTime;
-    await this.logger.logTestEnd(`Agentic Test: ${config.goal}`, success ? 'passed' : 'failed', executionTime);
+    const cancelled = !success && !!this.signal?.aborted;
+
+    if (cancelled) {
+      await this.logger.logInfo('Agentic test cancelled', { attempts });
+      results.push(await this.saveResult({
+        session_id: sessionId,
+        test_name: testName,
+        status: 'skipped',
+        error_message: 'Session cancelled',
+        execution_time_ms: executionTime
+      }));
+      await this.logger.logTestEnd(testName, 'skipped', executionTime);
+
+      return {
+        session_id: sessionId,
+        success: false,
+        cancelled: true,
+        results,
+        logs: await this.db.getActionLogs(sessionId),
+        screenshots,
+        error_summary: `Session ${sessionId} was cancelled`,
+        execution_time_ms: executionTime
+      };
+    }
+
+    for (const verdict of lastVerdicts) {
+      results.push(await this.saveResult({
+        session_id: sessionId,
+        test_name: `${testName} - ${verdict.criterion}`,
+        status: verdict.met ? 'passed' : 'failed',
+        error_message: verdict.met ? undefined : verdict.reasoning,
+        execution_time_ms: executionTime
+      }));
+    }
+
+    results.push(await this.saveResult({
+      session_id: sessionId,
+      test_name: testName,
+      status: success ? 'passed' : 'failed',
+      error_message: success
+        ? undefined
+        : lastError || `Failed to meet success criteria within ${attempts} attempt(s)`,
+      execution_time_ms: executionTime
+    }));
+
+    await this.logger.logTestEnd(testName, success ? 'passed' : 'failed', executionTime);
 
     return {
       session_id: sessionId,
@@ -117,10 +199,15 @@ export class AgenticTestExecutor {
     };
   }
 
+  private async saveResult(result: Omit<TestResult, 'id' | 'timestamp'>): Promise<TestResult> {
+    await this.db.saveTestResult(result);
+    return result;
+  }
+
   private async takeSnapshot(): Promise<string> {
     try {
       return await this.logger.timedExecution('take_snapshot', {}, async () => {
-        return await this.playwright.snapshot();
+        return condenseSnapshot(await this.playwright.snapshot());
       });
     } catch (error) {
       await this.logger.logError(error as Error, { action: 'take_snapshot' });
@@ -128,53 +215,7 @@ export class AgenticTestExecutor {
     }
   }
 
-  private async analyzeCurrentState(snapshot: string, config: AgenticTestConfig): Promise<{
-    currentState: string;
-    availableActions: string[];
-    relevantElements: string[];
-    progressAssessment: string;
-  }> {
-    // This is a simplified analysis - in a real implementation, this would use AI
-    // to understand the current page state and what actions are possible
-    
-    await this.logger.logInfo('Analyzing current state with AI agent');
-    
-    // Simulated AI analysis
-    const analysis = {
-      currentState: 'Page is loaded with various interactive elements',
-      availableActions: ['click', 'type', 'navigate', 'select', 'wait'],
-      relevantElements: ['buttons', 'inputs', 'links', 'dropdowns'],
-      progressAssessment: `Working towards goal: ${config.goal}`
-    };
-
-    await this.logger.logDebug('State analysis complete', analysis);
-    return analysis;
-  }
-
-  private async planActions(analysis: any, config: AgenticTestConfig): Promise<AgenticAction[]> {
-    // This would use AI to plan the next series of actions
-    await this.logger.logInfo('Planning actions based on analysis and goal');
-
-    // Simulated action planning
-    const actions: AgenticAction[] = [
-      {
-        type: 'analyze_page',
-        description: 'Analyze page structure and available elements',
-        params: {}
-      },
-      {
-        type: 'take_screenshot',
-        description: 'Capture current state for analysis',
-        params: {}
-      }
-      // More actions would be planned based on the specific goal and context
-    ];
-
-    await this.logger.logInfo('Action plan generated', { actionCount: actions.length });
-    return actions;
-  }
-
-  private async executeAgenticAction(action: AgenticAction, screenshots: string[]): Promise<void> {
+  private async executeAgenticAction(action: AgenticAction, config: AgenticTestConfig, screenshots: string[]): Promise<void> {
     const startTime = Date.now();
     
     try {
@@ -189,12 +230,12 @@ export class AgenticTestExecutor {
           break;
 
         case 'take_screenshot':
-          const screenshotPath = `agentic_screenshot_${Date.now()}.png`;
-          await this.logger.timedExecution('take_screenshot', { path: screenshotPath }, async () => {
-            const result = await this.playwright.takeScreenshot();
-            screenshots.push(screenshotPath);
-            return result;
+          const name = `agentic-${String(screenshots.length + 1).padStart(3, '0')}.png`;
+          const screenshotPath = await this.logger.timedExecution('take_screenshot', { path: name }, async () => {
+            const image = await this.playwright.takeScreenshot();
+            return await this.artifacts.saveScreenshot(name, image);
           });
+          screenshots.push(screenshotPath);
           break;
 
         case 'click_element':
@@ -230,19 +271,19 @@ export class AgenticTestExecutor {
           }
           const timeout = action.params.timeout || 10000;
           await this.logger.timedExecution('wait_for_element', action.params, async () => {
-            // Placeholder for actual wait logic
-            await new Promise(resolve => setTimeout(resolve, 1000));
+            await this.playwright.waitFor(action.params.selector, 'visible', timeout);
             return { element_appeared: true };
           });
           break;
 
-        case 'verify_success':
-          await this.logger.timedExecution('verify_success', action.params, async () => {
-            const snapshot = await this.playwright.snapshot();
-            // This would use AI to verify if the success criteria are met
-            return { verification: 'in_progress' };
-          });
+        case 'verify_success': {
+          const check = await this.checkSuccessCriteria(await this.takeSnapshot(), config);
+          // Unmet criteria fail the action so the planner sees which ones are left
+          if (!check.success) {
+            throw new Error(`Success criteria not met: ${check.unmetCriteria.join('; ') || 'none given'}`);
+          }
           break;
+        }
 
         default:
           throw new Error(`Unknown agentic action type: ${action.type}`);
@@ -255,38 +296,29 @@ export class AgenticTestExecutor {
     }
   }
 
-  private async checkSuccessCriteria(snapshot: string, criteria: string[]): Promise<{
+  private async checkSuccessCriteria(snapshot: string, config: AgenticTestConfig): Promise<{
     success: boolean;
+    verdicts: CriterionVerdict[];
     metCriteria: string[];
     unmetCriteria: string[];
-    analysis: string;
   }> {
-    await this.logger.logInfo('Checking success criteria against current state');
+    const verdicts = await this.logger.timedExecution('evaluate_criteria', { criteria: config.success_criteria }, async () => {
+      return await this.provider.evaluateCriteria({
+        snapshot,
+        goal: config.goal,
+        context: config.context,
+        success_criteria: config.success_criteria
+      });
+    });
 
-    // This would use AI to analyze the current state against success criteria
-    // For now, we'll simulate the analysis
-    
-    const metCriteria: string[] = [];
-    const unmetCriteria = [...criteria];
-    
-    // Simulated criteria checking
-    const analysis = `Analyzed current state against ${criteria.length} success criteria`;
-    const success = metCriteria.length === criteria.length;
+    const metCriteria = verdicts.filter(v => v.met).map(v => v.criterion);
+    const unmetCriteria = verdicts.filter(v => !v.met).map(v => v.criterion);
 
-    const result = {
-      success,
+    return {
+      success: config.success_criteria.length > 0 && unmetCriteria.length === 0,
+      verdicts,
       metCriteria,
-      unmetCriteria,
-      analysis
+      unmetCriteria
     };
-
-    await this.logger.logInfo('Success criteria check complete', result);
-    return result;
   }
 }
-
-interface AgenticAction {
-  type: 'analyze_page' | 'take_screenshot' | 'click_element' | 'type_text' | 'navigate_to' | 'wait_for_element' | 'verify_success';
-  description: string;
-  params: Record<string, any>;
-}
@@ -0,0 +1,142 @@
+import { DatabaseService } from './database';
+import type { Artifact } from './types';
+
+export interface StoredArtifact {
+  body: ReadableStream | Uint8Array;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Binary storage for session artifacts such as screenshots. Metadata lives in
+ * the D1 `artifacts` table; the bytes live here.
+ */
+export interface ArtifactStore {
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredArtifact | null>;
+  delete(keys: string[]): Promise<void>;
+}
+
+export class R2ArtifactStore implements ArtifactStore {
+  private bucket: R2Bucket;
+
+  constructor(bucket: R2Bucket) {
+    this.bucket = bucket;
+  }
+
+  async put(key: string, data: Uint8Array, contentType: string): Promise<void> {
+    await this.bucket.put(key, data, { httpMetadata: { contentType } });
+  }
+
+  async get(key: string): Promise<StoredArtifact | null> {
+    const object = await this.bucket.get(key);
+    if (!object) {
+      return null;
+    }
+    return {
+      body: object.body,
+      contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+      size: object.size
+    };
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    // R2 accepts at most 1000 keys per delete call
+    for (let i = 0; i < keys.length; i += 1000) {
+      await this.bucket.delete(keys.slice(i, i + 1000));
+    }
+  }
+}
+
+/**
+ * Stand-in used when no R2 bucket is bound (local development and tests).
+ * Contents only live as long as the isolate.
+ */
+export class InMemoryArtifactStore implements ArtifactStore {
+  private objects = new Map<string, { data: Uint8Array; contentType: string }>();
+
+  async put(key: string, data: Uint8Array, contentType: string): Promise<void> {
+    this.objects.set(key, { data: data.slice(), contentType });
+  }
+
+  async get(key: string): Promise<StoredArtifact | null> {
+    const object = this.objects.get(key);
+    if (!object) {
+      return null;
+    }
+    return { body: object.data.slice(), contentType: object.contentType, size: object.data.byteLength };
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.objects.delete(key);
+    }
+  }
+}
+
+const fallbackStore = new InMemoryArtifactStore();
+
+export function createArtifactStore(env: Env): ArtifactStore {
+  return env.ARTIFACTS ? new R2ArtifactStore(env.ARTIFACTS) : fallbackStore;
+}
+
+export async function readArtifactBytes(artifact: StoredArtifact): Promise<Uint8Array> {
+  if (artifact.body instanceof Uint8Array) {
+    return artifact.body;
+  }
+  return new Uint8Array(await new Response(artifact.body).arrayBuffer());
+}
+
+export function sessionArtifactKey(sessionId: string, name: string): string {
+  return `sessions/${sessionId}/${name}`;
+}
+
+/**
+ * Session-scoped helper the executors use to persist artifacts and record
+ * them in D1 in one step.
+ */
+export class SessionArtifacts {
+  private store: ArtifactStore;
+  private db: DatabaseService;
+  private sessionId: string;
+
+  constructor(store: ArtifactStore, db: DatabaseService, sessionId: string) {
+    this.store = store;
+    this.db = db;
+    this.sessionId = sessionId;
+  }
+
+  async saveScreenshot(name: string, base64Png: string, stepIndex?: number): Promise<string> {
+    return await this.save(name, base64ToBytes(base64Png), 'image/png', 'screenshot', stepIndex);
+  }
+
+  async save(
+    name: string,
+    data: Uint8Array,
+    contentType: string,
+    kind: Artifact['kind'],
+    stepIndex?: number
+  ): Promise<string> {
+    const storageKey = sessionArtifactKey(this.sessionId, name);
+    await this.store.put(storageKey, data, contentType);
+    await this.db.saveArtifact({
+      session_id: this.sessionId,
+      name,
+      kind,
+      content_type: contentType,
+      size_bytes: data.byteLength,
+      step_index: stepIndex,
+      storage_key: storageKey
+    });
+    return name;
+  }
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
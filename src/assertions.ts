@@ -0,0 +1,226 @@
+import type { CountComparator, TestAssertion, TextMatchMode } from './types';
+
+// What a probe observed on the page; null when the selector matched nothing,
+// undefined when the element exists but lacks the asserted attribute
+export type AssertionValue = string | number | boolean | null | undefined;
+
+/**
+ * Structured expected-vs-actual report for a failed assertion. It is stored
+ * as JSON in `test_results.error_message` so the UI and reporters can read
+ * the fields back instead of parsing prose.
+ */
+export interface AssertionFailureDetails {
+  message: string;
+  type: TestAssertion['type'];
+  selector?: string;
+  attribute?: string;
+  property?: string;
+  operator: string;
+  negated: boolean;
+  ignore_case?: boolean;
+  expected?: string | number | boolean;
+  actual: string | number | boolean | null;
+}
+
+export class AssertionFailedError extends Error {
+  readonly details: AssertionFailureDetails;
+
+  constructor(details: AssertionFailureDetails) {
+    super(JSON.stringify(details));
+    this.name = 'AssertionFailedError';
+    this.details = details;
+  }
+}
+
+const ASSERTION_TYPES = new Set<TestAssertion['type']>([
+  'exists', 'visible', 'text', 'value', 'count', 'custom',
+  'url', 'title', 'attribute', 'css_property', 'enabled', 'checked'
+]);
+const TEXT_MATCHED_TYPES = new Set<TestAssertion['type']>(['text', 'value', 'url', 'title', 'attribute', 'css_property']);
+const STATE_TYPES = new Set<TestAssertion['type']>(['exists', 'visible', 'enabled', 'checked']);
+const TEXT_MATCH_MODES: TextMatchMode[] = ['exact', 'contains', 'regex'];
+const COUNT_COMPARATORS: CountComparator[] = ['eq', 'gt', 'gte', 'lt', 'lte'];
+
+const COUNT_PHRASES: Record<CountComparator, string> = {
+  eq: 'to be',
+  gt: 'to be greater than',
+  gte: 'to be at least',
+  lt: 'to be less than',
+  lte: 'to be at most'
+};
+
+const TEXT_PHRASES: Record<TextMatchMode, string> = {
+  exact: 'to equal',
+  contains: 'to contain',
+  regex: 'to match'
+};
+
+/**
+ * Checks that an assertion carries the fields its type needs. Throws with a
+ * message naming what is missing; returns nothing for a usable assertion.
+ */
+export function validateAssertion(assertion: TestAssertion): void {
+  if (!ASSERTION_TYPES.has(assertion.type)) {
+    throw new Error(`Unknown assertion type: ${assertion.type}`);
+  }
+
+  const missing: string[] = [];
+  const needsSelector = assertion.type !== 'url' && assertion.type !== 'title' && assertion.type !== 'custom';
+
+  if (needsSelector && !assertion.selector) missing.push('selector');
+  if (assertion.type === 'attribute' && !assertion.attribute) missing.push('attribute');
+  if (assertion.type === 'css_property' && !assertion.property) missing.push('property');
+  if (['text', 'value', 'url', 'title', 'css_property'].includes(assertion.type) && assertion.expected === undefined) {
+    missing.push('expected');
+  }
+  if (assertion.type === 'count' && typeof assertion.expected !== 'number') {
+    missing.push('expected (number)');
+  }
+  if (missing.length > 0) {
+    throw new Error(`${assertion.type} assertion requires ${missing.join(', ')}`);
+  }
+
+  if (assertion.match !== undefined && !TEXT_MATCH_MODES.includes(assertion.match)) {
+    throw new Error(`Unknown match mode "${assertion.match}"; use ${TEXT_MATCH_MODES.join(', ')}`);
+  }
+  if (assertion.comparator !== undefined && !COUNT_COMPARATORS.includes(assertion.comparator)) {
+    throw new Error(`Unknown count comparator "${assertion.comparator}"; use ${COUNT_COMPARATORS.join(', ')}`);
+  }
+  if (assertion.match === 'regex' && assertion.expected !== undefined) {
+    toRegExp(String(assertion.expected), assertion.ignore_case);
+  }
+}
+
+/**
+ * Applies the assertion's matcher and `not` flag to an observed value. A
+ * missing element fails value checks even when negated, so `not` never
+ * passes just because a selector is wrong.
+ */
+export function assertionPasses(assertion: TestAssertion, actual: AssertionValue): boolean {
+  if (actual === null) {
+    return false;
+  }
+  const passes = matches(assertion, actual);
+  return assertion.not ? !passes : passes;
+}
+
+export function assertionFailure(assertion: TestAssertion, actual: AssertionValue): AssertionFailedError {
+  const operator = operatorFor(assertion);
+  const details: AssertionFailureDetails = {
+    message: describeMismatch(assertion, actual),
+    type: assertion.type,
+    selector: assertion.selector,
+    attribute: assertion.attribute,
+    property: assertion.property,
+    operator,
+    negated: assertion.not === true,
+    ignore_case: assertion.ignore_case,
+    expected: assertion.expected,
+    actual: actual ?? null
+  };
+  return new AssertionFailedError(details);
+}
+
+function matches(assertion: TestAssertion, actual: string | number | boolean | undefined): boolean {
+  // An absent attribute is neither present nor equal to anything
+  if (actual === undefined) {
+    return false;
+  }
+  if (assertion.type === 'count') {
+    return compareCount(Number(actual), Number(assertion.expected), assertion.comparator ?? 'eq');
+  }
+  if (assertion.type === 'exists') {
+    return Number(actual) > 0;
+  }
+  if (STATE_TYPES.has(assertion.type)) {
+    return actual === true;
+  }
+  // An attribute assertion without `expected` only checks presence
+  if (assertion.type === 'attribute' && assertion.expected === undefined) {
+    return true;
+  }
+  if (TEXT_MATCHED_TYPES.has(assertion.type)) {
+    return matchText(String(actual), String(assertion.expected), assertion.match ?? 'exact', assertion.ignore_case);
+  }
+  return false;
+}
+
+export function matchText(actual: string, expected: string, mode: TextMatchMode, ignoreCase = false): boolean {
+  if (mode === 'regex') {
+    return toRegExp(expected, ignoreCase).test(actual);
+  }
+  const left = ignoreCase ? actual.toLowerCase() : actual;
+  const right = ignoreCase ? expected.toLowerCase() : expected;
+  return mode === 'contains' ? left.includes(right) : left === right;
+}
+
+export function compareCount(actual: number, expected: number, comparator: CountComparator): boolean {
+  switch (comparator) {
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+    default: return actual === expected;
+  }
+}
+
+// Accepts a bare pattern or the `/pattern/flags` form
+function toRegExp(pattern: string, ignoreCase?: boolean): RegExp {
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  const source = literal ? literal[1] : pattern;
+  let flags = literal ? literal[2] : '';
+  if (ignoreCase && !flags.includes('i')) {
+    flags += 'i';
+  }
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw new Error(`Invalid regex "${pattern}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function operatorFor(assertion: TestAssertion): string {
+  if (assertion.type === 'count') return assertion.comparator ?? 'eq';
+  if (STATE_TYPES.has(assertion.type)) return assertion.type;
+  if (assertion.type === 'attribute' && assertion.expected === undefined) return 'present';
+  return assertion.match ?? 'exact';
+}
+
+function describeMismatch(assertion: TestAssertion, actual: AssertionValue): string {
+  if (actual === null) {
+    return assertion.selector
+      ? `Element ${assertion.selector} does not exist`
+      : `Could not read ${assertion.type}`;
+  }
+
+  const negation = assertion.not ? 'not ' : '';
+  let phrase: string;
+  if (assertion.type === 'count') {
+    phrase = `${COUNT_PHRASES[assertion.comparator ?? 'eq']} ${assertion.expected}`;
+  } else if (assertion.type === 'exists') {
+    phrase = 'to exist';
+  } else if (STATE_TYPES.has(assertion.type)) {
+    phrase = `to be ${assertion.type}`;
+  } else if (assertion.type === 'attribute' && assertion.expected === undefined) {
+    phrase = 'to be present';
+  } else {
+    phrase = `${TEXT_PHRASES[assertion.match ?? 'exact']} ${JSON.stringify(assertion.expected)}`;
+    if (assertion.ignore_case) phrase += ' (ignoring case)';
+  }
+
+  const got = actual === undefined ? 'but it is absent' : `got ${JSON.stringify(actual)}`;
+  return `Expected ${describeSubject(assertion)} ${negation}${phrase}, ${got}`;
+}
+
+function describeSubject(assertion: TestAssertion): string {
+  switch (assertion.type) {
+    case 'text': return `text of ${assertion.selector}`;
+    case 'value': return `value of ${assertion.selector}`;
+    case 'count': return `count of ${assertion.selector}`;
+    case 'url': return 'page URL';
+    case 'title': return 'page title';
+    case 'attribute': return `attribute "${assertion.attribute}" of ${assertion.selector}`;
+    case 'css_property': return `CSS property "${assertion.property}" of ${assertion.selector}`;
+    default: return String(assertion.selector);
+  }
+}
@@ -0,0 +1,155 @@
+import type { DatabaseService } from './database';
+import type { ApiKey, ApiRole } from './types';
+
+export const API_ROLES: ApiRole[] = ['viewer', 'runner', 'admin'];
+
+// Set by POST /auth/login so the UI pages (and <img> artifact links) authenticate without headers
+export const API_KEY_COOKIE = 'api_key';
+
+const KEY_PREFIX = 'pmk_';
+
+type RouteAccess = ApiRole | 'public';
+
+/**
+ * Role required per route and method ('*' covers the methods not listed).
+ * HEAD follows GET. Routes missing here are public only for GET requests of
+ * static files; everything else needs an admin key, so a new endpoint is
+ * closed until it is added.
+ */
+const ROUTE_ROLES: Record<string, Record<string, RouteAccess>> = {
+  // Static pages; their data comes from the authenticated endpoints below
+  '/': { '*': 'public' },
+  '/docs': { '*': 'public' },
+  '/config.html': { '*': 'public' },
+  '/tests.html': { '*': 'public' },
+  '/sessions.html': { '*': 'public' },
+  '/analytics.html': { '*': 'public' },
+  '/openapi.json': { '*': 'public' },
+  '/health': { '*': 'public' },
+
+  // MCP transports drive the browser like a test run
+  '/sse': { '*': 'runner' },
+  '/sse/message': { '*': 'runner' },
+  '/mcp': { '*': 'runner' },
+
+  '/auth/login': { '*': 'public' },
+  '/auth/logout': { '*': 'public' },
+  '/auth/bootstrap': { '*': 'public' },
+  '/auth/me': { '*': 'viewer' },
+  '/auth/keys': { '*': 'admin' },
+
+  '/config': { GET: 'public', '*': 'admin' },
+  '/config.json': { GET: 'viewer', '*': 'admin' },
+  '/config/list': { '*': 'viewer' },
+  '/config/find': { '*': 'viewer' },
+  '/config/export/playwright': { '*': 'viewer' },
+  '/config/import': { '*': 'admin' },
+  '/config/validate': { '*': 'viewer' },
+  '/config/schema': { '*': 'viewer' },
+  '/config/revisions': { '*': 'viewer' },
+  '/config/diff': { '*': 'viewer' },
+  '/config/rollback': { '*': 'admin' },
+  '/schedule': { GET: 'viewer', '*': 'admin' },
+  '/secrets': { '*': 'admin' },
+  '/notifications/channels': { GET: 'viewer', '*': 'admin' },
+  '/notifications/deliveries': { '*': 'viewer' },
+  '/admin/setup': { '*': 'admin' },
+  '/admin/migrate': { '*': 'admin' },
+  '/admin/schema': { '*': 'admin' },
+
+  '/test/traditional': { '*': 'runner' },
+  '/test/agentic': { '*': 'runner' },
+  // DELETE cancels a running session
+  '/session': { GET: 'viewer', '*': 'runner' },
+  '/session/list': { '*': 'viewer' },
+  '/session/artifact': { '*': 'viewer' },
+  '/session/results': { '*': 'viewer' },
+  '/visual/comparisons': { '*': 'viewer' },
+  '/visual/approve': { '*': 'runner' },
+  '/visual/baselines': { GET: 'viewer', '*': 'admin' },
+  '/mocks/fixtures': { GET: 'viewer', '*': 'admin' },
+  '/analytics/stats': { '*': 'viewer' },
+  '/analytics/trends': { '*': 'viewer' },
+  '/analytics/flaky': { '*': 'viewer' },
+  '/cleanup/old-sessions': { '*': 'admin' }
+};
+
+export function routeRole(method: string, pathname: string): RouteAccess {
+  const verb = method === 'HEAD' ? 'GET' : method;
+  const route = ROUTE_ROLES[pathname];
+  if (route) {
+    return route[verb] ?? route['*'];
+  }
+  // Static assets such as /auth.js
+  const isFile = /\.[A-Za-z0-9]+$/.test(pathname.split('/').pop() ?? '');
+  return verb === 'GET' && isFile ? 'public' : 'admin';
+}
+
+export function hasRole(role: ApiRole, required: ApiRole): boolean {
+  return API_ROLES.indexOf(role) >= API_ROLES.indexOf(required);
+}
+
+export function isApiRole(value: unknown): value is ApiRole {
+  return API_ROLES.includes(value as ApiRole);
+}
+
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const encoded = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${KEY_PREFIX}${encoded}`;
+}
+
+export function apiKeyPrefix(key: string): string {
+  return key.slice(0, KEY_PREFIX.length + 8);
+}
+
+// Keys are 256 random bits, so a fast hash is enough to keep them out of the database
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key)));
+  return [...digest].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Accepts `Authorization: Bearer <key>`, `X-API-Key: <key>` or the login cookie
+export function readApiKey(request: Request): string | null {
+  const authorization = request.headers.get('Authorization');
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (bearer) return bearer;
+
+  const header = request.headers.get('X-API-Key');
+  if (header) return header.trim();
+
+  for (const part of (request.headers.get('Cookie') ?? '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === API_KEY_COOKIE && value.length) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+}
+
+export async function authenticateRequest(request: Request, db: DatabaseService): Promise<ApiKey | null> {
+  const key = readApiKey(request);
+  if (!key || !key.startsWith(KEY_PREFIX)) return null;
+  return await db.getApiKeyByHash(await hashApiKey(key));
+}
+
+// Compares hashes so the comparison time does not depend on where the token differs
+export async function matchesBootstrapToken(request: Request, token: string | undefined): Promise<boolean> {
+  const presented = request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token || !presented) return false;
+
+  const [a, b] = await Promise.all([hashApiKey(presented), hashApiKey(token)]);
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+// Pass null to clear the cookie
+export function apiKeyCookie(key: string | null, secure: boolean): string {
+  const attributes = ['Path=/', 'HttpOnly', 'SameSite=Strict', ...(secure ? ['Secure'] : [])];
+  return key === null
+    ? [`${API_KEY_COOKIE}=`, 'Max-Age=0', ...attributes].join('; ')
+    : [`${API_KEY_COOKIE}=${encodeURIComponent(key)}`, `Max-Age=${60 * 60 * 24 * 30}`, ...attributes].join('; ');
+}
@@ -0,0 +1,80 @@
+import { DatabaseService } from './database';
+import type { PlaywrightAutomationClient } from './types';
+
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+
+export class SessionCancelledError extends Error {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} was cancelled`);
+    this.name = 'SessionCancelledError';
+  }
+}
+
+/**
+ * Disposes the browser as soon as `signal` aborts, which rejects any
+ * in-flight Playwright call. The returned function ends the run: it detaches
+ * the listener and disposes the browser unless the abort already did.
+ */
+export function disposeOnAbort(client: PlaywrightAutomationClient, signal?: AbortSignal): () => Promise<void> {
+  let disposal: Promise<void> | undefined;
+  const dispose = () => (disposal ??= client.dispose());
+  const onAbort = () => { void dispose(); };
+  signal?.addEventListener('abort', onAbort);
+
+  return async () => {
+    signal?.removeEventListener('abort', onAbort);
+    await dispose();
+  };
+}
+
+/**
+ * Watches a session row for `status = 'cancelled'` (set by DELETE /session,
+ * possibly from another isolate) and aborts `signal` when it appears.
+ * Executors check the signal between steps and dispose the browser on abort,
+ * which rejects any in-flight Playwright call.
+ */
+export class CancellationWatcher {
+  private db: DatabaseService;
+  private sessionId: string;
+  private intervalMs: number;
+  private controller = new AbortController();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(db: DatabaseService, sessionId: string, intervalMs = DEFAULT_POLL_INTERVAL_MS) {
+    this.db = db;
+    this.sessionId = sessionId;
+    this.intervalMs = intervalMs;
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.check().catch(error => console.error(`[${this.sessionId}] Cancellation check failed`, error));
+    }, this.intervalMs);
+  }
+
+  async check(): Promise<boolean> {
+    if (this.controller.signal.aborted) {
+      return true;
+    }
+
+    const session = await this.db.getTestSession(this.sessionId);
+    if (session?.status === 'cancelled') {
+      this.controller.abort(new SessionCancelledError(this.sessionId));
+      this.stop();
+      return true;
+    }
+    return false;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
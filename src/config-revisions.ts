@@ -0,0 +1,171 @@
+import type { ConfigRevision, ConfigSnapshot } from './types';
+
+// Columns captured in every revision and restored by a rollback
+export const REVISIONED_FIELDS = [
+  'url_pattern', 'match_type', 'priority', 'name', 'instructions', 'test_type', 'llm_provider', 'llm_model', 'is_active'
+] as const;
+
+// SQL expression that snapshots the current system_instructions row as JSON
+export const SNAPSHOT_SQL = `json_object(${REVISIONED_FIELDS.map(field => `'${field}', ${field}`).join(', ')})`;
+
+export interface RevisionDiff {
+  config_id: number;
+  from: number;
+  to: number;
+  // Every changed field except instructions, which is diffed line by line below
+  changes: Array<{ field: string; from: unknown; to: unknown }>;
+  // Unified diff of the pretty-printed instructions; empty when they are identical
+  instructions_diff: string;
+}
+
+// Keeps only the columns a revision tracks, e.g. from a PUT /config body
+export function pickRevisionedFields(updates: Record<string, unknown>): Partial<ConfigSnapshot> {
+  const picked: Record<string, unknown> = {};
+  for (const field of REVISIONED_FIELDS) {
+    if (updates[field] !== undefined) picked[field] = updates[field];
+  }
+  return picked as Partial<ConfigSnapshot>;
+}
+
+export function diffRevisions(from: ConfigRevision, to: ConfigRevision): RevisionDiff {
+  const changes: RevisionDiff['changes'] = [];
+  for (const field of REVISIONED_FIELDS) {
+    if (field === 'instructions') continue;
+    const before = normalize(from.snapshot[field]);
+    const after = normalize(to.snapshot[field]);
+    if (before !== after) changes.push({ field, from: before, to: after });
+  }
+
+  return {
+    config_id: to.config_id,
+    from: from.revision,
+    to: to.revision,
+    changes,
+    instructions_diff: unifiedDiff(
+      formatInstructions(from.snapshot.instructions),
+      formatInstructions(to.snapshot.instructions),
+      [`revision ${from.revision}`, `revision ${to.revision}`]
+    )
+  };
+}
+
+// SQLite stores booleans as 0/1 and json_object keeps them that way
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  return typeof value === 'boolean' ? Number(value) : value;
+}
+
+// Pretty-prints JSON instructions so a one-line edit shows up as a one-line diff
+function formatInstructions(instructions: string): string {
+  try {
+    return JSON.stringify(JSON.parse(instructions), null, 2);
+  } catch {
+    return instructions;
+  }
+}
+
+type DiffLine = { op: ' ' | '-' | '+'; text: string };
+
+// Above this many LCS cells the diff degrades to replacing the changed middle wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const head = a.slice(0, prefix).map(text => ({ op: ' ' as const, text }));
+  const tail = a.slice(a.length - suffix).map(text => ({ op: ' ' as const, text }));
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+
+  if ((oldMiddle.length + 1) * (newMiddle.length + 1) > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...oldMiddle.map(text => ({ op: '-' as const, text })),
+      ...newMiddle.map(text => ({ op: '+' as const, text })),
+      ...tail
+    ];
+  }
+
+  // lcs[i][j] is the longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldMiddle[i] === newMiddle[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      middle.push({ op: ' ', text: oldMiddle[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ op: '-', text: oldMiddle[i++] });
+    } else {
+      middle.push({ op: '+', text: newMiddle[j++] });
+    }
+  }
+  while (i < n) middle.push({ op: '-', text: oldMiddle[i++] });
+  while (j < m) middle.push({ op: '+', text: newMiddle[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+export function unifiedDiff(before: string, after: string, labels: [string, string], context = 3): string {
+  if (before === after) return '';
+
+  const lines = diffLines(before.split('\n'), after.split('\n'));
+  // Line numbers (0-based) in the old and new text where each diff line starts
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const line of lines) {
+    oldAt.push(oldLine);
+    newAt.push(newLine);
+    if (line.op !== '+') oldLine++;
+    if (line.op !== '-') newLine++;
+  }
+  oldAt.push(oldLine);
+  newAt.push(newLine);
+
+  const output = [`--- ${labels[0]}`, `+++ ${labels[1]}`];
+  let k = 0;
+  while (k < lines.length) {
+    while (k < lines.length && lines[k].op === ' ') k++;
+    if (k === lines.length) break;
+
+    // Changes closer than two context blocks share a hunk
+    let last = k;
+    for (let x = k + 1; x < lines.length; x++) {
+      if (lines[x].op === ' ') continue;
+      if (x - last > 2 * context) break;
+      last = x;
+    }
+
+    const start = Math.max(0, k - context);
+    const end = Math.min(lines.length, last + context + 1);
+    const oldCount = oldAt[end] - oldAt[start];
+    const newCount = newAt[end] - newAt[start];
+    output.push(`@@ -${hunkStart(oldAt[start], oldCount)},${oldCount} +${hunkStart(newAt[start], newCount)},${newCount} @@`);
+    for (let x = start; x < end; x++) {
+      output.push(`${lines[x].op}${lines[x].text}`);
+    }
+    k = end;
+  }
+
+  return output.join('\n');
+}
+
+// Unified diff numbers lines from 1, except that an empty range points at the line before it
+function hunkStart(line: number, count: number): number {
+  return count === 0 ? line : line + 1;
+}
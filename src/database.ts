@@ -1,95 +1,164 @@
-import { SystemInstruction, ActionLog, TestSession, TestResult } from './types';
+import {
+  SystemInstruction,
+  ActionLog,
+  TestSession,
+  TestResult,
+  Artifact,
+  Schedule,
+  SecretMetadata,
+  NotificationChannel,
+  NotificationDelivery,
+  ApiKey,
+  ApiRole,
+  ConfigRevision,
+  VisualBaseline,
+  MockFixture,
+  VisualComparison,
+  ListQuery,
+  Page,
+  SessionListQuery,
+  ConfigListQuery
+} from './types';
+import type { EncryptedSecret, Redactor } from './secrets';
+import { SNAPSHOT_SQL, pickRevisionedFields } from './config-revisions';
+import { UrlMatchCandidate, rankUrlMatches } from './url-matcher';
+import { encodeCursor } from './pagination';
+import { TREND_TOP_N, TrendData } from './trends';
+import { StepRun } from './flakiness';
+import {
+  AdoptedMigration,
+  AppliedMigration,
+  MIGRATIONS,
+  MigrationRun,
+  MigrationStatus,
+  diffSchema,
+  expectedSchema,
+  satisfiedVersion
+} from './migrations';
+
+// Most recent result rows read for duration percentiles and flakiness, so a busy window stays cheap to summarize
+const MAX_TREND_ROWS = 20000;
 
 export class DatabaseService {
   private db: D1Database;
+  private redactor?: Redactor;
 
-  constructor(db: D1Database) {
+  constructor(db: D1Database, redactor?: Redactor) {
     this.db = db;
+    this.redactor = redactor;
+  }
+
+  // Session-scoped copy whose writes (logs, results, session summaries) have secret values scrubbed
+  withRedactor(redactor: Redactor): DatabaseService {
+    return new DatabaseService(this.db, redactor);
+  }
+
+  redact(text: string): string;
+  redact(text: string | undefined): string | undefined;
+  redact(text: string | undefined): string | undefined {
+    return text && this.redactor ? this.redactor.redact(text) : text;
   }
 
   // Database setup & schema introspection
+  // Applies pending migrations; /admin/setup and /auth/bootstrap use it on fresh databases
   async ensureSchema(): Promise<{
     createdTables: string[];
     existingTables: string[];
+    appliedMigrations: string[];
   }> {
     const beforeSetup = await this.listUserTables();
+    const run = await this.migrate();
+    const afterSetup = await this.listUserTables();
+
+    return {
+      createdTables: afterSetup.filter(table => !beforeSetup.includes(table)),
+      existingTables: afterSetup,
+      appliedMigrations: run.applied.map(migration => migration.name)
+    };
+  }
 
-    const schemaSql = `
-      CREATE TABLE IF NOT EXISTS system_instructions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        url_pattern TEXT NOT NULL,
-        name TEXT NOT NULL,
-        instructions TEXT NOT NULL,
-        test_type TEXT NOT NULL CHECK (test_type IN ('traditional', 'agentic')),
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        is_active BOOLEAN DEFAULT TRUE
-      );
-
-      CREATE TABLE IF NOT EXISTS action_logs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id TEXT NOT NULL,
-        test_config_id INTEGER,
-        action_type TEXT NOT NULL,
-        action_data TEXT,
-        result TEXT,
-        error TEXT,
-        execution_time_ms INTEGER,
-        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (test_config_id) REFERENCES system_instructions(id),
-        FOREIGN KEY (session_id) REFERENCES test_sessions(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS test_sessions (
-        id TEXT PRIMARY KEY,
-        url TEXT NOT NULL,
-        test_type TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
-        config_id INTEGER,
-        start_time DATETIME DEFAULT CURRENT_TIMESTAMP,
-        end_time DATETIME,
-        results TEXT,
-        error_summary TEXT,
-        FOREIGN KEY (config_id) REFERENCES system_instructions(id)
-      );
-
-      CREATE TABLE IF NOT EXISTS test_results (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id TEXT NOT NULL,
-        test_name TEXT NOT NULL,
-        status TEXT NOT NULL CHECK (status IN ('passed', 'failed', 'skipped')),
-        error_message TEXT,
-        screenshot_path TEXT,
-        execution_time_ms INTEGER,
-        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (session_id) REFERENCES test_sessions(id) ON DELETE CASCADE
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_system_instructions_url_pattern ON system_instructions(url_pattern);
-      CREATE INDEX IF NOT EXISTS idx_action_logs_session_id ON action_logs(session_id);
-      CREATE INDEX IF NOT EXISTS idx_action_logs_timestamp ON action_logs(timestamp);
-      CREATE INDEX IF NOT EXISTS idx_test_sessions_status ON test_sessions(status);
-      CREATE INDEX IF NOT EXISTS idx_test_results_session_id ON test_results(session_id);
-    `;
-
-    const statements = schemaSql
-      .split(';')
-      .map(s => s.trim())
-      .filter(s => s.length > 0);
-
-    for (const stmt of statements) {
-      await this.db.prepare(stmt).run();
+  // Migrations
+  // Versions already applied come from schema_migrations, then from wrangler's d1_migrations, and
+  // for an untracked database from the newest migration its live schema already contains.
+  async getMigrationStatus(): Promise<MigrationStatus> {
+    const tables = await this.listUserTables();
+    const applied = tables.includes('schema_migrations')
+      ? (await this.db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version').all()).results as unknown as AppliedMigration[]
+      : [];
+    const done = new Set(applied.map(migration => migration.version));
+    const adopted: AdoptedMigration[] = [];
+
+    if (tables.includes('d1_migrations')) {
+      const rows = (await this.db.prepare('SELECT name FROM d1_migrations').all()).results as Array<{ name: string }>;
+      const names = new Set(rows.map(row => row.name.replace(/\.sql$/, '')));
+      for (const { version, name } of MIGRATIONS) {
+        if (!done.has(version) && names.has(name)) adopted.push({ version, name, source: 'd1_migrations' });
+      }
     }
 
-    const afterSetup = await this.listUserTables();
-    const createdTables = afterSetup.filter(table => !beforeSetup.includes(table));
+    const live = (await this.getSchemaOverview()).tables;
+    if (!applied.length && !adopted.length) {
+      const version = satisfiedVersion(live);
+      for (const migration of MIGRATIONS) {
+        if (migration.version <= version) adopted.push({ version: migration.version, name: migration.name, source: 'schema' });
+      }
+    }
 
+    for (const migration of adopted) done.add(migration.version);
     return {
-      createdTables,
-      existingTables: afterSetup
+      current_version: Math.max(0, ...done),
+      latest_version: MIGRATIONS[MIGRATIONS.length - 1].version,
+      applied,
+      adopted,
+      pending: MIGRATIONS.filter(migration => !done.has(migration.version)).map(({ version, name }) => ({ version, name })),
+      drift: diffSchema(expectedSchema(MIGRATIONS.filter(migration => done.has(migration.version))), live)
     };
   }
 
+  // Each pending migration runs in its own batch (one transaction) together with its schema_migrations row
+  async migrate(options: { dryRun?: boolean } = {}): Promise<MigrationRun> {
+    const status = await this.getMigrationStatus();
+    const pendingVersions = new Set(status.pending.map(migration => migration.version));
+    const pending = MIGRATIONS.filter(migration => pendingVersions.has(migration.version));
+
+    if (options.dryRun) {
+      return { dry_run: true, adopted: status.adopted, applied: pending, current_version: status.current_version, drift: status.drift };
+    }
+
+    await this.db.prepare(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+         version INTEGER PRIMARY KEY,
+         name TEXT NOT NULL,
+         applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+       )`
+    ).run();
+
+    const record = (migration: { version: number; name: string }) =>
+      this.db.prepare('INSERT OR IGNORE INTO schema_migrations (version, name) VALUES (?, ?)').bind(migration.version, migration.name);
+
+    if (status.adopted.length) {
+      await this.db.batch(status.adopted.map(record));
+    }
+
+    // Keep `wrangler d1 migrations apply` from re-running what this runner applied
+    const tracksWrangler = (await this.listUserTables()).includes('d1_migrations');
+    for (const migration of pending) {
+      const statements = [...migration.statements.map(sql => this.db.prepare(sql)), record(migration)];
+      if (tracksWrangler) {
+        statements.push(this.db.prepare('INSERT OR IGNORE INTO d1_migrations (name) VALUES (?)').bind(`${migration.name}.sql`));
+      }
+
+      try {
+        await this.db.batch(statements);
+      } catch (error) {
+        throw new Error(`Migration ${migration.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const after = await this.getMigrationStatus();
+    return { dry_run: false, adopted: status.adopted, applied: pending, current_version: after.current_version, drift: after.drift };
+  }
+
   async getSchemaOverview(): Promise<{
     tables: Array<{
       name: string;
@@ -146,7 +215,7 @@ export class DatabaseService {
 
   private async listUserTables(): Promise<string[]> {
     const results = await this.db.prepare(
-      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '\\_cf\\_%' ESCAPE '\\' ORDER BY name"
     ).all();
 
     return (results.results as Array<{ name: string }>).map(row => row.name);
@@ -160,36 +229,55 @@ export class DatabaseService {
   }
 
   // System Instructions Management
-  async createSystemInstruction(instruction: Omit<SystemInstruction, 'id' | 'created_at' | 'updated_at'>): Promise<number> {
-    const result = await this.db.prepare(
-      `INSERT INTO system_instructions (url_pattern, name, instructions, test_type, is_active)
-       VALUES (?, ?, ?, ?, ?)`
-    ).bind(
-      instruction.url_pattern,
-      instruction.name,
-      instruction.instructions,
-      instruction.test_type,
-      instruction.is_active ?? true
-    ).run();
-    
+  // Every write bumps `revision` and snapshots the row into config_revisions in the same batch.
+  async createSystemInstruction(
+    instruction: Omit<SystemInstruction, 'id' | 'created_at' | 'updated_at' | 'revision'>,
+    author: string | null = null
+  ): Promise<number> {
+    const [result] = await this.db.batch([
+      this.db.prepare(
+        `INSERT INTO system_instructions (url_pattern, match_type, priority, name, instructions, test_type, llm_provider, llm_model, is_active)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        instruction.url_pattern,
+        instruction.match_type || 'substring',
+        instruction.priority ?? 0,
+        instruction.name,
+        instruction.instructions,
+        instruction.test_type,
+        instruction.llm_provider || null,
+        instruction.llm_model || null,
+        instruction.is_active ?? true
+      ),
+      this.db.prepare(
+        `INSERT INTO config_revisions (config_id, revision, change, snapshot, author)
+         SELECT id, revision, 'create', ${SNAPSHOT_SQL}, ? FROM system_instructions WHERE id = last_insert_rowid()`
+      ).bind(author)
+    ]);
+
     return result.meta.last_row_id;
   }
 
   async getSystemInstructionByUrl(url: string, testType?: 'traditional' | 'agentic'): Promise<SystemInstruction | null> {
-    const hasType = typeof testType === 'string' && (testType === 'traditional' || testType === 'agentic');
-    const sql = `SELECT *
-                 FROM system_instructions
-                 WHERE is_active = TRUE
-                 ${hasType ? 'AND test_type = ?' : ''}
-                 AND instr(?, url_pattern) > 0
-                 ORDER BY LENGTH(url_pattern) DESC
-                 LIMIT 1`;
+    const [best] = await this.findSystemInstructionCandidates(url, testType);
+    return best?.config ?? null;
+  }
+
+  // Active configurations matching `url`, best first (see rankUrlMatches)
+  async findSystemInstructionCandidates(url: string, testType?: 'traditional' | 'agentic'): Promise<UrlMatchCandidate[]> {
+    const results = testType
+      ? await this.db.prepare('SELECT * FROM system_instructions WHERE is_active = TRUE AND test_type = ?').bind(testType).all()
+      : await this.db.prepare('SELECT * FROM system_instructions WHERE is_active = TRUE').all();
+
+    return rankUrlMatches(results.results as unknown as SystemInstruction[], url);
+  }
 
-    const stmt = this.db.prepare(sql);
-    const bindArgs = hasType ? [testType, url] : [url];
-    const results = await stmt.bind(...bindArgs).all();
+  async getSystemInstructionById(id: number): Promise<SystemInstruction | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM system_instructions WHERE id = ?'
+    ).bind(id).first();
 
-    return (results.results[0] as unknown as SystemInstruction) || null;
+    return (result as unknown as SystemInstruction) || null;
   }
 
   async getAllSystemInstructions(): Promise<SystemInstruction[]> {
@@ -200,18 +288,118 @@ export class DatabaseService {
     return results.results as unknown as SystemInstruction[];
   }
 
-  async updateSystemInstruction(id: number, updates: Partial<SystemInstruction>): Promise<void> {
-    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
-    const values = Object.values(updates);
-    
-    await this.db.prepare(
-      `UPDATE system_instructions SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
-    ).bind(...values, id).run();
+  async listSystemInstructions(query: ConfigListQuery): Promise<Page<SystemInstruction>> {
+    const { filters } = query;
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.is_active !== undefined) {
+      where.push('is_active = ?');
+      params.push(filters.is_active ? 1 : 0);
+    }
+    if (filters.test_type) {
+      where.push('test_type = ?');
+      params.push(filters.test_type);
+    }
+    if (filters.url) {
+      where.push('instr(lower(url_pattern), lower(?)) > 0');
+      params.push(filters.url);
+    }
+    if (filters.from) {
+      where.push('updated_at >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      where.push('updated_at < ?');
+      params.push(filters.to);
+    }
+
+    return await this.listPage<SystemInstruction>('system_instructions', where, params, query);
   }
 
-  async deleteSystemInstruction(id: number): Promise<void> {
-    await this.db.prepare('UPDATE system_instructions SET is_active = FALSE WHERE id = ?')
-      .bind(id).run();
+  // Keyset pagination: rows after the cursor in (sort column, id) order, plus a cursor for the next page
+  private async listPage<T extends object>(
+    table: string,
+    where: string[],
+    params: unknown[],
+    query: ListQuery<string, unknown>
+  ): Promise<Page<T>> {
+    const column = this.validateIdentifier(query.sort);
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    const comparison = query.order === 'asc' ? '>' : '<';
+
+    const conditions = [...where];
+    const bindings = [...params];
+    if (query.cursor) {
+      conditions.push(`(${column} ${comparison} ? OR (${column} = ? AND id ${comparison} ?))`);
+      bindings.push(query.cursor.value, query.cursor.value, query.cursor.id);
+    }
+
+    const results = await this.db.prepare(
+      `SELECT * FROM ${this.validateIdentifier(table)}
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY ${column} ${direction}, id ${direction}
+       LIMIT ?`
+    ).bind(...bindings, query.limit + 1).all();
+
+    const rows = results.results as unknown as T[];
+    const items = rows.slice(0, query.limit);
+    return {
+      items,
+      next_cursor: rows.length > query.limit ? encodeCursor(query, items[items.length - 1] as Record<string, unknown>) : null
+    };
+  }
+
+  // Returns the new revision, or null when the configuration does not exist or nothing changed
+  async updateSystemInstruction(
+    id: number,
+    updates: Partial<SystemInstruction>,
+    author: string | null = null,
+    change: 'update' | 'delete' | 'rollback' = 'update',
+    restoredFrom: number | null = null
+  ): Promise<number | null> {
+    const fields = pickRevisionedFields(updates);
+    const setClause = Object.keys(fields).map(key => `${key} = ?`).join(', ');
+    if (!setClause) return null;
+
+    const [result] = await this.db.batch([
+      this.db.prepare(
+        `UPDATE system_instructions SET ${setClause}, revision = revision + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+      ).bind(...Object.values(fields).map(value => value ?? null), id),
+      this.db.prepare(
+        `INSERT INTO config_revisions (config_id, revision, change, snapshot, author, restored_from)
+         SELECT id, revision, ?, ${SNAPSHOT_SQL}, ?, ? FROM system_instructions WHERE id = ?`
+      ).bind(change, author, restoredFrom, id)
+    ]);
+    if (!result.meta.changes) return null;
+
+    const row = await this.db.prepare('SELECT revision FROM system_instructions WHERE id = ?')
+      .bind(id).first<{ revision: number }>();
+    return row?.revision ?? null;
+  }
+
+  async deleteSystemInstruction(id: number, author: string | null = null): Promise<void> {
+    await this.updateSystemInstruction(id, { is_active: false }, author, 'delete');
+  }
+
+  async getConfigRevisions(configId: number): Promise<ConfigRevision[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM config_revisions WHERE config_id = ? ORDER BY revision DESC'
+    ).bind(configId).all();
+
+    return results.results.map(row => this.toConfigRevision(row));
+  }
+
+  async getConfigRevision(configId: number, revision: number): Promise<ConfigRevision | null> {
+    const row = await this.db.prepare(
+      'SELECT * FROM config_revisions WHERE config_id = ? AND revision = ?'
+    ).bind(configId, revision).first();
+
+    return row ? this.toConfigRevision(row) : null;
+  }
+
+  private toConfigRevision(row: Record<string, unknown>): ConfigRevision {
+    return { ...row, snapshot: JSON.parse(row.snapshot as string) } as ConfigRevision;
   }
 
   // Action Logging
@@ -223,9 +411,9 @@ export class DatabaseService {
       log.session_id,
       log.test_config_id || null,
       log.action_type,
-      log.action_data || null,
-      log.result || null,
-      log.error || null,
+      this.redact(log.action_data) || null,
+      this.redact(log.result) || null,
+      this.redact(log.error) || null,
       log.execution_time_ms || null
     ).run();
   }
@@ -241,14 +429,16 @@ export class DatabaseService {
   // Test Session Management
   async createTestSession(session: Omit<TestSession, 'start_time'>): Promise<void> {
     await this.db.prepare(
-      `INSERT INTO test_sessions (id, url, test_type, status, config_id)
-       VALUES (?, ?, ?, ?, ?)`
+      `INSERT INTO test_sessions (id, url, test_type, status, config_id, config_revision, trigger)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
     ).bind(
       session.id,
       session.url,
       session.test_type,
       session.status,
-      session.config_id || null
+      session.config_id || null,
+      session.config_revision || null,
+      session.trigger || 'api'
     ).run();
   }
 
@@ -261,6 +451,40 @@ export class DatabaseService {
     ).bind(...values, sessionId).run();
   }
 
+  // Records the outcome of a run without ever overriding a cancellation that
+  // arrived while the executor was still working.
+  async finishTestSession(
+    sessionId: string,
+    status: 'completed' | 'failed',
+    updates: Pick<TestSession, 'end_time' | 'results' | 'error_summary'>
+  ): Promise<void> {
+    await this.db.prepare(
+      `UPDATE test_sessions
+       SET status = CASE WHEN status = 'cancelled' THEN status ELSE ? END,
+           end_time = ?,
+           results = ?,
+           error_summary = CASE WHEN status = 'cancelled' THEN COALESCE(error_summary, ?) ELSE ? END
+       WHERE id = ?`
+    ).bind(
+      status,
+      updates.end_time ?? null,
+      this.redact(updates.results) ?? null,
+      this.redact(updates.error_summary) ?? null,
+      this.redact(updates.error_summary) ?? null,
+      sessionId
+    ).run();
+  }
+
+  // Returns false when the session is missing or no longer running.
+  async cancelTestSession(sessionId: string): Promise<boolean> {
+    const result = await this.db.prepare(
+      `UPDATE test_sessions SET status = 'cancelled', error_summary = 'Cancelled by request'
+       WHERE id = ? AND status = 'running'`
+    ).bind(sessionId).run();
+
+    return (result.meta.changes || 0) > 0;
+  }
+
   async getTestSession(sessionId: string): Promise<TestSession | null> {
     const results = await this.db.prepare(
       'SELECT * FROM test_sessions WHERE id = ?'
@@ -269,26 +493,52 @@ export class DatabaseService {
     return (results.results[0] as unknown as TestSession) || null;
   }
 
-  async getAllTestSessions(limit = 50): Promise<TestSession[]> {
-    const results = await this.db.prepare(
-      'SELECT * FROM test_sessions ORDER BY start_time DESC LIMIT ?'
-    ).bind(limit).all();
-    
-    return results.results as unknown as TestSession[];
+  async listTestSessions(query: SessionListQuery): Promise<Page<TestSession>> {
+    const { filters } = query;
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.status?.length) {
+      where.push(`status IN (${filters.status.map(() => '?').join(', ')})`);
+      params.push(...filters.status);
+    }
+    if (filters.test_type) {
+      where.push('test_type = ?');
+      params.push(filters.test_type);
+    }
+    if (filters.config_id !== undefined) {
+      where.push('config_id = ?');
+      params.push(filters.config_id);
+    }
+    if (filters.url) {
+      where.push('instr(lower(url), lower(?)) > 0');
+      params.push(filters.url);
+    }
+    if (filters.from) {
+      where.push('start_time >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      where.push('start_time < ?');
+      params.push(filters.to);
+    }
+
+    return await this.listPage<TestSession>('test_sessions', where, params, query);
   }
 
   // Test Results
   async saveTestResult(result: Omit<TestResult, 'id' | 'timestamp'>): Promise<void> {
     await this.db.prepare(
-      `INSERT INTO test_results (session_id, test_name, status, error_message, screenshot_path, execution_time_ms)
-       VALUES (?, ?, ?, ?, ?, ?)`
+      `INSERT INTO test_results (session_id, test_name, status, error_message, screenshot_path, execution_time_ms, attempts)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
     ).bind(
       result.session_id,
-      result.test_name,
+      this.redact(result.test_name),
       result.status,
-      result.error_message || null,
+      this.redact(result.error_message) || null,
       result.screenshot_path || null,
-      result.execution_time_ms || null
+      result.execution_time_ms || null,
+      result.attempts ?? 1
     ).run();
   }
 
@@ -300,12 +550,480 @@ export class DatabaseService {
     return results.results as unknown as TestResult[];
   }
 
+  // Artifacts
+  async saveArtifact(artifact: Omit<Artifact, 'id' | 'created_at'>): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO artifacts (session_id, name, kind, content_type, size_bytes, step_index, storage_key)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (session_id, name) DO UPDATE SET
+         content_type = excluded.content_type,
+         size_bytes = excluded.size_bytes,
+         step_index = excluded.step_index,
+         storage_key = excluded.storage_key`
+    ).bind(
+      artifact.session_id,
+      artifact.name,
+      artifact.kind,
+      artifact.content_type,
+      artifact.size_bytes,
+      artifact.step_index ?? null,
+      artifact.storage_key
+    ).run();
+  }
+
+  async getArtifact(sessionId: string, name: string): Promise<Artifact | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM artifacts WHERE session_id = ? AND name = ?'
+    ).bind(sessionId, name).first();
+
+    return (result as unknown as Artifact) || null;
+  }
+
+  async getArtifacts(sessionId: string): Promise<Artifact[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM artifacts WHERE session_id = ? ORDER BY created_at ASC, id ASC'
+    ).bind(sessionId).all();
+
+    return results.results as unknown as Artifact[];
+  }
+
+  async getArtifactKeysForOldSessions(daysOld = 30): Promise<string[]> {
+    const results = await this.db.prepare(
+      `SELECT a.storage_key FROM artifacts a
+       JOIN test_sessions s ON s.id = a.session_id
+       WHERE s.start_time < datetime('now', '-' || ? || ' days')`
+    ).bind(daysOld).all();
+
+    return (results.results as Array<{ storage_key: string }>).map(row => row.storage_key);
+  }
+
+  // Schedules
+  async createSchedule(schedule: Pick<Schedule, 'config_id' | 'cron' | 'target_url' | 'enabled'>): Promise<number> {
+    const result = await this.db.prepare(
+      `INSERT INTO schedules (config_id, cron, target_url, enabled)
+       VALUES (?, ?, ?, ?)`
+    ).bind(
+      schedule.config_id,
+      schedule.cron,
+      schedule.target_url,
+      schedule.enabled ?? true
+    ).run();
+
+    return result.meta.last_row_id;
+  }
+
+  async getSchedule(id: number): Promise<Schedule | null> {
+    const result = await this.db.prepare(
+      `SELECT s.*, c.name AS config_name, c.test_type
+       FROM schedules s
+       LEFT JOIN system_instructions c ON c.id = s.config_id
+       WHERE s.id = ?`
+    ).bind(id).first();
+
+    return (result as unknown as Schedule) || null;
+  }
+
+  async getAllSchedules(): Promise<Schedule[]> {
+    const results = await this.db.prepare(
+      `SELECT s.*, c.name AS config_name, c.test_type
+       FROM schedules s
+       LEFT JOIN system_instructions c ON c.id = s.config_id
+       ORDER BY s.created_at DESC`
+    ).all();
+
+    return results.results as unknown as Schedule[];
+  }
+
+  // Enabled schedules whose configuration is still active; cron matching happens in the worker.
+  async getEnabledSchedules(): Promise<Schedule[]> {
+    const results = await this.db.prepare(
+      `SELECT s.*, c.name AS config_name, c.test_type
+       FROM schedules s
+       JOIN system_instructions c ON c.id = s.config_id
+       WHERE s.enabled = TRUE AND c.is_active = TRUE
+       ORDER BY s.id ASC`
+    ).all();
+
+    return results.results as unknown as Schedule[];
+  }
+
+  async updateSchedule(id: number, updates: Partial<Pick<Schedule, 'config_id' | 'cron' | 'target_url' | 'enabled'>>): Promise<void> {
+    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
+    const values = Object.values(updates);
+
+    await this.db.prepare(
+      `UPDATE schedules SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+    ).bind(...values, id).run();
+  }
+
+  async recordScheduleRun(id: number, sessionId: string, ranAt: string): Promise<void> {
+    await this.db.prepare(
+      'UPDATE schedules SET last_run_at = ?, last_session_id = ? WHERE id = ?'
+    ).bind(ranAt, sessionId, id).run();
+  }
+
+  async deleteSchedule(id: number): Promise<boolean> {
+    const result = await this.db.prepare('DELETE FROM schedules WHERE id = ?')
+      .bind(id).run();
+
+    return (result.meta.changes || 0) > 0;
+  }
+
+  // Notifications
+  async createNotificationChannel(channel: Omit<NotificationChannel, 'id' | 'created_at' | 'updated_at'>): Promise<number> {
+    const result = await this.db.prepare(
+      `INSERT INTO notification_channels (name, type, target, config_id, rule, secret_name, enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      channel.name,
+      channel.type,
+      channel.target,
+      channel.config_id ?? null,
+      channel.rule,
+      channel.secret_name ?? null,
+      channel.enabled ?? true
+    ).run();
+
+    return result.meta.last_row_id;
+  }
+
+  async getNotificationChannel(id: number): Promise<NotificationChannel | null> {
+    const result = await this.db.prepare('SELECT * FROM notification_channels WHERE id = ?')
+      .bind(id).first();
+
+    return (result as unknown as NotificationChannel) || null;
+  }
+
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM notification_channels ORDER BY created_at DESC, id DESC'
+    ).all();
+
+    return results.results as unknown as NotificationChannel[];
+  }
+
+  // Enabled global channels plus the ones attached to the session's configuration
+  async getNotificationChannelsForConfig(configId?: number | null): Promise<NotificationChannel[]> {
+    const results = await this.db.prepare(
+      `SELECT * FROM notification_channels
+       WHERE enabled = TRUE AND (config_id IS NULL OR config_id = ?)
+       ORDER BY id ASC`
+    ).bind(configId ?? null).all();
+
+    return results.results as unknown as NotificationChannel[];
+  }
+
+  async updateNotificationChannel(
+    id: number,
+    updates: Partial<Omit<NotificationChannel, 'id' | 'created_at' | 'updated_at'>>
+  ): Promise<void> {
+    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
+    const values = Object.values(updates);
+
+    await this.db.prepare(
+      `UPDATE notification_channels SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+    ).bind(...values, id).run();
+  }
+
+  async deleteNotificationChannel(id: number): Promise<boolean> {
+    const result = await this.db.prepare('DELETE FROM notification_channels WHERE id = ?')
+      .bind(id).run();
+
+    return (result.meta.changes || 0) > 0;
+  }
+
+  // Status of the last finished run of the same configuration (or ad-hoc URL) before this session
+  async getPreviousSessionStatus(session: TestSession): Promise<TestSession['status'] | null> {
+    const result = await this.db.prepare(
+      `SELECT status FROM test_sessions
+       WHERE id != ?
+         AND status IN ('completed', 'failed')
+         AND ${session.config_id ? 'config_id = ?' : 'config_id IS NULL AND url = ?'}
+         AND start_time <= (SELECT start_time FROM test_sessions WHERE id = ?)
+       ORDER BY start_time DESC, rowid DESC
+       LIMIT 1`
+    ).bind(session.id, session.config_id || session.url, session.id).first();
+
+    return (result as { status: TestSession['status'] } | null)?.status ?? null;
+  }
+
+  // Returns null when the channel was already notified about the session (e.g. a redelivered queue message)
+  async createNotificationDelivery(delivery: Pick<NotificationDelivery, 'channel_id' | 'session_id' | 'event'>): Promise<number | null> {
+    const result = await this.db.prepare(
+      `INSERT OR IGNORE INTO notification_deliveries (channel_id, session_id, event, status)
+       VALUES (?, ?, ?, 'pending')`
+    ).bind(delivery.channel_id, delivery.session_id, delivery.event).run();
+
+    return (result.meta.changes || 0) > 0 ? result.meta.last_row_id : null;
+  }
+
+  async updateNotificationDelivery(
+    id: number,
+    updates: Partial<Pick<NotificationDelivery, 'status' | 'attempts' | 'response_status' | 'last_error' | 'next_attempt_at' | 'delivered_at' | 'delivered_to'>>
+  ): Promise<void> {
+    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
+    const values = Object.values(updates).map(value => value ?? null);
+
+    await this.db.prepare(
+      `UPDATE notification_deliveries SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+    ).bind(...values, id).run();
+  }
+
+  async getDueNotificationDeliveries(now: string, limit = 50): Promise<NotificationDelivery[]> {
+    const results = await this.db.prepare(
+      `SELECT * FROM notification_deliveries
+       WHERE status = 'pending' AND next_attempt_at IS NOT NULL AND next_attempt_at <= ?
+       ORDER BY next_attempt_at ASC
+       LIMIT ?`
+    ).bind(now, limit).all();
+
+    return results.results as unknown as NotificationDelivery[];
+  }
+
+  async getNotificationDeliveries(filter: { sessionId?: string; channelId?: number }, limit = 100): Promise<NotificationDelivery[]> {
+    const conditions: string[] = [];
+    const values: Array<string | number> = [];
+    if (filter.sessionId) {
+      conditions.push('session_id = ?');
+      values.push(filter.sessionId);
+    }
+    if (filter.channelId) {
+      conditions.push('channel_id = ?');
+      values.push(filter.channelId);
+    }
+
+    const results = await this.db.prepare(
+      `SELECT * FROM notification_deliveries
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`
+    ).bind(...values, limit).all();
+
+    return results.results as unknown as NotificationDelivery[];
+  }
+
+  // API keys (only hashes are stored; the key itself is shown once when created)
+  async createApiKey(key: Pick<ApiKey, 'name' | 'key_prefix' | 'role'>, keyHash: string): Promise<number> {
+    const result = await this.db.prepare(
+      'INSERT INTO api_keys (name, key_prefix, key_hash, role) VALUES (?, ?, ?, ?)'
+    ).bind(key.name, key.key_prefix, keyHash, key.role).run();
+
+    return result.meta.last_row_id;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    const result = await this.db.prepare(
+      'SELECT id, name, key_prefix, role, last_used_at, created_at FROM api_keys WHERE key_hash = ?'
+    ).bind(keyHash).first();
+
+    return (result as unknown as ApiKey) || null;
+  }
+
+  async listApiKeys(): Promise<ApiKey[]> {
+    const results = await this.db.prepare(
+      'SELECT id, name, key_prefix, role, last_used_at, created_at FROM api_keys ORDER BY created_at DESC, id DESC'
+    ).all();
+
+    return results.results as unknown as ApiKey[];
+  }
+
+  async countApiKeys(role?: ApiRole): Promise<number> {
+    const result = role
+      ? await this.db.prepare('SELECT COUNT(*) AS count FROM api_keys WHERE role = ?').bind(role).first()
+      : await this.db.prepare('SELECT COUNT(*) AS count FROM api_keys').first();
+
+    return (result as { count: number } | null)?.count ?? 0;
+  }
+
+  // Writes at most every five minutes per key to keep authenticated reads cheap
+  async touchApiKey(id: number): Promise<void> {
+    await this.db.prepare(
+      `UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-5 minutes'))`
+    ).bind(id).run();
+  }
+
+  async deleteApiKey(id: number): Promise<boolean> {
+    const result = await this.db.prepare('DELETE FROM api_keys WHERE id = ?')
+      .bind(id).run();
+
+    return (result.meta.changes || 0) > 0;
+  }
+
+  // Secrets (values are only ever stored encrypted and never returned by listing)
+  async upsertSecret(name: string, secret: EncryptedSecret): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO secrets (name, ciphertext, iv)
+       VALUES (?, ?, ?)
+       ON CONFLICT (name) DO UPDATE SET
+         ciphertext = excluded.ciphertext,
+         iv = excluded.iv,
+         updated_at = CURRENT_TIMESTAMP`
+    ).bind(name, secret.ciphertext, secret.iv).run();
+  }
+
+  async getSecrets(names: string[]): Promise<Array<EncryptedSecret & { name: string }>> {
+    if (names.length === 0) {
+      return [];
+    }
+    const placeholders = names.map(() => '?').join(', ');
+    const results = await this.db.prepare(
+      `SELECT name, ciphertext, iv FROM secrets WHERE name IN (${placeholders})`
+    ).bind(...names).all();
+
+    return results.results as unknown as Array<EncryptedSecret & { name: string }>;
+  }
+
+  async listSecrets(): Promise<SecretMetadata[]> {
+    const results = await this.db.prepare(
+      'SELECT name, created_at, updated_at FROM secrets ORDER BY name ASC'
+    ).all();
+
+    return results.results as unknown as SecretMetadata[];
+  }
+
+  async deleteSecret(name: string): Promise<boolean> {
+    const result = await this.db.prepare('DELETE FROM secrets WHERE name = ?')
+      .bind(name).run();
+
+    return (result.meta.changes || 0) > 0;
+  }
+
+  // Visual baselines and comparisons
+  async getVisualBaseline(scope: string, name: string): Promise<VisualBaseline | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM visual_baselines WHERE scope = ? AND name = ?'
+    ).bind(scope, name).first();
+
+    return (result as unknown as VisualBaseline) || null;
+  }
+
+  async getVisualBaselineById(id: number): Promise<VisualBaseline | null> {
+    const result = await this.db.prepare('SELECT * FROM visual_baselines WHERE id = ?')
+      .bind(id).first();
+
+    return (result as unknown as VisualBaseline) || null;
+  }
+
+  async getVisualBaselines(scope?: string): Promise<VisualBaseline[]> {
+    const results = scope
+      ? await this.db.prepare('SELECT * FROM visual_baselines WHERE scope = ? ORDER BY name ASC').bind(scope).all()
+      : await this.db.prepare('SELECT * FROM visual_baselines ORDER BY scope ASC, name ASC').all();
+
+    return results.results as unknown as VisualBaseline[];
+  }
+
+  async upsertVisualBaseline(baseline: Omit<VisualBaseline, 'id' | 'created_at' | 'updated_at'>): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO visual_baselines (scope, name, storage_key, width, height, source_session_id)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (scope, name) DO UPDATE SET
+         storage_key = excluded.storage_key,
+         width = excluded.width,
+         height = excluded.height,
+         source_session_id = excluded.source_session_id,
+         updated_at = CURRENT_TIMESTAMP`
+    ).bind(
+      baseline.scope,
+      baseline.name,
+      baseline.storage_key,
+      baseline.width,
+      baseline.height,
+      baseline.source_session_id ?? null
+    ).run();
+  }
+
+  async deleteVisualBaseline(id: number): Promise<boolean> {
+    const result = await this.db.prepare('DELETE FROM visual_baselines WHERE id = ?')
+      .bind(id).run();
+
+    return (result.meta.changes || 0) > 0;
+  }
+
+  // Mock fixtures
+  async getMockFixture(name: string): Promise<MockFixture | null> {
+    const result = await this.db.prepare('SELECT * FROM mock_fixtures WHERE name = ?')
+      .bind(name).first();
+
+    return (result as unknown as MockFixture) || null;
+  }
+
+  async getMockFixtures(): Promise<MockFixture[]> {
+    const results = await this.db.prepare('SELECT * FROM mock_fixtures ORDER BY name ASC').all();
+    return results.results as unknown as MockFixture[];
+  }
+
+  async upsertMockFixture(fixture: Omit<MockFixture, 'created_at' | 'updated_at'>): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO mock_fixtures (name, content_type, size_bytes, storage_key)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (name) DO UPDATE SET
+         content_type = excluded.content_type,
+         size_bytes = excluded.size_bytes,
+         storage_key = excluded.storage_key,
+         updated_at = CURRENT_TIMESTAMP`
+    ).bind(fixture.name, fixture.content_type, fixture.size_bytes, fixture.storage_key).run();
+  }
+
+  async deleteMockFixture(name: string): Promise<boolean> {
+    const result = await this.db.prepare('DELETE FROM mock_fixtures WHERE name = ?')
+      .bind(name).run();
+
+    return (result.meta.changes || 0) > 0;
+  }
+
+  async saveVisualComparison(comparison: Omit<VisualComparison, 'id' | 'approved_at' | 'created_at'>): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO visual_comparisons
+         (session_id, scope, name, status, width, height, diff_pixels, diff_ratio, max_diff_ratio,
+          actual_artifact, baseline_artifact, diff_artifact)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (session_id, name) DO UPDATE SET
+         status = excluded.status,
+         width = excluded.width,
+         height = excluded.height,
+         diff_pixels = excluded.diff_pixels,
+         diff_ratio = excluded.diff_ratio,
+         max_diff_ratio = excluded.max_diff_ratio,
+         actual_artifact = excluded.actual_artifact,
+         baseline_artifact = excluded.baseline_artifact,
+         diff_artifact = excluded.diff_artifact`
+    ).bind(
+      comparison.session_id,
+      comparison.scope,
+      comparison.name,
+      comparison.status,
+      comparison.width,
+      comparison.height,
+      comparison.diff_pixels ?? null,
+      comparison.diff_ratio ?? null,
+      comparison.max_diff_ratio,
+      comparison.actual_artifact,
+      comparison.baseline_artifact ?? null,
+      comparison.diff_artifact ?? null
+    ).run();
+  }
+
+  async getVisualComparisons(sessionId: string): Promise<VisualComparison[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM visual_comparisons WHERE session_id = ? ORDER BY id ASC'
+    ).bind(sessionId).all();
+
+    return results.results as unknown as VisualComparison[];
+  }
+
+  async markVisualComparisonApproved(id: number): Promise<void> {
+    await this.db.prepare(
+      'UPDATE visual_comparisons SET approved_at = CURRENT_TIMESTAMP WHERE id = ?'
+    ).bind(id).run();
+  }
+
   // Analytics and Cleanup
   async getSessionStats(sessionId: string): Promise<{
     total_actions: number;
     total_errors: number;
     avg_execution_time: number;
-    test_results_summary: { passed: number; failed: number; skipped: number };
+    test_results_summary: { passed: number; failed: number; skipped: number; flaky: number };
   }> {
     const [actionStats, testStats] = await Promise.all([
       this.db.prepare(
@@ -322,7 +1040,7 @@ export class DatabaseService {
       ).bind(sessionId).all()
     ]);
 
-    const testSummary = { passed: 0, failed: 0, skipped: 0 };
+    const testSummary = { passed: 0, failed: 0, skipped: 0, flaky: 0 };
     (testStats.results as any[]).forEach(row => {
       testSummary[row.status as keyof typeof testSummary] = row.count;
     });
@@ -335,6 +1053,83 @@ export class DatabaseService {
     };
   }
 
+  // Raw material for /analytics/trends: finished sessions since `since` and their grouped results
+  async getTrendData(since: string, configId: number | null): Promise<TrendData> {
+    const sessionFilter = `s.start_time >= ?${configId !== null ? ' AND s.config_id = ?' : ''}`;
+    const bindings: unknown[] = configId !== null ? [since, configId] : [since];
+
+    const [sessions, durations, failingSteps, errors] = await Promise.all([
+      this.db.prepare(
+        `SELECT s.id, s.config_id, c.name AS config_name, s.url, s.status, s.start_time, s.end_time
+         FROM test_sessions s
+         LEFT JOIN system_instructions c ON c.id = s.config_id
+         WHERE ${sessionFilter} AND s.status IN ('completed', 'failed')
+         ORDER BY s.start_time, s.id`
+      ).bind(...bindings).all(),
+
+      this.db.prepare(
+        `SELECT r.test_name, r.execution_time_ms
+         FROM test_results r
+         JOIN test_sessions s ON s.id = r.session_id
+         WHERE ${sessionFilter} AND r.status IN ('passed', 'flaky', 'failed') AND r.execution_time_ms IS NOT NULL
+         ORDER BY r.id DESC
+         LIMIT ?`
+      ).bind(...bindings, MAX_TREND_ROWS).all(),
+
+      this.db.prepare(
+        `SELECT r.test_name,
+                COUNT(*) AS runs,
+                SUM(CASE WHEN r.status = 'failed' THEN 1 ELSE 0 END) AS failures,
+                MAX(CASE WHEN r.status = 'failed' THEN r.timestamp END) AS last_failed_at
+         FROM test_results r
+         JOIN test_sessions s ON s.id = r.session_id
+         WHERE ${sessionFilter} AND r.status IN ('passed', 'flaky', 'failed')
+         GROUP BY r.test_name
+         HAVING failures > 0
+         ORDER BY failures DESC, last_failed_at DESC
+         LIMIT ?`
+      ).bind(...bindings, TREND_TOP_N).all(),
+
+      // More groups than the report lists, since messages that display the same are merged afterwards
+      this.db.prepare(
+        `SELECT r.error_message,
+                COUNT(*) AS occurrences,
+                COUNT(DISTINCT r.session_id) AS sessions,
+                MAX(r.timestamp) AS last_seen,
+                MIN(r.test_name) AS test_name
+         FROM test_results r
+         JOIN test_sessions s ON s.id = r.session_id
+         WHERE ${sessionFilter} AND r.status = 'failed' AND r.error_message IS NOT NULL
+         GROUP BY r.error_message
+         ORDER BY occurrences DESC
+         LIMIT ?`
+      ).bind(...bindings, TREND_TOP_N * 10).all()
+    ]);
+
+    return {
+      sessions: sessions.results as unknown as TrendData['sessions'],
+      durations: durations.results as unknown as TrendData['durations'],
+      failing_steps: failingSteps.results as unknown as TrendData['failing_steps'],
+      errors: errors.results as unknown as TrendData['errors']
+    };
+  }
+
+  // Executed results of sessions started since `since`, oldest first, for /analytics/flaky
+  async getStepRuns(since: string, configId: number | null): Promise<StepRun[]> {
+    const results = await this.db.prepare(
+      `SELECT s.config_id, r.test_name, r.session_id, r.status, r.attempts, r.timestamp
+       FROM test_results r
+       JOIN test_sessions s ON s.id = r.session_id
+       WHERE s.start_time >= ?${configId !== null ? ' AND s.config_id = ?' : ''}
+         AND r.status IN ('passed', 'flaky', 'failed')
+       ORDER BY r.id DESC
+       LIMIT ?`
+    ).bind(...(configId !== null ? [since, configId] : [since]), MAX_TREND_ROWS).all();
+
+    // Newest rows are kept when the window holds more than the limit
+    return (results.results as unknown as StepRun[]).reverse();
+  }
+
   async cleanupOldSessions(daysOld = 30): Promise<number> {
     const result = await this.db.prepare(
       `DELETE FROM test_sessions 
@@ -0,0 +1,13 @@
+// Env members `wrangler types` cannot see: secrets set with `wrangler secret put`,
+// and the optional email binding and vars that wrangler.toml leaves commented out.
+// Everything declared in wrangler.toml comes from worker-configuration.d.ts (`npm run generate-types`).
+declare namespace Cloudflare {
+  interface Env {
+    OPENAI_API_KEY?: string;
+    SECRETS_KEY?: string;
+    BOOTSTRAP_TOKEN?: string;
+    NOTIFY_EMAIL?: SendEmail;
+    NOTIFY_EMAIL_FROM?: string;
+    PUBLIC_BASE_URL?: string;
+  }
+}
@@ -0,0 +1,82 @@
+// Steps need this many runs in the window before they are scored
+export const DEFAULT_MIN_RUNS = 5;
+// Score at which a step is suggested for quarantine
+export const QUARANTINE_SCORE = 0.2;
+
+// One executed result of a step, from the sessions in the window
+export interface StepRun {
+  config_id: number | null;
+  test_name: string;
+  session_id: string;
+  status: 'passed' | 'flaky' | 'failed';
+  attempts: number;
+  timestamp: string;
+}
+
+export interface StepFlakiness {
+  config_id: number | null;
+  test_name: string;
+  runs: number;
+  passed: number;
+  flaky: number;
+  failed: number;
+  // Outcome changes (pass ↔ fail) between consecutive runs; flaky runs count as passes
+  flips: number;
+  // Retries used across all runs
+  retries: number;
+  // Share of runs that were flaky or flipped the outcome of the run before
+  score: number;
+  quarantine: boolean;
+  last_flaky_at: string | null;
+}
+
+/**
+ * Scores each step (per configuration) by how often it behaves
+ * inconsistently. A step that always fails scores 0: it is broken, not
+ * flaky. `runs` must be in execution order. Only steps with at least
+ * `minRuns` runs and a score above 0 are returned, least stable first.
+ */
+export function scoreFlakiness(runs: StepRun[], minRuns = DEFAULT_MIN_RUNS): StepFlakiness[] {
+  const byStep = new Map<string, StepRun[]>();
+  for (const run of runs) {
+    const key = `${run.config_id ?? ''}\u0000${run.test_name}`;
+    const stepRuns = byStep.get(key);
+    if (stepRuns) stepRuns.push(run);
+    else byStep.set(key, [run]);
+  }
+
+  const scored: StepFlakiness[] = [];
+  for (const stepRuns of byStep.values()) {
+    if (stepRuns.length < minRuns) continue;
+
+    let flips = 0;
+    let unstable = 0;
+    let lastFlakyAt: string | null = null;
+    stepRuns.forEach((run, index) => {
+      const flipped = index > 0 && (run.status === 'failed') !== (stepRuns[index - 1].status === 'failed');
+      if (flipped) flips++;
+      if (run.status === 'flaky') lastFlakyAt = run.timestamp;
+      if (flipped || run.status === 'flaky') unstable++;
+    });
+
+    const score = unstable / stepRuns.length;
+    if (score === 0) continue;
+
+    const count = (status: StepRun['status']) => stepRuns.filter(run => run.status === status).length;
+    scored.push({
+      config_id: stepRuns[0].config_id,
+      test_name: stepRuns[0].test_name,
+      runs: stepRuns.length,
+      passed: count('passed'),
+      flaky: count('flaky'),
+      failed: count('failed'),
+      flips,
+      retries: stepRuns.reduce((sum, run) => sum + Math.max(0, run.attempts - 1), 0),
+      score,
+      quarantine: score >= QUARANTINE_SCORE,
+      last_flaky_at: lastFlakyAt
+    });
+  }
+
+  return scored.sort((a, b) => b.score - a.score || b.runs - a.runs || a.test_name.localeCompare(b.test_name));
+}
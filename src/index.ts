@@ -2,33 +2,50 @@ import { env } from 'cloudflare:workers';
 import { createMcpAgent } from '@cloudflare/playwright-mcp';
 import { DatabaseService } from './database';
 import { Logger } from './logger';
-import { TraditionalTestExecutor } from './traditional-test-executor';
-import { AgenticTestExecutor } from './agentic-test-executor';
-import { PlaywrightClient } from './playwright-client';
-import { SystemInstruction, TraditionalTestCase, AgenticTestConfig } from './types';
+import { createAgentProvider, AgentProviderSettings } from './agent-provider';
+import { createArtifactStore } from './artifact-store';
+import { runTestJob, enqueueTestJob, generateSessionId, TestJob } from './test-runner';
+import { runDueSchedules } from './scheduler';
+import { parseCron } from './cron';
+import { resolveTraditionalTest } from './templating';
+import { SecretCipher, isValidSecretName } from './secrets';
+import { approveVisualComparison } from './visual-baselines';
+import { MockFixtures, MAX_FIXTURE_BYTES, isValidFixtureName } from './route-mocks';
+import { exportPlaywrightSpec } from './playwright-export';
+import { detectImportFormat, importTest, ImportFormat } from './test-import';
+import { NotificationService, NOTIFICATION_CHANNEL_TYPES, NOTIFICATION_RULES } from './notifications';
+import {
+  apiKeyCookie,
+  apiKeyPrefix,
+  authenticateRequest,
+  generateApiKey,
+  hashApiKey,
+  hasRole,
+  isApiRole,
+  matchesBootstrapToken,
+  routeRole
+} from './auth';
+import { diffRevisions } from './config-revisions';
+import { InstructionError, instructionSchema, validateInstructions } from './instruction-schema';
+import { URL_MATCH_TYPES, validateUrlPattern } from './url-matcher';
+import { parseConfigListQuery, parseSessionListQuery } from './pagination';
+import { buildTrendReport, parseTrendWindow, trendWindowStart } from './trends';
+import { scoreFlakiness, DEFAULT_MIN_RUNS, QUARANTINE_SCORE } from './flakiness';
+import { renderReport, ReportFormat, REPORT_FORMATS, MAX_REPORT_SESSIONS, SessionReportInput } from './reports';
+import {
+  SystemInstruction,
+  TraditionalTestCase,
+  TraditionalTestSuite,
+  AgenticTestConfig,
+  Schedule,
+  TemplateVariables,
+  NotificationChannel,
+  ApiKey,
+  ApiRole
+} from './types';
 
 export const PlaywrightMCP = createMcpAgent(env.BROWSER);
 
-// Generate unique session ID
-function generateSessionId(): string {
-  return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-}
-
-// URL pattern matching helper
-function findBestMatchingConfig(url: string, configs: SystemInstruction[]): SystemInstruction | null {
-  const matches = configs.filter(config => {
-    const pattern = config.url_pattern;
-    if (pattern.includes('*')) {
-      const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-      return regex.test(url);
-    }
-    return url.includes(pattern);
-  });
-
-  // Return the most specific match (longest pattern)
-  return matches.sort((a, b) => b.url_pattern.length - a.url_pattern.length)[0] || null;
-}
-
 // Error response helper
 function errorResponse(message: string, status = 400): Response {
   return new Response(JSON.stringify({ error: message }), {
@@ -37,6 +54,14 @@ function errorResponse(message: string, status = 400): Response {
   });
 }
 
+// 400 listing every schema violation, so editors can point at the offending field
+function instructionErrorResponse(testType: string, errors: InstructionError[], status = 400): Response {
+  return new Response(JSON.stringify({ error: `Instructions do not match the ${testType} test schema`, errors }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
 // Success response helper  
 function successResponse(data: any, status = 200): Response {
   return new Response(JSON.stringify(data), {
@@ -51,6 +76,20 @@ export default {
     const db = new DatabaseService(env.DB);
 
     try {
+      // Everything except the public routes needs an API key with a sufficient role (see src/auth.ts)
+      const requiredRole = routeRole(request.method, pathname);
+      let apiKey: ApiKey | null = null;
+      if (requiredRole !== 'public') {
+        apiKey = await authenticateRequest(request, db);
+        if (!apiKey) {
+          return errorResponse('Authentication required: send an API key as "Authorization: Bearer <key>"', 401);
+        }
+        if (!hasRole(apiKey.role, requiredRole)) {
+          return errorResponse(`This endpoint requires the ${requiredRole} role`, 403);
+        }
+        ctx.waitUntil(db.touchApiKey(apiKey.id!));
+      }
+
       switch (pathname) {
         case '/':
           if (request.method === 'GET' || request.method === 'HEAD') {
@@ -69,7 +108,7 @@ export default {
           if (request.method === 'GET' || request.method === 'HEAD') {
             return await serveAsset(env, request, '/config.html');
           }
-          return await handleConfigEndpoint(request, db);
+          return await handleConfigEndpoint(request, db, apiKey?.name ?? null);
 
         case '/config.html':
           if (request.method === 'GET' || request.method === 'HEAD') {
@@ -89,6 +128,12 @@ export default {
           }
           return errorResponse('Method not allowed', 405);
 
+        case '/analytics.html':
+          if (request.method === 'GET' || request.method === 'HEAD') {
+            return await serveAsset(env, request, '/analytics.html');
+          }
+          return errorResponse('Method not allowed', 405);
+
         case '/openapi.json':
           if (request.method === 'GET' || request.method === 'HEAD') {
             return await serveAsset(env, request, '/openapi.json');
@@ -102,20 +147,82 @@ export default {
         case '/mcp':
           return PlaywrightMCP.serve('/mcp').fetch(request, env, ctx);
 
+        // API keys and UI login
+        case '/auth/login':
+          return await handleLoginEndpoint(request, db);
+
+        case '/auth/logout':
+          if (request.method !== 'POST') {
+            return errorResponse('Method not allowed', 405);
+          }
+          return new Response(JSON.stringify({ message: 'Signed out' }), {
+            headers: {
+              'Content-Type': 'application/json',
+              'Set-Cookie': apiKeyCookie(null, new URL(request.url).protocol === 'https:')
+            }
+          });
+
+        case '/auth/me':
+          return successResponse({ key: apiKey });
+
+        case '/auth/keys':
+          return await handleApiKeysEndpoint(request, db);
+
+        case '/auth/bootstrap':
+          return await handleBootstrapEndpoint(request, env, db);
+
         // Configuration Management Endpoints (JSON only)
         case '/config.json':
-          return await handleConfigEndpoint(request, db);
+          return await handleConfigEndpoint(request, db, apiKey?.name ?? null);
           
         case '/config/list':
-          const configs = await db.getAllSystemInstructions();
-          return successResponse({ configs });
+          return await handleConfigListEndpoint(request, db);
+
+        case '/config/export/playwright':
+          return await handlePlaywrightExportEndpoint(request, db);
+
+        case '/config/import':
+          return await handleConfigImportEndpoint(request, db, apiKey?.name ?? null);
+
+        case '/config/validate':
+          return await handleConfigValidateEndpoint(request);
+
+        case '/config/schema':
+          return handleConfigSchemaEndpoint(request);
+
+        case '/config/revisions':
+          return await handleConfigRevisionsEndpoint(request, db);
+
+        case '/config/diff':
+          return await handleConfigDiffEndpoint(request, db);
+
+        case '/config/rollback':
+          return await handleConfigRollbackEndpoint(request, db, apiKey?.name ?? null);
 
         case '/config/find':
-          const url = searchParams.get('url');
-          if (!url) return errorResponse('URL parameter is required');
+          return await handleConfigFindEndpoint(request, db);
+
+        // Scheduled Runs
+        case '/schedule':
+          return await handleScheduleEndpoint(request, db);
+
+        // Write-only secret management
+        case '/secrets':
+          return await handleSecretsEndpoint(request, env, db);
+
+        // Completion notifications
+        case '/notifications/channels':
+          return await handleNotificationChannelsEndpoint(request, db);
 
-      const config = await db.getSystemInstructionByUrl(url, 'traditional');
-          return successResponse({ config });
+        case '/notifications/deliveries':
+          if (request.method !== 'GET') {
+            return errorResponse('Method not allowed', 405);
+          }
+          const deliveries = await db.getNotificationDeliveries({
+            sessionId: searchParams.get('sessionId') || undefined,
+            channelId: parseInt(searchParams.get('channelId') || '') || undefined
+          });
+          return successResponse({ deliveries });
 
         case '/admin/setup':
           if (request.method !== 'POST') {
@@ -125,11 +232,16 @@ export default {
           const setupResult = await db.ensureSchema();
           const schemaAfterSetup = await db.getSchemaOverview();
           return successResponse({
-            message: 'Database schema ensured',
+            message: setupResult.appliedMigrations.length
+              ? `Applied ${setupResult.appliedMigrations.length} migration(s)`
+              : 'Database schema is up to date',
             ...setupResult,
             schema: schemaAfterSetup.tables
           });
 
+        case '/admin/migrate':
+          return await handleMigrateEndpoint(request, db);
+
         case '/admin/schema':
           if (request.method !== 'GET') {
             return errorResponse('Method not allowed', 405);
@@ -140,34 +252,45 @@ export default {
 
         // Traditional Testing Endpoints
         case '/test/traditional':
-          return await handleTraditionalTest(request, env, db);
+          return await handleTraditionalTest(request, env, ctx, db);
 
         // Agentic Testing Endpoints  
         case '/test/agentic':
-          return await handleAgenticTest(request, env, db);
+          return await handleAgenticTest(request, env, ctx, db);
 
         // Session Management Endpoints
         case '/session':
           return await handleSessionEndpoint(request, db);
           
         case '/session/list':
-          const sessions = await db.getAllTestSessions();
-          return successResponse({ sessions });
+          return await handleSessionListEndpoint(request, db);
+
+        case '/session/artifact':
+          return await handleArtifactEndpoint(request, env, db);
+
+        // Visual regression baselines
+        case '/visual/comparisons':
+          if (request.method !== 'GET') {
+            return errorResponse('Method not allowed', 405);
+          }
+          const visualSessionId = searchParams.get('sessionId');
+          if (!visualSessionId) return errorResponse('sessionId parameter is required');
+
+          const comparisons = await db.getVisualComparisons(visualSessionId);
+          return successResponse({ sessionId: visualSessionId, comparisons });
+
+        case '/visual/approve':
+          return await handleVisualApproveEndpoint(request, env, db);
+
+        case '/visual/baselines':
+          return await handleVisualBaselinesEndpoint(request, env, db);
 
         case '/session/results':
-          const sessionId = searchParams.get('sessionId');
-          if (!sessionId) return errorResponse('sessionId parameter is required');
-          
-          const results = await db.getTestResults(sessionId);
-          const logs = await db.getActionLogs(sessionId);
-          const stats = await db.getSessionStats(sessionId);
-          
-          return successResponse({ 
-            sessionId, 
-            results, 
-            logs, 
-            stats 
-          });
+          return await handleSessionResultsEndpoint(request, db);
+
+        // Response bodies for route mocks
+        case '/mocks/fixtures':
+          return await handleMockFixturesEndpoint(request, env, db);
 
         // Analytics and Cleanup Endpoints
         case '/analytics/stats':
@@ -177,8 +300,16 @@ export default {
           const sessionStats = await db.getSessionStats(analyticsSessionId);
           return successResponse({ stats: sessionStats });
 
+        case '/analytics/trends':
+          return await handleAnalyticsTrendsEndpoint(request, db);
+
+        case '/analytics/flaky':
+          return await handleAnalyticsFlakyEndpoint(request, db);
+
         case '/cleanup/old-sessions':
           const daysOld = parseInt(searchParams.get('days') || '30');
+          const staleArtifactKeys = await db.getArtifactKeysForOldSessions(daysOld);
+          await createArtifactStore(env).delete(staleArtifactKeys);
           const deletedCount = await db.cleanupOldSessions(daysOld);
           return successResponse({ message: `Cleaned up ${deletedCount} old sessions` });
 
@@ -208,10 +339,157 @@ export default {
       );
     }
   },
+
+  // Background execution for sessions accepted with 202 by /test/traditional and /test/agentic
+  async queue(batch: MessageBatch<TestJob>, env: Env, ctx: ExecutionContext) {
+    const db = new DatabaseService(env.DB);
+
+    for (const message of batch.messages) {
+      await runTestJob(message.body, env, db);
+      message.ack();
+    }
+  },
+
+  // Cron trigger (every minute, see wrangler.toml) that starts due entries from the schedules table
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    const db = new DatabaseService(env.DB);
+    const now = new Date(controller.scheduledTime);
+
+    // The two jobs are independent: a failure in one must not skip the other on every tick
+    try {
+      // Each started run is recorded on its schedule and logged in its own session
+      await runDueSchedules(env, ctx, db, now);
+    } catch (error) {
+      console.error('Starting scheduled sessions failed', error);
+    }
+
+    try {
+      // Retry outcomes are recorded on each row of notification_deliveries
+      await new NotificationService(env, db).retryDueDeliveries(now);
+    } catch (error) {
+      console.error('Retrying notification deliveries failed', error);
+    }
+  },
 };
 
-// Configuration endpoint handler
-async function handleConfigEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+// Checks an API key and stores it in an HttpOnly cookie for the UI pages
+async function handleLoginEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  let body: { key?: string };
+  try {
+    body = await request.json();
+  } catch (error) {
+    return errorResponse('Invalid JSON payload');
+  }
+
+  const key = body.key?.trim();
+  if (!key) {
+    return errorResponse('key is required');
+  }
+
+  const apiKey = await authenticateRequest(new Request(request.url, { headers: { Authorization: `Bearer ${key}` } }), db);
+  if (!apiKey) {
+    return errorResponse('Invalid API key', 401);
+  }
+
+  return new Response(JSON.stringify({ key: apiKey }), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Set-Cookie': apiKeyCookie(key, new URL(request.url).protocol === 'https:')
+    }
+  });
+}
+
+// API key management. New keys are returned once and only their hash is stored.
+async function handleApiKeysEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  switch (request.method) {
+    case 'GET': {
+      const keys = await db.listApiKeys();
+      return successResponse({ keys });
+    }
+
+    case 'POST': {
+      let body: { name?: string; role?: ApiRole };
+      try {
+        body = await request.json();
+      } catch (error) {
+        return errorResponse('Invalid JSON payload');
+      }
+
+      if (!body.name || !body.role) {
+        return errorResponse('Missing required fields: name, role');
+      }
+      if (!isApiRole(body.role)) {
+        return errorResponse('role must be one of viewer, runner, admin');
+      }
+
+      return successResponse(await issueApiKey(db, body.name, body.role));
+    }
+
+    case 'DELETE': {
+      const id = parseInt(new URL(request.url).searchParams.get('id') || '');
+      if (!id) {
+        return errorResponse('ID parameter is required');
+      }
+
+      const keys = await db.listApiKeys();
+      const target = keys.find(key => key.id === id);
+      if (!target) {
+        return errorResponse('API key not found', 404);
+      }
+      if (target.role === 'admin' && keys.filter(key => key.role === 'admin').length === 1) {
+        return errorResponse('Cannot delete the last admin key', 409);
+      }
+
+      await db.deleteApiKey(id);
+      return successResponse({ message: 'API key deleted' });
+    }
+
+    default:
+      return errorResponse('Method not allowed', 405);
+  }
+}
+
+// Creates the first admin key, authorised by the BOOTSTRAP_TOKEN Worker secret
+async function handleBootstrapEndpoint(request: Request, env: Env, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+  if (!env.BOOTSTRAP_TOKEN) {
+    return errorResponse('BOOTSTRAP_TOKEN is not configured; set it with `wrangler secret put BOOTSTRAP_TOKEN`', 403);
+  }
+  if (!await matchesBootstrapToken(request, env.BOOTSTRAP_TOKEN)) {
+    return errorResponse('Invalid bootstrap token', 401);
+  }
+
+  let body: { name?: string } = {};
+  try {
+    body = await request.json();
+  } catch (error) {
+    // The body is optional
+  }
+
+  // The key table may not exist yet on a fresh database
+  await db.ensureSchema();
+  if (await db.countApiKeys('admin') > 0) {
+    return errorResponse('An admin key already exists; manage keys through /auth/keys', 409);
+  }
+
+  return successResponse(await issueApiKey(db, body.name || 'Bootstrap admin', 'admin'));
+}
+
+async function issueApiKey(db: DatabaseService, name: string, role: ApiRole): Promise<{ id: number; name: string; role: ApiRole; key: string; key_prefix: string }> {
+  const key = generateApiKey();
+  const keyPrefix = apiKeyPrefix(key);
+  const id = await db.createApiKey({ name, key_prefix: keyPrefix, role }, await hashApiKey(key));
+  return { id, name, role, key, key_prefix: keyPrefix };
+}
+
+// Configuration endpoint handler; `author` is recorded on the revision each change creates
+async function handleConfigEndpoint(request: Request, db: DatabaseService, author: string | null): Promise<Response> {
   switch (request.method) {
     case 'GET':
       const configs = await db.getAllSystemInstructions();
@@ -224,9 +502,22 @@ async function handleConfigEndpoint(request: Request, db: DatabaseService): Prom
         if (!config.url_pattern || !config.name || !config.instructions || !config.test_type) {
           return errorResponse('Missing required fields: url_pattern, name, instructions, test_type');
         }
+        if (config.test_type !== 'traditional' && config.test_type !== 'agentic') {
+          return errorResponse('test_type must be traditional or agentic');
+        }
+
+        const matchingError = validateUrlMatching(config);
+        if (matchingError) {
+          return errorResponse(matchingError);
+        }
+
+        const errors = validateInstructions(config.test_type, config.instructions);
+        if (errors.length > 0) {
+          return instructionErrorResponse(config.test_type, errors);
+        }
 
-        const id = await db.createSystemInstruction(config);
-        return successResponse({ message: 'Configuration created', id });
+        const id = await db.createSystemInstruction(config, author);
+        return successResponse({ message: 'Configuration created', id, revision: 1 });
       } catch (error) {
         return errorResponse('Invalid JSON payload');
       }
@@ -239,8 +530,37 @@ async function handleConfigEndpoint(request: Request, db: DatabaseService): Prom
           return errorResponse('ID is required for updates');
         }
 
-        await db.updateSystemInstruction(id, updates);
-        return successResponse({ message: 'Configuration updated' });
+        const existing = await db.getSystemInstructionById(id);
+        if (!existing) {
+          return errorResponse('Configuration not found', 404);
+        }
+
+        const matchingError = validateUrlMatching({
+          url_pattern: updates.url_pattern ?? existing.url_pattern,
+          match_type: updates.match_type ?? existing.match_type,
+          priority: updates.priority
+        });
+        if (matchingError) {
+          return errorResponse(matchingError);
+        }
+
+        // Changing either field re-checks the instructions against the (possibly new) type
+        if (updates.instructions !== undefined || updates.test_type !== undefined) {
+          const testType = updates.test_type ?? existing.test_type;
+          if (testType !== 'traditional' && testType !== 'agentic') {
+            return errorResponse('test_type must be traditional or agentic');
+          }
+          const errors = validateInstructions(testType, updates.instructions ?? existing.instructions);
+          if (errors.length > 0) {
+            return instructionErrorResponse(testType, errors);
+          }
+        }
+
+        const revision = await db.updateSystemInstruction(id, updates, author);
+        if (revision === null) {
+          return errorResponse('No configuration fields to update');
+        }
+        return successResponse({ message: 'Configuration updated', revision });
       } catch (error) {
         return errorResponse('Invalid JSON payload');
       }
@@ -253,7 +573,7 @@ async function handleConfigEndpoint(request: Request, db: DatabaseService): Prom
         return errorResponse('ID parameter is required');
       }
 
-      await db.deleteSystemInstruction(id);
+      await db.deleteSystemInstruction(id, author);
       return successResponse({ message: 'Configuration deleted' });
 
     default:
@@ -261,119 +581,714 @@ async function handleConfigEndpoint(request: Request, db: DatabaseService): Prom
   }
 }
 
-// Traditional test handler
-async function handleTraditionalTest(request: Request, env: Env, db: DatabaseService): Promise<Response> {
-  if (request.method !== 'POST') {
+// Downloads a stored traditional configuration as a @playwright/test spec
+async function handlePlaywrightExportEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'GET') {
     return errorResponse('Method not allowed', 405);
   }
 
+  const id = parseInt(new URL(request.url).searchParams.get('id') || '');
+  if (!id) {
+    return errorResponse('id parameter is required');
+  }
+
+  const config = await db.getSystemInstructionById(id);
+  if (!config) {
+    return errorResponse('Configuration not found', 404);
+  }
+  if (config.test_type !== 'traditional') {
+    return errorResponse('Only traditional configurations can be exported');
+  }
+
+  let spec: string;
   try {
-    const payload = await request.json() as {
-      url: string;
-      testCase?: TraditionalTestCase;
-      useStoredConfig?: boolean;
-    };
+    spec = exportPlaywrightSpec(resolveTraditionalTest(JSON.parse(config.instructions)));
+  } catch (error) {
+    return errorResponse(`Cannot export configuration: ${error instanceof Error ? error.message : String(error)}`);
+  }
 
-    if (!payload.url) {
-      return errorResponse('URL is required');
+  const fileName = `${config.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `config-${id}`}.spec.ts`;
+  return new Response(spec, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`
     }
+  });
+}
 
-    const sessionId = generateSessionId();
-    const logger = new Logger(db, sessionId);
-    
-    let testCase: TraditionalTestCase;
-    let configId: number | undefined;
+// Converts a Chrome DevTools Recorder export or Playwright codegen script into a traditional test case
+async function handleConfigImportEndpoint(request: Request, db: DatabaseService, author: string | null): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
 
-    if (payload.useStoredConfig !== false) {
-      // Try to find stored configuration
-      const config = await db.getSystemInstructionByUrl(payload.url);
-      if (config && config.test_type === 'traditional') {
-        try {
-          testCase = JSON.parse(config.instructions);
-          configId = config.id;
-          await logger.logInfo('Using stored configuration', { configId, configName: config.name });
-        } catch (error) {
-          await logger.logWarning('Failed to parse stored configuration, using provided test case');
-          if (!payload.testCase) {
-            return errorResponse('No valid configuration found and no test case provided');
-          }
-          testCase = payload.testCase;
-        }
-      } else {
-        if (!payload.testCase) {
-          return errorResponse('No configuration found for URL and no test case provided');
-        }
-        testCase = payload.testCase;
-      }
-    } else {
-      if (!payload.testCase) {
-        return errorResponse('Test case is required when not using stored config');
-      }
-      testCase = payload.testCase;
+  let body: { format?: ImportFormat; source?: unknown; name?: string; url_pattern?: string; save?: boolean };
+  try {
+    body = await request.json();
+  } catch (error) {
+    return errorResponse('Invalid JSON payload');
+  }
+
+  if (body.source === undefined || body.source === null || body.source === '') {
+    return errorResponse('source is required');
+  }
+  if (body.format && body.format !== 'chrome-recorder' && body.format !== 'playwright-codegen') {
+    return errorResponse('format must be chrome-recorder or playwright-codegen');
+  }
+
+  const format = body.format ?? detectImportFormat(body.source);
+  let result;
+  try {
+    result = importTest(format, body.source, body.name);
+  } catch (error) {
+    return errorResponse(`Cannot import ${format} source: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (result.test_case.steps.length === 0) {
+    return errorResponse('No steps could be imported', 422);
+  }
+
+  const urlPattern = body.url_pattern || result.url_pattern;
+  let id: number | undefined;
+  if (body.save) {
+    if (!urlPattern) {
+      return errorResponse('url_pattern is required when the source has no navigation');
     }
+    const errors = validateInstructions('traditional', result.test_case);
+    if (errors.length > 0) {
+      return instructionErrorResponse('traditional', errors, 422);
+    }
+    id = await db.createSystemInstruction({
+      url_pattern: urlPattern,
+      name: result.test_case.name,
+      instructions: JSON.stringify(result.test_case, null, 2),
+      test_type: 'traditional'
+    }, author);
+  }
 
-    // Create test session
-    await db.createTestSession({
-      id: sessionId,
-      url: payload.url,
-      test_type: 'traditional',
-      status: 'running',
-      config_id: configId
-    });
+  return successResponse({ format, ...result, url_pattern: urlPattern, id });
+}
 
-    await logger.logSessionStart(payload.url, 'traditional');
+// GET reports applied, pending and drift; POST applies pending migrations (`?dry_run=true` only lists them)
+async function handleMigrateEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  if (request.method === 'GET') {
+    return successResponse(await db.getMigrationStatus());
+  }
+  if (request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
 
-    // Execute test
-    const playwrightClient = new PlaywrightClient(env.BROWSER);
-    const executor = new TraditionalTestExecutor(playwrightClient, db, logger);
-    const result = await executor.executeTest(sessionId, testCase);
-
-    // Update session status
-    await db.updateTestSession(sessionId, {
-      status: result.success ? 'completed' : 'failed',
-      end_time: new Date().toISOString(),
-      results: JSON.stringify(result),
-      error_summary: result.error_summary
-    });
+  const dryRun = ['1', 'true'].includes(new URL(request.url).searchParams.get('dry_run') ?? '');
+  return successResponse(await db.migrate({ dryRun }));
+}
 
-    await logger.logSessionEnd(result.success ? 'completed' : 'failed', result);
+// One page of configurations (active only unless `status` says otherwise); see parseConfigListQuery
+async function handleConfigListEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'GET') {
+    return errorResponse('Method not allowed', 405);
+  }
 
-    return successResponse({ 
-      sessionId,
-      success: result.success,
-      executionTime: result.execution_time_ms,
-      results: result.results,
-      screenshots: result.screenshots,
-      errorSummary: result.error_summary
-    });
+  const query = parseConfigListQuery(new URL(request.url).searchParams);
+  if ('error' in query) {
+    return errorResponse(query.error);
+  }
 
-  } catch (error) {
-    return errorResponse(error instanceof Error ? error.message : 'Test execution failed');
+  const page = await db.listSystemInstructions(query);
+  return successResponse({ configs: page.items, next_cursor: page.next_cursor });
+}
+
+// Best configuration for `?url=` (optionally of `test_type`) plus every matching candidate and why it matched
+async function handleConfigFindEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'GET') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const url = new URL(request.url);
+  const target = url.searchParams.get('url');
+  if (!target) {
+    return errorResponse('URL parameter is required');
+  }
+
+  const testType = url.searchParams.get('test_type') ?? undefined;
+  if (testType !== undefined && testType !== 'traditional' && testType !== 'agentic') {
+    return errorResponse('test_type must be traditional or agentic');
   }
+
+  const candidates = await db.findSystemInstructionCandidates(target, testType as SystemInstruction['test_type'] | undefined);
+  return successResponse({
+    config: candidates[0]?.config ?? null,
+    candidates: candidates.map(({ config, reason }) => ({
+      id: config.id,
+      name: config.name,
+      test_type: config.test_type,
+      url_pattern: config.url_pattern,
+      match_type: config.match_type ?? 'substring',
+      priority: config.priority ?? 0,
+      reason
+    }))
+  });
 }
 
-// Agentic test handler
-async function handleAgenticTest(request: Request, env: Env, db: DatabaseService): Promise<Response> {
+// Checks a configuration's url_pattern, match_type and priority
+function validateUrlMatching(config: Partial<SystemInstruction>): string | null {
+  if (config.match_type !== undefined && !URL_MATCH_TYPES.includes(config.match_type)) {
+    return `match_type must be one of ${URL_MATCH_TYPES.join(', ')}`;
+  }
+  if (config.priority !== undefined && !Number.isInteger(config.priority)) {
+    return 'priority must be an integer';
+  }
+  return config.url_pattern ? validateUrlPattern(config.url_pattern, config.match_type ?? 'substring') : null;
+}
+
+// Checks instructions without saving them; used by the editor in config.html
+async function handleConfigValidateEndpoint(request: Request): Promise<Response> {
   if (request.method !== 'POST') {
     return errorResponse('Method not allowed', 405);
   }
 
+  let body: { test_type?: string; instructions?: unknown };
   try {
-    const payload = await request.json() as {
-      url: string;
-      config?: AgenticTestConfig;
-      useStoredConfig?: boolean;
-    };
+    body = await request.json();
+  } catch (error) {
+    return errorResponse('Invalid JSON payload');
+  }
 
-    if (!payload.url) {
-      return errorResponse('URL is required');
-    }
+  if (body.test_type !== 'traditional' && body.test_type !== 'agentic') {
+    return errorResponse('test_type must be traditional or agentic');
+  }
+  if (body.instructions === undefined) {
+    return errorResponse('instructions is required');
+  }
 
-    const sessionId = generateSessionId();
-    const logger = new Logger(db, sessionId);
-    
-    let config: AgenticTestConfig;
+  const errors = validateInstructions(body.test_type, body.instructions);
+  return successResponse({ valid: errors.length === 0, errors });
+}
+
+// Publishes the instruction schemas (`?test_type=` for one of them)
+function handleConfigSchemaEndpoint(request: Request): Response {
+  if (request.method !== 'GET') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const testType = new URL(request.url).searchParams.get('test_type');
+  if (testType === null) {
+    return successResponse({ traditional: instructionSchema('traditional'), agentic: instructionSchema('agentic') });
+  }
+  if (testType !== 'traditional' && testType !== 'agentic') {
+    return errorResponse('test_type must be traditional or agentic');
+  }
+
+  return new Response(JSON.stringify(instructionSchema(testType), null, 2), {
+    headers: { 'Content-Type': 'application/schema+json' }
+  });
+}
+
+// Revision history of a configuration (`?id=`), or one snapshot with `&revision=`
+async function handleConfigRevisionsEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'GET') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const url = new URL(request.url);
+  const id = parseInt(url.searchParams.get('id') || '');
+  if (!id) {
+    return errorResponse('id parameter is required');
+  }
+
+  const revisionNumber = parseInt(url.searchParams.get('revision') || '');
+  if (revisionNumber) {
+    const revision = await db.getConfigRevision(id, revisionNumber);
+    return revision ? successResponse({ revision }) : errorResponse('Revision not found', 404);
+  }
+
+  const revisions = await db.getConfigRevisions(id);
+  if (revisions.length === 0) {
+    return errorResponse('Configuration not found', 404);
+  }
+  return successResponse({ revisions });
+}
+
+// Diffs two revisions; `to` defaults to the current revision and `from` to the one before it
+async function handleConfigDiffEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'GET') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const url = new URL(request.url);
+  const id = parseInt(url.searchParams.get('id') || '');
+  if (!id) {
+    return errorResponse('id parameter is required');
+  }
+
+  const config = await db.getSystemInstructionById(id);
+  if (!config) {
+    return errorResponse('Configuration not found', 404);
+  }
+
+  const to = parseInt(url.searchParams.get('to') || '') || config.revision || 1;
+  const from = parseInt(url.searchParams.get('from') || '') || to - 1;
+  const [fromRevision, toRevision] = await Promise.all([db.getConfigRevision(id, from), db.getConfigRevision(id, to)]);
+  if (!fromRevision || !toRevision) {
+    return errorResponse(`Revision ${!fromRevision ? from : to} not found`, 404);
+  }
+
+  return successResponse({ diff: diffRevisions(fromRevision, toRevision) });
+}
+
+// Restores an earlier snapshot as a new revision, so the rollback itself stays in the history
+async function handleConfigRollbackEndpoint(request: Request, db: DatabaseService, author: string | null): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  let body: { id?: number; revision?: number };
+  try {
+    body = await request.json();
+  } catch (error) {
+    return errorResponse('Invalid JSON payload');
+  }
+
+  if (!body.id || !body.revision) {
+    return errorResponse('Missing required fields: id, revision');
+  }
+
+  const target = await db.getConfigRevision(body.id, body.revision);
+  if (!target) {
+    return errorResponse('Revision not found', 404);
+  }
+
+  const revision = await db.updateSystemInstruction(body.id, target.snapshot, author, 'rollback', target.revision);
+  if (revision === null) {
+    return errorResponse('Configuration not found', 404);
+  }
+  return successResponse({ message: `Configuration rolled back to revision ${target.revision}`, revision });
+}
+
+// Schedule endpoint handler
+async function handleScheduleEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  const url = new URL(request.url);
+
+  switch (request.method) {
+    case 'GET': {
+      const id = parseInt(url.searchParams.get('id') || '');
+      if (id) {
+        const schedule = await db.getSchedule(id);
+        return schedule ? successResponse({ schedule }) : errorResponse('Schedule not found', 404);
+      }
+      const schedules = await db.getAllSchedules();
+      return successResponse({ schedules });
+    }
+
+    case 'POST': {
+      let schedule: Partial<Schedule>;
+      try {
+        schedule = await request.json();
+      } catch (error) {
+        return errorResponse('Invalid JSON payload');
+      }
+
+      if (!schedule.config_id || !schedule.cron || !schedule.target_url) {
+        return errorResponse('Missing required fields: config_id, cron, target_url');
+      }
+
+      const validationError = await validateSchedule(schedule, db);
+      if (validationError) {
+        return errorResponse(validationError);
+      }
+
+      const id = await db.createSchedule({
+        config_id: schedule.config_id,
+        cron: schedule.cron.trim(),
+        target_url: schedule.target_url,
+        enabled: schedule.enabled ?? true
+      });
+      return successResponse({ message: 'Schedule created', id });
+    }
+
+    case 'PUT': {
+      let payload: Partial<Schedule>;
+      try {
+        payload = await request.json();
+      } catch (error) {
+        return errorResponse('Invalid JSON payload');
+      }
+
+      const { id, config_id, cron, target_url, enabled } = payload;
+      if (!id) {
+        return errorResponse('ID is required for updates');
+      }
+      if (!(await db.getSchedule(id))) {
+        return errorResponse('Schedule not found', 404);
+      }
+
+      const validationError = await validateSchedule(payload, db);
+      if (validationError) {
+        return errorResponse(validationError);
+      }
+
+      const updates: Partial<Pick<Schedule, 'config_id' | 'cron' | 'target_url' | 'enabled'>> = {};
+      if (config_id !== undefined) updates.config_id = config_id;
+      if (cron !== undefined) updates.cron = cron.trim();
+      if (target_url !== undefined) updates.target_url = target_url;
+      if (enabled !== undefined) updates.enabled = enabled;
+
+      if (Object.keys(updates).length === 0) {
+        return errorResponse('No schedule fields to update');
+      }
+
+      await db.updateSchedule(id, updates);
+      return successResponse({ message: 'Schedule updated' });
+    }
+
+    case 'DELETE': {
+      const id = parseInt(url.searchParams.get('id') || '');
+      if (!id) {
+        return errorResponse('ID parameter is required');
+      }
+
+      const deleted = await db.deleteSchedule(id);
+      return deleted
+        ? successResponse({ message: 'Schedule deleted' })
+        : errorResponse('Schedule not found', 404);
+    }
+
+    default:
+      return errorResponse('Method not allowed', 405);
+  }
+}
+
+// Returns a message describing the first invalid field, or null when the schedule is usable
+async function validateSchedule(schedule: Partial<Schedule>, db: DatabaseService): Promise<string | null> {
+  if (schedule.cron !== undefined) {
+    try {
+      parseCron(schedule.cron);
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid cron expression';
+    }
+  }
+
+  if (schedule.target_url !== undefined) {
+    try {
+      new URL(schedule.target_url);
+    } catch (error) {
+      return 'target_url must be an absolute URL';
+    }
+  }
+
+  if (schedule.config_id !== undefined) {
+    const config = await db.getSystemInstructionById(schedule.config_id);
+    if (!config || !config.is_active) {
+      return `Configuration ${schedule.config_id} does not exist or is inactive`;
+    }
+  }
+
+  return null;
+}
+
+// Notification channel endpoint handler
+async function handleNotificationChannelsEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  const url = new URL(request.url);
+
+  switch (request.method) {
+    case 'GET': {
+      const id = parseInt(url.searchParams.get('id') || '');
+      if (id) {
+        const channel = await db.getNotificationChannel(id);
+        return channel ? successResponse({ channel }) : errorResponse('Channel not found', 404);
+      }
+      const channels = await db.getNotificationChannels();
+      return successResponse({ channels });
+    }
+
+    case 'POST': {
+      let channel: Partial<NotificationChannel>;
+      try {
+        channel = await request.json();
+      } catch (error) {
+        return errorResponse('Invalid JSON payload');
+      }
+
+      if (!channel.name || !channel.type || !channel.target) {
+        return errorResponse('Missing required fields: name, type, target');
+      }
+
+      const validationError = await validateNotificationChannel(channel, db);
+      if (validationError) {
+        return errorResponse(validationError);
+      }
+
+      const id = await db.createNotificationChannel({
+        name: channel.name,
+        type: channel.type,
+        target: channel.target.trim(),
+        config_id: channel.config_id ?? null,
+        rule: channel.rule ?? 'failure',
+        secret_name: channel.secret_name || null,
+        enabled: channel.enabled ?? true
+      });
+      return successResponse({ message: 'Channel created', id });
+    }
+
+    case 'PUT': {
+      let payload: Partial<NotificationChannel>;
+      try {
+        payload = await request.json();
+      } catch (error) {
+        return errorResponse('Invalid JSON payload');
+      }
+
+      const { id, name, type, target, config_id, rule, secret_name, enabled } = payload;
+      if (!id) {
+        return errorResponse('ID is required for updates');
+      }
+      const existing = await db.getNotificationChannel(id);
+      if (!existing) {
+        return errorResponse('Channel not found', 404);
+      }
+
+      // Type and target are checked together, so validate against the merged channel
+      const validationError = await validateNotificationChannel({ ...existing, ...payload }, db);
+      if (validationError) {
+        return errorResponse(validationError);
+      }
+
+      const updates: Partial<Omit<NotificationChannel, 'id' | 'created_at' | 'updated_at'>> = {};
+      if (name !== undefined) updates.name = name;
+      if (type !== undefined) updates.type = type;
+      if (target !== undefined) updates.target = target.trim();
+      if (config_id !== undefined) updates.config_id = config_id;
+      if (rule !== undefined) updates.rule = rule;
+      if (secret_name !== undefined) updates.secret_name = secret_name || null;
+      if (enabled !== undefined) updates.enabled = enabled;
+
+      if (Object.keys(updates).length === 0) {
+        return errorResponse('No channel fields to update');
+      }
+
+      await db.updateNotificationChannel(id, updates);
+      return successResponse({ message: 'Channel updated' });
+    }
+
+    case 'DELETE': {
+      const id = parseInt(url.searchParams.get('id') || '');
+      if (!id) {
+        return errorResponse('ID parameter is required');
+      }
+
+      const deleted = await db.deleteNotificationChannel(id);
+      return deleted
+        ? successResponse({ message: 'Channel deleted' })
+        : errorResponse('Channel not found', 404);
+    }
+
+    default:
+      return errorResponse('Method not allowed', 405);
+  }
+}
+
+// Returns a message describing the first invalid field, or null when the channel is usable
+async function validateNotificationChannel(channel: Partial<NotificationChannel>, db: DatabaseService): Promise<string | null> {
+  if (channel.type !== undefined && !NOTIFICATION_CHANNEL_TYPES.includes(channel.type)) {
+    return `type must be one of ${NOTIFICATION_CHANNEL_TYPES.join(', ')}`;
+  }
+  if (channel.rule !== undefined && !NOTIFICATION_RULES.includes(channel.rule)) {
+    return `rule must be one of ${NOTIFICATION_RULES.join(', ')}`;
+  }
+
+  if (channel.target !== undefined) {
+    if (channel.type === 'email') {
+      const addresses = channel.target.split(',').map(address => address.trim());
+      if (addresses.some(address => !/^[^@\s]+@[^@\s]+$/.test(address))) {
+        return 'target must be a comma-separated list of email addresses';
+      }
+    } else {
+      try {
+        if (!['http:', 'https:'].includes(new URL(channel.target).protocol)) {
+          return 'target must be an http(s) URL';
+        }
+      } catch (error) {
+        return 'target must be an absolute URL';
+      }
+    }
+  }
+
+  if (channel.secret_name && !isValidSecretName(channel.secret_name)) {
+    return 'secret_name must be a valid secret name';
+  }
+
+  if (channel.config_id) {
+    const config = await db.getSystemInstructionById(channel.config_id);
+    if (!config) {
+      return `Configuration ${channel.config_id} does not exist`;
+    }
+  }
+
+  return null;
+}
+
+// Secrets endpoint handler. Values can be set or replaced but are never returned.
+async function handleSecretsEndpoint(request: Request, env: Env, db: DatabaseService): Promise<Response> {
+  switch (request.method) {
+    case 'GET': {
+      const secrets = await db.listSecrets();
+      return successResponse({ secrets });
+    }
+
+    case 'POST':
+    case 'PUT': {
+      let payload: { name?: string; value?: string };
+      try {
+        payload = await request.json();
+      } catch (error) {
+        return errorResponse('Invalid JSON payload');
+      }
+
+      if (!payload.name || typeof payload.value !== 'string' || payload.value.length === 0) {
+        return errorResponse('Missing required fields: name, value');
+      }
+      if (!isValidSecretName(payload.name)) {
+        return errorResponse('Secret names may only contain letters, digits and underscores and must not start with a digit');
+      }
+
+      let cipher: SecretCipher;
+      try {
+        cipher = SecretCipher.fromEnv(env);
+      } catch (error) {
+        return errorResponse(error instanceof Error ? error.message : 'Secrets are not configured', 503);
+      }
+
+      await db.upsertSecret(payload.name, await cipher.encrypt(payload.name, payload.value));
+      return successResponse({ message: 'Secret stored', name: payload.name, reference: `{{secret:${payload.name}}}` });
+    }
+
+    case 'DELETE': {
+      const name = new URL(request.url).searchParams.get('name');
+      if (!name) {
+        return errorResponse('name parameter is required');
+      }
+
+      const deleted = await db.deleteSecret(name);
+      return deleted
+        ? successResponse({ message: 'Secret deleted' })
+        : errorResponse('Secret not found', 404);
+    }
+
+    default:
+      return errorResponse('Method not allowed', 405);
+  }
+}
+
+// Traditional test handler
+async function handleTraditionalTest(request: Request, env: Env, ctx: ExecutionContext, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    const payload = await request.json() as {
+      url: string;
+      testCase?: TraditionalTestCase | TraditionalTestSuite;
+      testSuite?: TraditionalTestSuite;
+      variables?: TemplateVariables;
+      useStoredConfig?: boolean;
+      wait?: boolean;
+    };
+
+    if (!payload.url) {
+      return errorResponse('URL is required');
+    }
+
+    const sessionId = generateSessionId();
+    const logger = new Logger(db, sessionId);
+    
+    // A suite may be sent as `testSuite` or in place of `testCase`
+    const providedTestCase = payload.testSuite ?? payload.testCase;
+    let testCase: TraditionalTestCase | TraditionalTestSuite;
+    let configId: number | undefined;
+    let configRevision: number | undefined;
+
+    if (payload.useStoredConfig !== false) {
+      // Try to find stored configuration
+      const config = await db.getSystemInstructionByUrl(payload.url, 'traditional');
+      if (config) {
+        try {
+          testCase = JSON.parse(config.instructions);
+          configId = config.id;
+          configRevision = config.revision;
+          await logger.logInfo('Using stored configuration', { configId, configName: config.name });
+        } catch (error) {
+          await logger.logWarning('Failed to parse stored configuration, using provided test case');
+          if (!providedTestCase) {
+            return errorResponse('No valid configuration found and no test case provided');
+          }
+          testCase = providedTestCase;
+        }
+      } else {
+        if (!providedTestCase) {
+          return errorResponse('No configuration found for URL and no test case provided');
+        }
+        testCase = providedTestCase;
+      }
+    } else {
+      if (!providedTestCase) {
+        return errorResponse('Test case is required when not using stored config');
+      }
+      testCase = providedTestCase;
+    }
+
+    // Render templates before the session exists so undefined variables fail fast
+    resolveTraditionalTest(testCase, payload.variables);
+
+    // Create test session
+    await db.createTestSession({
+      id: sessionId,
+      url: payload.url,
+      test_type: 'traditional',
+      status: 'running',
+      config_id: configId,
+      config_revision: configRevision
+    });
+
+    await logger.logSessionStart(payload.url, 'traditional');
+
+    return await dispatchTestJob(request, env, ctx, db, payload.wait, {
+      kind: 'traditional',
+      sessionId,
+      url: payload.url,
+      configId,
+      testCase,
+      variables: payload.variables
+    });
+
+  } catch (error) {
+    return errorResponse(error instanceof Error ? error.message : 'Test execution failed');
+  }
+}
+
+// Agentic test handler
+async function handleAgenticTest(request: Request, env: Env, ctx: ExecutionContext, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    const payload = await request.json() as {
+      url: string;
+      config?: AgenticTestConfig;
+      useStoredConfig?: boolean;
+      wait?: boolean;
+    };
+
+    if (!payload.url) {
+      return errorResponse('URL is required');
+    }
+
+    const sessionId = generateSessionId();
+    const logger = new Logger(db, sessionId);
+    
+    let config: AgenticTestConfig;
     let configId: number | undefined;
+    let configRevision: number | undefined;
+    let providerSettings: AgentProviderSettings = {};
 
     if (payload.useStoredConfig !== false) {
       // Try to find stored configuration
@@ -382,6 +1297,8 @@ async function handleAgenticTest(request: Request, env: Env, db: DatabaseService
         try {
           config = JSON.parse(storedConfig.instructions);
           configId = storedConfig.id;
+          configRevision = storedConfig.revision;
+          providerSettings = { provider: storedConfig.llm_provider, model: storedConfig.llm_model };
           await logger.logInfo('Using stored agentic configuration', { configId, configName: storedConfig.name });
         } catch (error) {
           await logger.logWarning('Failed to parse stored agentic configuration, using provided config');
@@ -403,39 +1320,28 @@ async function handleAgenticTest(request: Request, env: Env, db: DatabaseService
       config = payload.config;
     }
 
+    // Resolve the planner before the session exists so misconfiguration fails fast
+    createAgentProvider(env, providerSettings, config);
+
     // Create test session
     await db.createTestSession({
       id: sessionId,
       url: payload.url,
       test_type: 'agentic',
       status: 'running',
-      config_id: configId
+      config_id: configId,
+      config_revision: configRevision
     });
 
     await logger.logSessionStart(payload.url, 'agentic');
 
-    // Execute agentic test
-    const playwrightClient = new PlaywrightClient(env.BROWSER);
-    const executor = new AgenticTestExecutor(playwrightClient, db, logger);
-    const result = await executor.executeTest(sessionId, config);
-
-    // Update session status
-    await db.updateTestSession(sessionId, {
-      status: result.success ? 'completed' : 'failed',
-      end_time: new Date().toISOString(),
-      results: JSON.stringify(result),
-      error_summary: result.error_summary
-    });
-
-    await logger.logSessionEnd(result.success ? 'completed' : 'failed', result);
-
-    return successResponse({ 
+    return await dispatchTestJob(request, env, ctx, db, payload.wait, {
+      kind: 'agentic',
       sessionId,
-      success: result.success,
-      executionTime: result.execution_time_ms,
-      results: result.results,
-      screenshots: result.screenshots,
-      errorSummary: result.error_summary
+      url: payload.url,
+      configId,
+      config,
+      provider: providerSettings
     });
 
   } catch (error) {
@@ -443,7 +1349,95 @@ async function handleAgenticTest(request: Request, env: Env, db: DatabaseService
   }
 }
 
+// Runs the job inline when the caller asked to wait (`?wait=true` or `"wait": true`),
+// otherwise queues it and answers 202 with a URL to poll.
+async function dispatchTestJob(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  db: DatabaseService,
+  waitFlag: boolean | undefined,
+  job: TestJob
+): Promise<Response> {
+  const wait = waitFlag === true || new URL(request.url).searchParams.get('wait') === 'true';
+
+  if (!wait) {
+    await enqueueTestJob(job, env, ctx, db);
+    return successResponse({
+      sessionId: job.sessionId,
+      status: 'running',
+      statusUrl: `/session?sessionId=${encodeURIComponent(job.sessionId)}`
+    }, 202);
+  }
+
+  const result = await runTestJob(job, env, db);
+  return successResponse({ 
+    sessionId: job.sessionId,
+    success: result.success,
+    executionTime: result.execution_time_ms,
+    results: result.results,
+    screenshots: result.screenshots,
+    errorSummary: result.error_summary,
+    suite: result.suite
+  });
+}
+
 // Session endpoint handler
+// One page of sessions; see parseSessionListQuery for the filters and sort options
+async function handleSessionListEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'GET') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const query = parseSessionListQuery(new URL(request.url).searchParams);
+  if ('error' in query) {
+    return errorResponse(query.error);
+  }
+
+  const page = await db.listTestSessions(query);
+  return successResponse({ sessions: page.items, next_cursor: page.next_cursor });
+}
+
+async function handleAnalyticsTrendsEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'GET') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const period = parseTrendWindow(new URL(request.url).searchParams);
+  if ('error' in period) {
+    return errorResponse(period.error);
+  }
+
+  const data = await db.getTrendData(trendWindowStart(period.days), period.configId);
+  return successResponse(buildTrendReport(data, period));
+}
+
+async function handleAnalyticsFlakyEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'GET') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const period = parseTrendWindow(searchParams);
+  if ('error' in period) {
+    return errorResponse(period.error);
+  }
+
+  const minRuns = Number(searchParams.get('min_runs') || DEFAULT_MIN_RUNS);
+  if (!Number.isInteger(minRuns) || minRuns < 2) {
+    return errorResponse('min_runs must be an integer of at least 2');
+  }
+
+  const runs = await db.getStepRuns(trendWindowStart(period.days), period.configId);
+  return successResponse({
+    config_id: period.configId,
+    days: period.days,
+    min_runs: minRuns,
+    quarantine_score: QUARANTINE_SCORE,
+    steps: scoreFlakiness(runs, minRuns)
+  });
+}
+
 async function handleSessionEndpoint(request: Request, db: DatabaseService): Promise<Response> {
   const { searchParams } = new URL(request.url);
   
@@ -451,8 +1445,7 @@ async function handleSessionEndpoint(request: Request, db: DatabaseService): Pro
     case 'GET':
       const sessionId = searchParams.get('sessionId');
       if (!sessionId) {
-        const sessions = await db.getAllTestSessions();
-        return successResponse({ sessions });
+        return await handleSessionListEndpoint(request, db);
       }
       
       const session = await db.getTestSession(sessionId);
@@ -463,12 +1456,16 @@ async function handleSessionEndpoint(request: Request, db: DatabaseService): Pro
       const results = await db.getTestResults(sessionId);
       const logs = await db.getActionLogs(sessionId);
       const stats = await db.getSessionStats(sessionId);
+      const artifacts = await db.getArtifacts(sessionId);
+      const visualComparisons = await db.getVisualComparisons(sessionId);
       
       return successResponse({
         session,
         results,
         logs,
-        stats
+        stats,
+        artifacts,
+        visual_comparisons: visualComparisons
       });
 
     case 'DELETE':
@@ -477,7 +1474,15 @@ async function handleSessionEndpoint(request: Request, db: DatabaseService): Pro
         return errorResponse('sessionId parameter is required');
       }
       
-      await db.updateTestSession(deleteSessionId, { status: 'cancelled' });
+      const sessionToCancel = await db.getTestSession(deleteSessionId);
+      if (!sessionToCancel) {
+        return errorResponse('Session not found', 404);
+      }
+
+      // The running executor notices the status change, stops the browser and skips the remaining steps
+      if (!await db.cancelTestSession(deleteSessionId)) {
+        return errorResponse(`Session is already ${sessionToCancel.status}`, 409);
+      }
       return successResponse({ message: 'Session cancelled' });
 
     default:
@@ -485,6 +1490,213 @@ async function handleSessionEndpoint(request: Request, db: DatabaseService): Pro
   }
 }
 
+// Raw results of one session, or a JUnit/CTRF/TAP/Markdown report of one or more sessions
+async function handleSessionResultsEndpoint(request: Request, db: DatabaseService): Promise<Response> {
+  const url = new URL(request.url);
+  // Batches: repeat sessionId or pass a comma-separated list
+  const sessionIds = [...new Set(url.searchParams.getAll('sessionId').flatMap(value => value.split(',')).map(id => id.trim()).filter(Boolean))];
+  const format = url.searchParams.get('format');
+
+  if (sessionIds.length === 0) {
+    return errorResponse('sessionId parameter is required');
+  }
+
+  if (!format) {
+    if (sessionIds.length > 1) {
+      return errorResponse('format is required when requesting several sessions');
+    }
+    const [sessionId] = sessionIds;
+    const results = await db.getTestResults(sessionId);
+    const logs = await db.getActionLogs(sessionId);
+    const stats = await db.getSessionStats(sessionId);
+
+    return successResponse({
+      sessionId,
+      results,
+      logs,
+      stats
+    });
+  }
+
+  if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+    return errorResponse(`format must be one of ${REPORT_FORMATS.join(', ')}`);
+  }
+  if (sessionIds.length > MAX_REPORT_SESSIONS) {
+    return errorResponse(`At most ${MAX_REPORT_SESSIONS} sessions can be reported at once`);
+  }
+
+  const inputs: SessionReportInput[] = [];
+  for (const sessionId of sessionIds) {
+    const session = await db.getTestSession(sessionId);
+    if (!session) {
+      return errorResponse(`Session ${sessionId} not found`, 404);
+    }
+    const config = session.config_id ? await db.getSystemInstructionById(session.config_id) : null;
+    inputs.push({
+      session,
+      name: config?.name,
+      results: await db.getTestResults(sessionId),
+      artifacts: await db.getArtifacts(sessionId)
+    });
+  }
+
+  const report = renderReport(format as ReportFormat, inputs, url.origin);
+  return new Response(report.body, {
+    headers: { 'Content-Type': report.contentType }
+  });
+}
+
+// Artifact download handler
+async function handleArtifactEndpoint(request: Request, env: Env, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const sessionId = searchParams.get('sessionId');
+  const name = searchParams.get('name');
+  if (!sessionId || !name) {
+    return errorResponse('sessionId and name parameters are required');
+  }
+
+  const artifact = await db.getArtifact(sessionId, name);
+  if (!artifact) {
+    return errorResponse('Artifact not found', 404);
+  }
+
+  const stored = await createArtifactStore(env).get(artifact.storage_key);
+  if (!stored) {
+    return errorResponse('Artifact content is no longer available', 404);
+  }
+
+  return new Response(request.method === 'HEAD' ? null : stored.body, {
+    headers: {
+      'Content-Type': stored.contentType,
+      'Content-Length': String(stored.size),
+      'Content-Disposition': `inline; filename="${artifact.name.replace(/"/g, '')}"`,
+      'Cache-Control': 'private, max-age=3600'
+    }
+  });
+}
+
+// Promotes one capture (by name) or every failed capture of a session to the baseline
+async function handleVisualApproveEndpoint(request: Request, env: Env, db: DatabaseService): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  let payload: { sessionId?: string; name?: string };
+  try {
+    payload = await request.json();
+  } catch (error) {
+    return errorResponse('Invalid JSON payload');
+  }
+  if (!payload.sessionId) {
+    return errorResponse('Missing required field: sessionId');
+  }
+
+  const comparisons = (await db.getVisualComparisons(payload.sessionId)).filter(comparison =>
+    payload.name ? comparison.name === payload.name : comparison.status === 'failed'
+  );
+  if (comparisons.length === 0) {
+    return errorResponse(payload.name ? 'Visual comparison not found' : 'No failed visual comparisons in this session', 404);
+  }
+
+  const store = createArtifactStore(env);
+  const baselines = [];
+  for (const comparison of comparisons) {
+    baselines.push(await approveVisualComparison(store, db, comparison));
+  }
+  return successResponse({ message: `Approved ${baselines.length} baseline(s)`, baselines });
+}
+
+async function handleVisualBaselinesEndpoint(request: Request, env: Env, db: DatabaseService): Promise<Response> {
+  const { searchParams } = new URL(request.url);
+
+  switch (request.method) {
+    case 'GET': {
+      const baselines = await db.getVisualBaselines(searchParams.get('scope') || undefined);
+      return successResponse({ baselines });
+    }
+
+    case 'DELETE': {
+      const id = parseInt(searchParams.get('id') || '');
+      if (!Number.isInteger(id)) {
+        return errorResponse('id parameter is required');
+      }
+
+      const baseline = await db.getVisualBaselineById(id);
+      if (!baseline) {
+        return errorResponse('Baseline not found', 404);
+      }
+      await createArtifactStore(env).delete([baseline.storage_key]);
+      await db.deleteVisualBaseline(id);
+      return successResponse({ message: 'Baseline deleted; the next run captures a new one' });
+    }
+
+    default:
+      return errorResponse('Method not allowed', 405);
+  }
+}
+
+// Fixtures are uploaded as the raw request body; GET with a name downloads one
+async function handleMockFixturesEndpoint(request: Request, env: Env, db: DatabaseService): Promise<Response> {
+  const name = new URL(request.url).searchParams.get('name');
+  const store = createArtifactStore(env);
+  const fixtures = new MockFixtures(store, db);
+
+  switch (request.method) {
+    case 'GET':
+    case 'HEAD': {
+      if (!name) {
+        return successResponse({ fixtures: await db.getMockFixtures() });
+      }
+
+      const fixture = await db.getMockFixture(name);
+      const stored = fixture ? await store.get(fixture.storage_key) : null;
+      if (!fixture || !stored) {
+        return errorResponse('Fixture not found', 404);
+      }
+      return new Response(request.method === 'HEAD' ? null : stored.body, {
+        headers: {
+          'Content-Type': fixture.content_type,
+          'Content-Length': String(stored.size),
+          'Content-Disposition': `inline; filename="${fixture.name}"`
+        }
+      });
+    }
+
+    case 'POST':
+    case 'PUT': {
+      if (!name || !isValidFixtureName(name)) {
+        return errorResponse('name parameter is required and may only contain letters, digits, ".", "_" and "-"');
+      }
+
+      const body = new Uint8Array(await request.arrayBuffer());
+      if (body.byteLength > MAX_FIXTURE_BYTES) {
+        return errorResponse(`Fixtures may be at most ${MAX_FIXTURE_BYTES} bytes`, 413);
+      }
+
+      const contentType = request.headers.get('Content-Type') || 'application/octet-stream';
+      const fixture = await fixtures.save(name, body, contentType);
+      return successResponse({ message: 'Fixture stored', fixture });
+    }
+
+    case 'DELETE': {
+      if (!name) {
+        return errorResponse('name parameter is required');
+      }
+
+      return await fixtures.delete(name)
+        ? successResponse({ message: 'Fixture deleted' })
+        : errorResponse('Fixture not found', 404);
+    }
+
+    default:
+      return errorResponse('Method not allowed', 405);
+  }
+}
+
 async function serveAsset(env: Env, request: Request, assetPath?: string): Promise<Response> {
   if (!('ASSETS' in env) || !env.ASSETS) {
     return new Response('Not Found', { status: 404 });
@@ -0,0 +1,435 @@
+import type { AgenticAction, CountComparator, TestAssertion, TestStep, TextMatchMode, WaitForState } from './types';
+import { MAX_RETRIES, RETRY_ERROR_TYPES } from './retry-policy';
+import { MAX_MOCK_DELAY_MS, MOCK_ABORT_CODES } from './route-mocks';
+
+/**
+ * JSON Schemas for the `instructions` stored on system_instructions, plus a
+ * validator for the subset of draft 2020-12 they use. The schemas are served
+ * from GET /config/schema, so editors can use them directly.
+ */
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  else?: JsonSchema;
+}
+
+// `path` is a JSON Pointer into the instructions, e.g. "/steps/2/selector"
+export interface InstructionError {
+  path: string;
+  message: string;
+}
+
+const STEP_ACTIONS: Array<TestStep['action']> = [
+  'navigate', 'click', 'type', 'select', 'wait', 'screenshot', 'custom',
+  'wait_for', 'wait_for_url', 'hover', 'press', 'check', 'uncheck',
+  'scroll_into_view', 'go_back', 'reload', 'upload_file', 'evaluate',
+  'visual_snapshot', 'mock_route'
+];
+
+// Fields each action cannot run without (mirrors the checks in TraditionalTestExecutor)
+const STEP_REQUIRED_FIELDS: Partial<Record<TestStep['action'], string[]>> = {
+  navigate: ['url'],
+  click: ['selector'],
+  type: ['selector', 'value'],
+  select: ['selector', 'value'],
+  wait_for: ['selector'],
+  wait_for_url: ['url'],
+  hover: ['selector'],
+  press: ['value'],
+  check: ['selector'],
+  uncheck: ['selector'],
+  scroll_into_view: ['selector'],
+  upload_file: ['selector', 'files'],
+  evaluate: ['script'],
+  mock_route: ['mock']
+};
+
+const ASSERTION_TYPES: Array<TestAssertion['type']> = [
+  'exists', 'visible', 'text', 'value', 'count', 'custom',
+  'url', 'title', 'attribute', 'css_property', 'enabled', 'checked'
+];
+
+// Mirrors validateAssertion in assertions.ts
+const ASSERTION_REQUIRED_FIELDS: Partial<Record<TestAssertion['type'], string[]>> = {
+  exists: ['selector'],
+  visible: ['selector'],
+  enabled: ['selector'],
+  checked: ['selector'],
+  text: ['selector', 'expected'],
+  value: ['selector', 'expected'],
+  count: ['selector', 'expected'],
+  attribute: ['selector', 'attribute'],
+  css_property: ['selector', 'property', 'expected'],
+  url: ['expected'],
+  title: ['expected']
+};
+
+const AGENTIC_ACTION_TYPES: Array<AgenticAction['type']> = [
+  'analyze_page', 'take_screenshot', 'click_element', 'type_text', 'navigate_to', 'wait_for_element', 'verify_success'
+];
+
+const nonEmptyString: JsonSchema = { type: 'string', minLength: 1 };
+const timeoutMs: JsonSchema = { type: 'number', minimum: 0, description: 'Milliseconds' };
+const ratio: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+
+// Each entry applies `then` when the discriminator property equals the key
+function conditionalRequirements(discriminator: string, requirements: Record<string, string[] | undefined>): JsonSchema[] {
+  return Object.entries(requirements).map(([value, required]) => ({
+    if: { properties: { [discriminator]: { const: value } }, required: [discriminator] },
+    then: { required }
+  }));
+}
+
+const templateVariables: JsonSchema = {
+  type: 'object',
+  additionalProperties: { type: ['string', 'number', 'boolean'] }
+};
+
+export const TRADITIONAL_TEST_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'urn:playwright-worker:traditional-test',
+  title: 'Traditional test',
+  description: 'A single test case, or a suite of cases when `cases` is present.',
+  if: { type: 'object', required: ['cases'] },
+  then: { $ref: '#/$defs/suite' },
+  else: { $ref: '#/$defs/testCase' },
+  $defs: {
+    step: {
+      type: 'object',
+      required: ['action'],
+      properties: {
+        action: { enum: STEP_ACTIONS },
+        selector: nonEmptyString,
+        value: { type: 'string', description: 'Typed text, selected option, or the key for `press`' },
+        url: nonEmptyString,
+        timeout: timeoutMs,
+        state: { enum: ['attached', 'detached', 'visible', 'hidden'] satisfies WaitForState[] },
+        files: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['name', 'content'],
+            properties: {
+              name: nonEmptyString,
+              mime_type: { type: 'string' },
+              content: { type: 'string', description: 'Base64 file content' }
+            },
+            additionalProperties: false
+          }
+        },
+        script: nonEmptyString,
+        arg: {},
+        snapshot: nonEmptyString,
+        mask: { type: 'array', items: nonEmptyString },
+        full_page: { type: 'boolean' },
+        threshold: ratio,
+        max_diff_ratio: ratio,
+        mock: { $ref: '#/$defs/routeMock' },
+        retry: { $ref: '#/$defs/retryPolicy' },
+        description: { type: 'string' }
+      },
+      additionalProperties: false,
+      allOf: conditionalRequirements('action', STEP_REQUIRED_FIELDS)
+    },
+    assertion: {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: { enum: ASSERTION_TYPES },
+        selector: nonEmptyString,
+        expected: { type: ['string', 'number', 'boolean'] },
+        match: { enum: ['exact', 'contains', 'regex'] satisfies TextMatchMode[] },
+        ignore_case: { type: 'boolean' },
+        comparator: { enum: ['eq', 'gt', 'gte', 'lt', 'lte'] satisfies CountComparator[] },
+        attribute: nonEmptyString,
+        property: nonEmptyString,
+        not: { type: 'boolean' },
+        timeout: timeoutMs,
+        description: { type: 'string' }
+      },
+      additionalProperties: false,
+      allOf: [
+        ...conditionalRequirements('type', ASSERTION_REQUIRED_FIELDS),
+        {
+          if: { properties: { type: { const: 'count' } }, required: ['type'] },
+          then: { properties: { expected: { type: 'number' } } }
+        }
+      ]
+    },
+    testCase: {
+      type: 'object',
+      required: ['name', 'steps'],
+      properties: {
+        name: nonEmptyString,
+        steps: { type: 'array', items: { $ref: '#/$defs/step' } },
+        assertions: { type: 'array', items: { $ref: '#/$defs/assertion' } },
+        screenshot_on_failure: { type: 'boolean' },
+        variables: templateVariables,
+        dataset: { type: 'array', items: templateVariables },
+        retry: { $ref: '#/$defs/retryPolicy' },
+        mocks: { type: 'array', items: { $ref: '#/$defs/routeMock' } }
+      },
+      additionalProperties: false
+    },
+    suite: {
+      type: 'object',
+      required: ['name', 'cases'],
+      properties: {
+        name: nonEmptyString,
+        beforeAll: { type: 'array', items: { $ref: '#/$defs/step' } },
+        beforeEach: { type: 'array', items: { $ref: '#/$defs/step' } },
+        afterEach: { type: 'array', items: { $ref: '#/$defs/step' } },
+        afterAll: { type: 'array', items: { $ref: '#/$defs/step' } },
+        cases: { type: 'array', minItems: 1, items: { $ref: '#/$defs/testCase' } },
+        screenshot_on_failure: { type: 'boolean' },
+        variables: templateVariables,
+        retry: { $ref: '#/$defs/retryPolicy' },
+        mocks: { type: 'array', items: { $ref: '#/$defs/routeMock' } }
+      },
+      additionalProperties: false
+    },
+    retryPolicy: {
+      type: 'object',
+      description: 'Retries for failed steps and assertions; unset fields fall back to the case, then the suite',
+      properties: {
+        retries: { type: 'integer', minimum: 0, maximum: MAX_RETRIES },
+        backoff_ms: timeoutMs,
+        backoff_factor: { type: 'number', minimum: 1 },
+        max_backoff_ms: timeoutMs,
+        retry_on: { type: 'array', items: { enum: RETRY_ERROR_TYPES } }
+      },
+      additionalProperties: false
+    },
+    routeMock: {
+      type: 'object',
+      description: 'Answers matching browser requests with a stubbed response, a delay or a network error',
+      required: ['url'],
+      properties: {
+        url: { ...nonEmptyString, description: 'Glob matched against the full request URL, or a /regex/' },
+        method: { type: ['string', 'array'], items: nonEmptyString, description: 'Methods to intercept, default all' },
+        status: { type: 'integer', minimum: 100, maximum: 599 },
+        headers: { type: 'object', additionalProperties: { type: 'string' } },
+        body: { description: 'Text is sent as is; any other JSON value is sent as JSON' },
+        fixture: { ...nonEmptyString, description: 'Name of a fixture uploaded to /mocks/fixtures' },
+        delay_ms: { type: 'number', minimum: 0, maximum: MAX_MOCK_DELAY_MS },
+        abort: { enum: [true, false, ...MOCK_ABORT_CODES], description: 'Fail the request with a network error; true means "failed"' },
+        times: { type: 'integer', minimum: 1 }
+      },
+      additionalProperties: false
+    }
+  }
+};
+
+export const AGENTIC_TEST_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'urn:playwright-worker:agentic-test',
+  title: 'Agentic test',
+  type: 'object',
+  required: ['goal', 'success_criteria'],
+  properties: {
+    goal: nonEmptyString,
+    context: { type: 'string' },
+    success_criteria: { type: 'array', minItems: 1, items: nonEmptyString },
+    max_attempts: { type: 'integer', minimum: 1 },
+    max_steps: { type: 'integer', minimum: 1 },
+    timeout_ms: timeoutMs,
+    script: {
+      type: 'object',
+      description: 'Deterministic plans for the scripted provider',
+      required: ['plans'],
+      properties: {
+        plans: { type: 'array', items: { type: 'array', items: { $ref: '#/$defs/action' } } },
+        criteria_text: { type: 'object', additionalProperties: { type: 'string' } }
+      },
+      additionalProperties: false
+    }
+  },
+  additionalProperties: false,
+  $defs: {
+    action: {
+      type: 'object',
+      required: ['type', 'params'],
+      properties: {
+        type: { enum: AGENTIC_ACTION_TYPES },
+        description: { type: 'string' },
+        params: { type: 'object' }
+      },
+      additionalProperties: false
+    }
+  }
+};
+
+export function instructionSchema(testType: 'traditional' | 'agentic'): JsonSchema {
+  return testType === 'traditional' ? TRADITIONAL_TEST_SCHEMA : AGENTIC_TEST_SCHEMA;
+}
+
+/**
+ * Validates stored instructions (a JSON string or an already parsed value).
+ * Returns every problem found; an empty list means the instructions are valid.
+ */
+export function validateInstructions(testType: 'traditional' | 'agentic', instructions: unknown): InstructionError[] {
+  let value = instructions;
+  if (typeof instructions === 'string') {
+    try {
+      value = JSON.parse(instructions);
+    } catch (error) {
+      return [{ path: '', message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }];
+    }
+  }
+
+  const schema = instructionSchema(testType);
+  return validateSchema(value, schema, schema);
+}
+
+export function validateSchema(value: unknown, schema: JsonSchema, root: JsonSchema, path = ''): InstructionError[] {
+  if (schema.$ref) {
+    return validateSchema(value, resolveRef(schema.$ref, root), root, path);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [{ path, message: `must be ${types.join(' or ')}` }];
+    }
+  }
+
+  const errors: InstructionError[] = [];
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, root, `${path}/${index}`)));
+    }
+  }
+
+  if (isObject(value)) {
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined) {
+        errors.push({ path: `${path}/${escapePointer(name)}`, message: 'is required' });
+      }
+    }
+
+    const properties = schema.properties ?? {};
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertyPath = `${path}/${escapePointer(name)}`;
+      if (properties[name]) {
+        errors.push(...validateSchema(propertyValue, properties[name], root, propertyPath));
+      } else if (schema.additionalProperties === false) {
+        const suggestion = closestName(name, Object.keys(properties));
+        errors.push({ path: propertyPath, message: `is not allowed${suggestion ? `; did you mean "${suggestion}"?` : ''}` });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(propertyValue, schema.additionalProperties, root, propertyPath));
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    errors.push(...validateSchema(value, subschema, root, path));
+  }
+
+  if (schema.if) {
+    const branch = validateSchema(value, schema.if, root, path).length === 0 ? schema.then : schema.else;
+    if (branch) {
+      errors.push(...validateSchema(value, branch, root, path));
+    }
+  }
+
+  return errors;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const match = ref.match(/^#\/\$defs\/(.+)$/);
+  const target = match ? root.$defs?.[match[1]] : undefined;
+  if (!target) {
+    throw new Error(`Unresolvable schema reference ${ref}`);
+  }
+  return target;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case 'object': return isObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// Suggests a known property for a likely typo (edit distance of at most 2)
+function closestName(name: string, candidates: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -1,5 +1,5 @@
 import { DatabaseService } from './database';
-import { ActionLog } from './types';
+import { ActionLog, InterceptedRequest, TestResult } from './types';
 
 export class Logger {
   private db: DatabaseService;
@@ -31,12 +31,12 @@ export class Logger {
 
     await this.db.logAction(log);
 
-    // Also log to console for immediate visibility
+    // Also log to console for immediate visibility, scrubbed like the stored row
     const logLevel = error ? 'error' : 'info';
     console[logLevel](`[${this.sessionId}] ${actionType}:`, {
-      data: actionData,
-      result: result,
-      error: error,
+      data: this.db.redact(log.action_data),
+      result: this.db.redact(log.result),
+      error: this.db.redact(log.error),
       executionTime: executionTimeMs
     });
   }
@@ -65,10 +65,20 @@ export class Logger {
     await this.logAction('test_start', { testName });
   }
 
-  async logTestEnd(testName: string, status: 'passed' | 'failed' | 'skipped', executionTimeMs?: number): Promise<void> {
+  async logTestEnd(testName: string, status: TestResult['status'], executionTimeMs?: number): Promise<void> {
     await this.logAction('test_end', { testName, status }, undefined, undefined, executionTimeMs);
   }
 
+  // Written before each retry; the failed attempt itself is logged by its action
+  async logRetry(testName: string, details: { attempt: number; max_attempts: number; error_type: string; error: string; delay_ms: number }): Promise<void> {
+    await this.logAction('retry', { testName, ...details });
+  }
+
+  // One per request a route mock fulfilled or aborted
+  async logMockRequest(request: InterceptedRequest): Promise<void> {
+    await this.logAction('mock_request', request);
+  }
+
   async logSessionStart(url: string, testType: string): Promise<void> {
     await this.logAction('session_start', { url, testType });
   }
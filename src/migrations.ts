@@ -0,0 +1,307 @@
+// Migration files are bundled as text modules (see the Text rule in wrangler.toml)
+import m0001 from '../migrations/0001_initial.sql';
+import m0002 from '../migrations/0002_configs.sql';
+import m0003 from '../migrations/0003_agent_provider.sql';
+import m0004 from '../migrations/0004_artifacts.sql';
+import m0005 from '../migrations/0005_schedules.sql';
+import m0006 from '../migrations/0006_secrets.sql';
+import m0007 from '../migrations/0007_visual_baselines.sql';
+import m0008 from '../migrations/0008_notifications.sql';
+import m0009 from '../migrations/0009_api_keys.sql';
+import m0010 from '../migrations/0010_config_revisions.sql';
+import m0011 from '../migrations/0011_url_matching.sql';
+import m0012 from '../migrations/0012_list_indexes.sql';
+import m0013 from '../migrations/0013_flaky_results.sql';
+import m0014 from '../migrations/0014_mock_fixtures.sql';
+import m0015 from '../migrations/0015_delivery_recipients.sql';
+
+export interface Migration {
+  version: number;
+  // File name without `.sql`, e.g. `0004_artifacts`
+  name: string;
+  statements: string[];
+}
+
+// Every file in migrations/, in order. A new migration must be added here too.
+export const MIGRATIONS: Migration[] = [
+  ['0001_initial', m0001],
+  ['0002_configs', m0002],
+  ['0003_agent_provider', m0003],
+  ['0004_artifacts', m0004],
+  ['0005_schedules', m0005],
+  ['0006_secrets', m0006],
+  ['0007_visual_baselines', m0007],
+  ['0008_notifications', m0008],
+  ['0009_api_keys', m0009],
+  ['0010_config_revisions', m0010],
+  ['0011_url_matching', m0011],
+  ['0012_list_indexes', m0012],
+  ['0013_flaky_results', m0013],
+  ['0014_mock_fixtures', m0014],
+  ['0015_delivery_recipients', m0015]
+].map(([name, sql]) => ({ version: parseInt(name, 10), name, statements: splitSqlStatements(sql) }));
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+// Already applied before this runner tracked it: recorded by wrangler, or present in the live schema
+export interface AdoptedMigration {
+  version: number;
+  name: string;
+  source: 'd1_migrations' | 'schema';
+}
+
+export interface MigrationStatus {
+  current_version: number;
+  latest_version: number;
+  applied: AppliedMigration[];
+  adopted: AdoptedMigration[];
+  pending: Array<{ version: number; name: string }>;
+  // Live schema compared with what the applied migrations produce
+  drift: SchemaDrift;
+}
+
+export interface MigrationRun {
+  dry_run: boolean;
+  adopted: AdoptedMigration[];
+  // Migrations run (or, for a dry run, that would run) with their statements
+  applied: Migration[];
+  current_version: number;
+  drift: SchemaDrift;
+}
+
+// Bookkeeping tables that no migration creates: ours, wrangler's and D1's internal ones
+export function isBookkeepingTable(name: string): boolean {
+  return name === 'schema_migrations' || name === 'd1_migrations' || name.startsWith('_cf_') || name.startsWith('sqlite_');
+}
+
+/**
+ * Splits a migration file into statements, dropping comments. Semicolons inside
+ * string literals and quoted identifiers are kept; trigger bodies are not supported.
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+      continue;
+    }
+    if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      current += ' ';
+      continue;
+    }
+    if (char === "'" || char === '"' || char === '`') {
+      // A doubled quote is an escaped quote and keeps the literal open
+      let end = i + 1;
+      while (end < sql.length && !(sql[end] === char && sql[end + 1] !== char)) {
+        end += sql[end] === char ? 2 : 1;
+      }
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+    if (char === ';') {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      i++;
+      continue;
+    }
+
+    current += char;
+    i++;
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+export interface ExpectedTable {
+  name: string;
+  // Column name → declared type, in table order
+  columns: Map<string, string>;
+  indexes: Set<string>;
+}
+
+// Tables, columns and indexes the given migrations produce, worked out from their DDL
+export function expectedSchema(migrations: Migration[]): Map<string, ExpectedTable> {
+  const tables = new Map<string, ExpectedTable>();
+  const indexTable = new Map<string, string>();
+
+  for (const statement of migrations.flatMap(migration => migration.statements)) {
+    let match: RegExpMatchArray | null;
+
+    if ((match = statement.match(/^CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?["`]?(\w+)["`]?\s*\(([\s\S]*)\)[\s\w,]*$/i))) {
+      if (tables.has(match[1])) continue;
+      const columns = new Map<string, string>();
+      for (const definition of splitTopLevel(match[2])) {
+        if (/^(CONSTRAINT|PRIMARY\s+KEY|UNIQUE|CHECK|FOREIGN\s+KEY)\b/i.test(definition)) continue;
+        const column = parseColumn(definition);
+        if (column) columns.set(column.name, column.type);
+      }
+      tables.set(match[1], { name: match[1], columns, indexes: new Set() });
+    } else if ((match = statement.match(/^ALTER\s+TABLE\s+(\w+)\s+ADD\s+(?:COLUMN\s+)?([\s\S]+)$/i))) {
+      const column = parseColumn(match[2]);
+      if (column) tables.get(match[1])?.columns.set(column.name, column.type);
+    } else if ((match = statement.match(/^ALTER\s+TABLE\s+(\w+)\s+DROP\s+(?:COLUMN\s+)?(\w+)$/i))) {
+      tables.get(match[1])?.columns.delete(match[2]);
+    } else if ((match = statement.match(/^ALTER\s+TABLE\s+(\w+)\s+RENAME\s+TO\s+(\w+)$/i))) {
+      const table = tables.get(match[1]);
+      if (!table) continue;
+      tables.delete(match[1]);
+      tables.set(match[2], { ...table, name: match[2] });
+      for (const index of table.indexes) indexTable.set(index, match[2]);
+    } else if ((match = statement.match(/^ALTER\s+TABLE\s+(\w+)\s+RENAME\s+(?:COLUMN\s+)?(\w+)\s+TO\s+(\w+)$/i))) {
+      const [, tableName, from, to] = match;
+      const table = tables.get(tableName);
+      if (!table?.columns.has(from)) continue;
+      table.columns = new Map([...table.columns].map(([name, type]) => [name === from ? to : name, type]));
+    } else if ((match = statement.match(/^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?(\w+)$/i))) {
+      for (const index of tables.get(match[1])?.indexes ?? []) indexTable.delete(index);
+      tables.delete(match[1]);
+    } else if ((match = statement.match(/^CREATE\s+(?:UNIQUE\s+)?INDEX\s+(?:IF\s+NOT\s+EXISTS\s+)?(\w+)\s+ON\s+(\w+)/i))) {
+      tables.get(match[2])?.indexes.add(match[1]);
+      indexTable.set(match[1], match[2]);
+    } else if ((match = statement.match(/^DROP\s+INDEX\s+(?:IF\s+EXISTS\s+)?(\w+)$/i))) {
+      tables.get(indexTable.get(match[1]) ?? '')?.indexes.delete(match[1]);
+      indexTable.delete(match[1]);
+    }
+  }
+
+  return tables;
+}
+
+// The parts of getSchemaOverview() that drift detection compares
+export interface LiveTable {
+  name: string;
+  columns: Array<{ name: string; type: string }>;
+  indexes: Array<{ name: string }>;
+}
+
+export interface SchemaDrift {
+  in_sync: boolean;
+  missing_tables: string[];
+  unexpected_tables: string[];
+  missing_columns: Array<{ table: string; column: string; type: string }>;
+  unexpected_columns: Array<{ table: string; column: string; type: string }>;
+  type_mismatches: Array<{ table: string; column: string; expected: string; actual: string }>;
+  missing_indexes: Array<{ table: string; index: string }>;
+  unexpected_indexes: Array<{ table: string; index: string }>;
+}
+
+export function diffSchema(expected: Map<string, ExpectedTable>, live: LiveTable[]): SchemaDrift {
+  const drift: SchemaDrift = {
+    in_sync: true,
+    missing_tables: [],
+    unexpected_tables: [],
+    missing_columns: [],
+    unexpected_columns: [],
+    type_mismatches: [],
+    missing_indexes: [],
+    unexpected_indexes: []
+  };
+
+  const liveTables = new Map(live.filter(table => !isBookkeepingTable(table.name)).map(table => [table.name, table]));
+
+  for (const table of expected.values()) {
+    const actual = liveTables.get(table.name);
+    if (!actual) {
+      drift.missing_tables.push(table.name);
+      continue;
+    }
+
+    const actualColumns = new Map(actual.columns.map(column => [column.name, column.type]));
+    for (const [column, type] of table.columns) {
+      const actualType = actualColumns.get(column);
+      if (actualType === undefined) {
+        drift.missing_columns.push({ table: table.name, column, type });
+      } else if (actualType.toUpperCase() !== type.toUpperCase()) {
+        drift.type_mismatches.push({ table: table.name, column, expected: type, actual: actualType });
+      }
+    }
+    for (const [column, type] of actualColumns) {
+      if (!table.columns.has(column)) drift.unexpected_columns.push({ table: table.name, column, type });
+    }
+
+    // SQLite names the indexes behind UNIQUE and PRIMARY KEY constraints sqlite_autoindex_*
+    const actualIndexes = new Set(actual.indexes.map(index => index.name).filter(name => !name.startsWith('sqlite_')));
+    for (const index of table.indexes) {
+      if (!actualIndexes.has(index)) drift.missing_indexes.push({ table: table.name, index });
+    }
+    for (const index of actualIndexes) {
+      if (!table.indexes.has(index)) drift.unexpected_indexes.push({ table: table.name, index });
+    }
+  }
+
+  for (const name of liveTables.keys()) {
+    if (!expected.has(name)) drift.unexpected_tables.push(name);
+  }
+
+  drift.in_sync = [
+    drift.missing_tables, drift.unexpected_tables, drift.missing_columns, drift.unexpected_columns,
+    drift.type_mismatches, drift.missing_indexes, drift.unexpected_indexes
+  ].every(list => list.length === 0);
+  return drift;
+}
+
+/**
+ * The newest version whose schema the live database already contains, for
+ * adopting a database that was set up without any migration tracking.
+ * Migrations that only insert data count as applied when their schema is.
+ */
+export function satisfiedVersion(live: LiveTable[]): number {
+  for (let count = MIGRATIONS.length; count > 0; count--) {
+    const drift = diffSchema(expectedSchema(MIGRATIONS.slice(0, count)), live);
+    if (!drift.missing_tables.length && !drift.missing_columns.length && !drift.missing_indexes.length) {
+      return MIGRATIONS[count - 1].version;
+    }
+  }
+  return 0;
+}
+
+// Splits a column list on commas outside parentheses and quotes
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of body) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+const COLUMN_CONSTRAINT = /^(PRIMARY|NOT|NULL|DEFAULT|CHECK|UNIQUE|REFERENCES|COLLATE|GENERATED|AS|CONSTRAINT)$/i;
+
+// `name TYPE constraints…` → name and declared type ('' when the column has none)
+function parseColumn(definition: string): { name: string; type: string } | null {
+  const match = definition.match(/^["`]?(\w+)["`]?(?:\s+([A-Za-z]+(?:\s*\([^)]*\))?))?/);
+  if (!match) return null;
+  const type = match[2] && !COLUMN_CONSTRAINT.test(match[2]) ? match[2] : '';
+  return { name: match[1], type };
+}
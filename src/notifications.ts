@@ -0,0 +1,290 @@
+import { EmailMessage } from 'cloudflare:email';
+import { DatabaseService } from './database';
+import { SecretCipher, SecretVault } from './secrets';
+import type { NotificationChannel, NotificationDelivery, NotificationRule, TestSession } from './types';
+
+// First attempt plus three retries, 1, 5 and 30 minutes apart
+export const MAX_DELIVERY_ATTEMPTS = 4;
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000];
+
+export const NOTIFICATION_CHANNEL_TYPES = ['webhook', 'slack', 'email'] as const;
+export const NOTIFICATION_RULES: NotificationRule[] = ['always', 'failure', 'recovery'];
+
+export interface SessionNotification {
+  event: string;
+  session: Pick<TestSession, 'id' | 'url' | 'test_type' | 'status' | 'config_id' | 'trigger' | 'start_time' | 'end_time' | 'error_summary'>;
+  config_name?: string;
+  // `flaky` counts results that passed only after a retry; they are not included in `passed`
+  summary: { passed: number; failed: number; skipped: number; flaky?: number };
+  // Present when PUBLIC_BASE_URL is configured
+  links?: { session: string; report: string };
+}
+
+/**
+ * Returns why a channel with `rule` should fire for a session that finished
+ * with `status`, or null when it should stay quiet. Recovery compares with the
+ * previous finished run of the same configuration.
+ */
+export function notificationEvent(
+  rule: NotificationRule,
+  status: TestSession['status'],
+  previousStatus: TestSession['status'] | null
+): string | null {
+  if (status === 'running') return null;
+  switch (rule) {
+    case 'always': return status;
+    case 'failure': return status === 'failed' ? 'failure' : null;
+    case 'recovery': return status === 'completed' && previousStatus === 'failed' ? 'recovery' : null;
+  }
+}
+
+// GitHub-style `sha256=<hex>` HMAC of the exact request body
+export async function signPayload(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body)));
+  return `sha256=${[...signature].map(byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function headline(notification: SessionNotification): string {
+  const { session, event } = notification;
+  const subject = notification.config_name ?? `${session.test_type} test of ${session.url}`;
+  const outcome = event === 'recovery' ? 'recovered' : session.status;
+  return `${subject} ${outcome}`;
+}
+
+function summaryLine({ summary }: SessionNotification): string {
+  return `${summary.passed} passed${summary.flaky ? `, ${summary.flaky} flaky` : ''}, ${summary.failed} failed, ${summary.skipped} skipped`;
+}
+
+// Incoming-webhook payload understood by Slack and compatible chat tools (Mattermost, Rocket.Chat)
+export function buildSlackMessage(notification: SessionNotification): { text: string } {
+  const icon = notification.session.status === 'completed' ? ':white_check_mark:' : notification.session.status === 'failed' ? ':x:' : ':no_entry_sign:';
+  const lines = [
+    `${icon} *${headline(notification)}*`,
+    `${notification.session.url} · ${summaryLine(notification)}`
+  ];
+  if (notification.session.error_summary) {
+    lines.push(`> ${notification.session.error_summary}`);
+  }
+  if (notification.links) {
+    lines.push(`<${notification.links.session}|View session ${notification.session.id}>`);
+  }
+  return { text: lines.join('\n') };
+}
+
+// Plain-text MIME message for the send_email binding
+export function buildEmail(notification: SessionNotification, from: string, to: string): string {
+  const body = [
+    headline(notification),
+    '',
+    `URL: ${notification.session.url}`,
+    `Session: ${notification.session.id}`,
+    `Results: ${summaryLine(notification)}`,
+    ...(notification.session.error_summary ? [`Error: ${notification.session.error_summary}`] : []),
+    ...(notification.links ? ['', `View session: ${notification.links.session}`, `JUnit report: ${notification.links.report}`] : [])
+  ].join('\r\n');
+
+  const domain = from.split('@')[1] ?? 'localhost';
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: =?UTF-8?B?${base64Utf8(`[Playwright] ${headline(notification)}`)}?=`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Utf8(body).replace(/.{76}/g, '$&\r\n')
+  ].join('\r\n');
+}
+
+function splitAddresses(list: string): string[] {
+  return list.split(',').map(address => address.trim()).filter(Boolean);
+}
+
+function base64Utf8(text: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+}
+
+class DeliveryError extends Error {
+  constructor(message: string, readonly responseStatus?: number) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+/**
+ * Sends finished-session notifications to the matching channels and records
+ * every delivery. Failed attempts are rescheduled with backoff and retried by
+ * `retryDueDeliveries` from the cron handler.
+ */
+export class NotificationService {
+  private env: Env;
+  private db: DatabaseService;
+  private fetcher: typeof fetch;
+
+  // The default calls the global fetch unbound; Workers reject it when invoked as a method
+  constructor(env: Env, db: DatabaseService, fetcher: typeof fetch = (input, init) => fetch(input, init)) {
+    this.env = env;
+    this.db = db;
+    this.fetcher = fetcher;
+  }
+
+  async notifySessionFinished(sessionId: string): Promise<void> {
+    const session = await this.db.getTestSession(sessionId);
+    if (!session || session.status === 'running') return;
+
+    const channels = await this.db.getNotificationChannelsForConfig(session.config_id);
+    if (channels.length === 0) return;
+
+    const previousStatus = channels.some(channel => channel.rule === 'recovery')
+      ? await this.db.getPreviousSessionStatus(session)
+      : null;
+
+    for (const channel of channels) {
+      const event = notificationEvent(channel.rule, session.status, previousStatus);
+      if (!event) continue;
+
+      const id = await this.db.createNotificationDelivery({ channel_id: channel.id!, session_id: session.id, event });
+      if (id === null) continue;
+
+      await this.attempt({ id, channel_id: channel.id!, session_id: session.id, event, status: 'pending', attempts: 0 }, channel, session);
+    }
+  }
+
+  // Returns the number of deliveries attempted
+  async retryDueDeliveries(now: Date = new Date()): Promise<number> {
+    const due = await this.db.getDueNotificationDeliveries(now.toISOString());
+
+    for (const delivery of due) {
+      const channel = await this.db.getNotificationChannel(delivery.channel_id);
+      const session = await this.db.getTestSession(delivery.session_id);
+      if (!channel || !channel.enabled || !session) {
+        await this.db.updateNotificationDelivery(delivery.id!, {
+          status: 'failed',
+          next_attempt_at: null,
+          last_error: channel && !channel.enabled ? 'Channel disabled' : 'Channel or session no longer exists'
+        });
+        continue;
+      }
+      await this.attempt(delivery, channel, session);
+    }
+
+    return due.length;
+  }
+
+  private async attempt(delivery: NotificationDelivery, channel: NotificationChannel, session: TestSession): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    try {
+      const responseStatus = await this.send(channel, delivery, await this.buildNotification(session, delivery.event));
+      await this.db.updateNotificationDelivery(delivery.id!, {
+        status: 'delivered',
+        attempts,
+        response_status: responseStatus,
+        last_error: null,
+        next_attempt_at: null,
+        delivered_at: new Date().toISOString()
+      });
+    } catch (error) {
+      const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+      await this.db.updateNotificationDelivery(delivery.id!, {
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        response_status: error instanceof DeliveryError ? error.responseStatus : null,
+        last_error: error instanceof Error ? error.message : String(error),
+        next_attempt_at: exhausted ? null : new Date(Date.now() + RETRY_DELAYS_MS[attempts - 1]).toISOString()
+      });
+    }
+  }
+
+  private async buildNotification(session: TestSession, event: string): Promise<SessionNotification> {
+    const stats = await this.db.getSessionStats(session.id);
+    const config = session.config_id ? await this.db.getSystemInstructionById(session.config_id) : null;
+    const baseUrl = this.env.PUBLIC_BASE_URL?.replace(/\/+$/, '');
+
+    return {
+      event,
+      session: {
+        id: session.id,
+        url: session.url,
+        test_type: session.test_type,
+        status: session.status,
+        config_id: session.config_id,
+        trigger: session.trigger,
+        start_time: session.start_time,
+        end_time: session.end_time,
+        error_summary: session.error_summary
+      },
+      config_name: config?.name,
+      summary: stats.test_results_summary,
+      links: baseUrl
+        ? {
+          session: `${baseUrl}/sessions.html?sessionId=${encodeURIComponent(session.id)}`,
+          report: `${baseUrl}/session/results?sessionId=${encodeURIComponent(session.id)}&format=junit`
+        }
+        : undefined
+    };
+  }
+
+  // Returns the HTTP status for webhook deliveries
+  private async send(channel: NotificationChannel, delivery: NotificationDelivery, notification: SessionNotification): Promise<number | null> {
+    switch (channel.type) {
+      case 'webhook': {
+        const body = JSON.stringify(notification);
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          'X-Playwright-Event': notification.event
+        };
+        if (channel.secret_name) {
+          headers['X-Playwright-Signature-256'] = await signPayload(await this.signingSecret(channel.secret_name), body);
+        }
+        return await this.post(channel.target, body, headers);
+      }
+
+      case 'slack':
+        return await this.post(channel.target, JSON.stringify(buildSlackMessage(notification)), { 'Content-Type': 'application/json' });
+
+      case 'email': {
+        if (!this.env.NOTIFY_EMAIL || !this.env.NOTIFY_EMAIL_FROM) {
+          throw new Error('Email notifications need the NOTIFY_EMAIL binding and NOTIFY_EMAIL_FROM');
+        }
+        // Each recipient is recorded once sent, so a retry only mails the ones that failed
+        const sent = new Set(splitAddresses(delivery.delivered_to ?? ''));
+        const failed: string[] = [];
+        for (const to of splitAddresses(channel.target)) {
+          if (sent.has(to)) continue;
+          try {
+            const raw = buildEmail(notification, this.env.NOTIFY_EMAIL_FROM, to);
+            await this.env.NOTIFY_EMAIL.send(new EmailMessage(this.env.NOTIFY_EMAIL_FROM, to, raw));
+          } catch (error) {
+            failed.push(`${to}: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+          }
+          sent.add(to);
+          await this.db.updateNotificationDelivery(delivery.id!, { delivered_to: [...sent].join(',') });
+        }
+        if (failed.length > 0) {
+          throw new Error(`Email not sent to ${failed.join('; ')}`);
+        }
+        return null;
+      }
+    }
+  }
+
+  private async post(url: string, body: string, headers: Record<string, string>): Promise<number> {
+    const response = await this.fetcher(url, { method: 'POST', headers, body });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new DeliveryError(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`, response.status);
+    }
+    return response.status;
+  }
+
+  private async signingSecret(name: string): Promise<string> {
+    const vault = await SecretVault.load(this.db, this.env.SECRETS_KEY ? SecretCipher.fromEnv(this.env) : null, [name]);
+    return vault.resolve(`{{secret:${name}}}`);
+  }
+}
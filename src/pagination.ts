@@ -0,0 +1,168 @@
+import type { ConfigListQuery, ConfigSort, ListCursor, SessionListQuery, SessionSort, TestSession } from './types';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export const SESSION_STATUSES: TestSession['status'][] = ['running', 'completed', 'failed', 'cancelled'];
+const SESSION_SORTS: SessionSort[] = ['start_time', 'url', 'status'];
+const CONFIG_SORTS: ConfigSort[] = ['created_at', 'updated_at', 'name', 'priority'];
+
+type ParseResult<Q> = Q | { error: string };
+
+/**
+ * Query for `/session/list`: `status` (comma-separated), `test_type`, `config_id`,
+ * `url` (substring), `from`/`to` (start time), plus the paging parameters.
+ */
+export function parseSessionListQuery(params: URLSearchParams): ParseResult<SessionListQuery> {
+  const paging = parsePaging(params, SESSION_SORTS, 'start_time');
+  if ('error' in paging) return paging;
+
+  const filters: SessionListQuery['filters'] = {};
+
+  const status = params.get('status');
+  if (status) {
+    const statuses = status.split(',').map(value => value.trim()).filter(Boolean);
+    if (!statuses.every(value => (SESSION_STATUSES as string[]).includes(value))) {
+      return { error: `status must be one or more of ${SESSION_STATUSES.join(', ')}` };
+    }
+    filters.status = statuses as TestSession['status'][];
+  }
+
+  const testType = parseTestType(params);
+  if (typeof testType === 'object') return testType;
+  if (testType) filters.test_type = testType;
+
+  const configId = params.get('config_id');
+  if (configId) {
+    if (!/^\d+$/.test(configId)) return { error: 'config_id must be a positive integer' };
+    filters.config_id = Number(configId);
+  }
+
+  const url = params.get('url');
+  if (url) filters.url = url;
+
+  const range = parseDateRange(params);
+  if ('error' in range) return range;
+
+  return { ...paging, filters: { ...filters, ...range } };
+}
+
+/**
+ * Query for `/config/list`: `status` (`active`, the default, `inactive` or `all`),
+ * `test_type`, `url` (substring of the pattern), `from`/`to` (last update),
+ * plus the paging parameters.
+ */
+export function parseConfigListQuery(params: URLSearchParams): ParseResult<ConfigListQuery> {
+  const paging = parsePaging(params, CONFIG_SORTS, 'created_at');
+  if ('error' in paging) return paging;
+
+  const filters: ConfigListQuery['filters'] = {};
+
+  const status = params.get('status') || 'active';
+  if (status !== 'active' && status !== 'inactive' && status !== 'all') {
+    return { error: 'status must be active, inactive or all' };
+  }
+  if (status !== 'all') filters.is_active = status === 'active';
+
+  const testType = parseTestType(params);
+  if (typeof testType === 'object') return testType;
+  if (testType) filters.test_type = testType;
+
+  const url = params.get('url');
+  if (url) filters.url = url;
+
+  const range = parseDateRange(params);
+  if ('error' in range) return range;
+
+  return { ...paging, filters: { ...filters, ...range } };
+}
+
+// Opaque `?cursor=` value pointing after `row`; it is only valid for the same sort and order
+export function encodeCursor(query: { sort: string; order: string }, row: Record<string, unknown>): string {
+  const json = JSON.stringify([query.sort, query.order, row[query.sort], row.id]);
+  return toBase64Url(new TextEncoder().encode(json));
+}
+
+export function decodeCursor(cursor: string, sort: string, order: string): ListCursor | null {
+  try {
+    const [cursorSort, cursorOrder, value, id] = JSON.parse(new TextDecoder().decode(fromBase64Url(cursor)));
+    const isKey = (key: unknown) => typeof key === 'string' || typeof key === 'number';
+    if (cursorSort !== sort || cursorOrder !== order || !isKey(value) || !isKey(id)) return null;
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+// `sort`, `order` (asc or desc, default desc), `limit` and `cursor`
+function parsePaging<Sort extends string>(
+  params: URLSearchParams,
+  sorts: Sort[],
+  defaultSort: Sort
+): ParseResult<{ sort: Sort; order: 'asc' | 'desc'; limit: number; cursor: ListCursor | null }> {
+  const sort = (params.get('sort') || defaultSort) as Sort;
+  if (!sorts.includes(sort)) {
+    return { error: `sort must be one of ${sorts.join(', ')}` };
+  }
+
+  const order = params.get('order') || 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'order must be asc or desc' };
+  }
+
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const cursorParam = params.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam, sort, order) : null;
+  if (cursorParam && !cursor) {
+    return { error: 'cursor is invalid or was issued for a different sort order' };
+  }
+
+  return { sort, order, limit, cursor };
+}
+
+function parseTestType(params: URLSearchParams): 'traditional' | 'agentic' | undefined | { error: string } {
+  const testType = params.get('test_type');
+  if (!testType) return undefined;
+  if (testType !== 'traditional' && testType !== 'agentic') {
+    return { error: 'test_type must be traditional or agentic' };
+  }
+  return testType;
+}
+
+// A date without a time covers that whole day, so `to=2025-01-31` includes January 31st
+function parseDateRange(params: URLSearchParams): ParseResult<{ from?: string; to?: string }> {
+  const range: { from?: string; to?: string } = {};
+  for (const bound of ['from', 'to'] as const) {
+    const value = params.get(bound);
+    if (!value) continue;
+
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    let time = Date.parse(dateOnly ? `${value}T00:00:00Z` : value);
+    if (Number.isNaN(time)) {
+      return { error: `${bound} must be an ISO 8601 date or date-time` };
+    }
+    if (dateOnly && bound === 'to') time += 24 * 60 * 60 * 1000;
+
+    // Stored timestamps use SQLite's CURRENT_TIMESTAMP format, which compares correctly as text
+    range[bound] = new Date(time).toISOString().slice(0, 19).replace('T', ' ');
+  }
+
+  if (range.from && range.to && range.from >= range.to) {
+    return { error: 'from must be before to' };
+  }
+  return range;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
@@ -2,9 +2,21 @@ import playwright, {
   Browser,
   BrowserContext,
   BrowserEndpoint,
+  Locator,
   Page,
+  Route,
 } from '@cloudflare/playwright';
-import type { PlaywrightAutomationClient } from './types';
+import { Buffer } from 'node:buffer';
+import type {
+  InterceptedRequest,
+  PlaywrightAutomationClient,
+  RouteMockHandler,
+  ScreenshotOptions,
+  UploadFile,
+  WaitForState
+} from './types';
+
+const QUERY_TIMEOUT_MS = 2_000;
 
 /**
  * Lightweight wrapper around the Cloudflare Playwright binding that exposes
@@ -43,14 +55,11 @@ export class PlaywrightClient implements PlaywrightAutomationClient {
     return this.pagePromise;
   }
 
+  // Failures leave the page open: assertion probes are retried against it and
+  // the executors dispose the client once the run is over.
   private async runWithPage<T>(action: (page: Page) => Promise<T>): Promise<T> {
     const page = await this.getPage();
-    try {
-      return await action(page);
-    } catch (error) {
-      await this.dispose();
-      throw error;
-    }
+    return await action(page);
   }
 
   async navigate(url: string): Promise<void> {
@@ -75,9 +84,70 @@ export class PlaywrightClient implements PlaywrightAutomationClient {
     });
   }
 
-  async takeScreenshot(): Promise<string> {
+  async count(selector: string): Promise<number> {
+    return await this.runWithPage(page => page.locator(selector).count());
+  }
+
+  async isVisible(selector: string): Promise<boolean> {
+    return await this.runWithPage(page => page.locator(selector).first().isVisible());
+  }
+
+  async innerText(selector: string): Promise<string | null> {
+    return await this.queryFirst(selector, locator => locator.innerText({ timeout: QUERY_TIMEOUT_MS }));
+  }
+
+  async inputValue(selector: string): Promise<string | null> {
+    return await this.queryFirst(selector, locator => locator.inputValue({ timeout: QUERY_TIMEOUT_MS }));
+  }
+
+  async getAttribute(selector: string, name: string): Promise<string | null> {
+    return await this.queryFirst(selector, locator => locator.getAttribute(name, { timeout: QUERY_TIMEOUT_MS }));
+  }
+
+  async cssProperty(selector: string, property: string): Promise<string | null> {
+    return await this.queryFirst(selector, locator => locator.evaluate(
+      (element, name) => getComputedStyle(element).getPropertyValue(name),
+      property,
+      { timeout: QUERY_TIMEOUT_MS }
+    ));
+  }
+
+  async isEnabled(selector: string): Promise<boolean | null> {
+    return await this.queryFirst(selector, locator => locator.isEnabled({ timeout: QUERY_TIMEOUT_MS }));
+  }
+
+  async isChecked(selector: string): Promise<boolean | null> {
+    return await this.queryFirst(selector, locator => locator.isChecked({ timeout: QUERY_TIMEOUT_MS }));
+  }
+
+  async currentUrl(): Promise<string> {
+    return await this.runWithPage(async page => page.url());
+  }
+
+  async title(): Promise<string> {
+    return await this.runWithPage(page => page.title());
+  }
+
+  // Reads from the first match without Playwright's implicit wait, returning
+  // null when nothing matches so callers can decide how long to retry.
+  private async queryFirst<T>(selector: string, read: (locator: Locator) => Promise<T>): Promise<T | null> {
+    return await this.runWithPage(async page => {
+      const locator = page.locator(selector);
+      if (await locator.count() === 0) {
+        return null;
+      }
+      return await read(locator.first());
+    });
+  }
+
+  // Options are only passed by visual snapshots, which also need a stable frame
+  async takeScreenshot(options?: ScreenshotOptions): Promise<string> {
     return await this.runWithPage(async page => {
-      const screenshot = await page.screenshot({ type: 'png' });
+      const mask = options?.mask?.map(selector => page.locator(selector));
+      const animations = options ? 'disabled' as const : undefined;
+      const screenshot = options?.selector
+        ? await page.locator(options.selector).first().screenshot({ type: 'png', mask, animations })
+        : await page.screenshot({ type: 'png', fullPage: options?.full_page, mask, animations });
       const bytes = screenshot instanceof Uint8Array
         ? screenshot
         : new Uint8Array(screenshot as ArrayBuffer);
@@ -89,6 +159,135 @@ export class PlaywrightClient implements PlaywrightAutomationClient {
     return await this.runWithPage(page => page.content());
   }
 
+  async waitFor(selector: string, state: WaitForState, timeoutMs: number): Promise<void> {
+    await this.runWithPage(page => page.locator(selector).first().waitFor({ state, timeout: timeoutMs }));
+  }
+
+  // Accepts an exact URL, a glob such as "**/dashboard" or a "/regex/"; resolves with the matched URL.
+  async waitForUrl(url: string, timeoutMs: number): Promise<string> {
+    return await this.runWithPage(async page => {
+      await page.waitForURL(PlaywrightClient.urlMatcher(url), { timeout: timeoutMs });
+      return page.url();
+    });
+  }
+
+  async hover(selector: string): Promise<void> {
+    await this.runWithPage(page => page.hover(selector));
+  }
+
+  // Presses on the element when a selector is given, otherwise on whatever has focus.
+  async press(key: string, selector?: string): Promise<void> {
+    await this.runWithPage(page => selector ? page.press(selector, key) : page.keyboard.press(key));
+  }
+
+  async check(selector: string): Promise<void> {
+    await this.runWithPage(page => page.check(selector));
+  }
+
+  async uncheck(selector: string): Promise<void> {
+    await this.runWithPage(page => page.uncheck(selector));
+  }
+
+  async scrollIntoView(selector: string): Promise<void> {
+    await this.runWithPage(page => page.locator(selector).first().scrollIntoViewIfNeeded());
+  }
+
+  async goBack(): Promise<void> {
+    await this.runWithPage(async page => {
+      await page.goBack({ waitUntil: 'networkidle' });
+    });
+  }
+
+  async reload(): Promise<void> {
+    await this.runWithPage(async page => {
+      await page.reload({ waitUntil: 'networkidle' });
+    });
+  }
+
+  async uploadFile(selector: string, files: UploadFile[]): Promise<void> {
+    await this.runWithPage(page => page.setInputFiles(selector, files.map(file => ({
+      name: file.name,
+      mimeType: file.mime_type || 'application/octet-stream',
+      buffer: Buffer.from(file.content, 'base64')
+    }))));
+  }
+
+  // Playwright evaluates a string as an expression and calls it if it yields a function.
+  async evaluate(script: string, arg?: unknown): Promise<unknown> {
+    return await this.runWithPage(page => page.evaluate(script, arg));
+  }
+
+  // Requests the mock does not match by method, or that come after `times`, fall through to
+  // the next matching route and finally the network.
+  async mockRoute(
+    mock: RouteMockHandler,
+    scope: 'page' | 'context',
+    onIntercept: (request: InterceptedRequest) => void
+  ): Promise<void> {
+    let remaining = mock.times ?? Infinity;
+    const handler = async (route: Route) => {
+      const request = route.request();
+      if (remaining <= 0 || (mock.methods && !mock.methods.includes(request.method()))) {
+        await route.fallback();
+        return;
+      }
+      remaining--;
+
+      if (mock.delay_ms > 0) {
+        await new Promise(resolve => setTimeout(resolve, mock.delay_ms));
+      }
+      onIntercept({
+        mock: mock.url,
+        method: request.method(),
+        url: request.url(),
+        resource_type: request.resourceType(),
+        outcome: mock.abort ? 'aborted' : 'fulfilled',
+        status: mock.response?.status,
+        abort: mock.abort ?? undefined,
+        delay_ms: mock.delay_ms
+      });
+
+      // The page may have closed while the response was held back
+      try {
+        if (mock.abort) {
+          await route.abort(mock.abort);
+        } else if (mock.response) {
+          await route.fulfill({
+            status: mock.response.status,
+            headers: mock.response.headers,
+            body: Buffer.from(mock.response.body)
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to answer mocked request ${request.url()}`, error);
+      }
+    };
+
+    const matcher = PlaywrightClient.urlMatcher(mock.url);
+    if (scope === 'context') {
+      await (await this.getContext()).route(matcher, handler);
+    } else {
+      await this.runWithPage(page => page.route(matcher, handler));
+    }
+  }
+
+  // Swaps in a blank page on the same browser context; cookies and storage survive.
+  async newPage(): Promise<void> {
+    const previous = this.pagePromise;
+    this.pagePromise = null;
+
+    if (previous) {
+      try {
+        const page = await previous;
+        await page.close();
+      } catch (error) {
+        console.error('Failed to close Playwright page', error);
+      }
+    }
+
+    await this.getPage();
+  }
+
   async dispose(): Promise<void> {
     const pagePromise = this.pagePromise;
     const contextPromise = this.contextPromise;
@@ -126,6 +325,12 @@ export class PlaywrightClient implements PlaywrightAutomationClient {
     }
   }
 
+  // An exact URL or glob such as "**/dashboard" as is, or a "/regex/" as a RegExp
+  private static urlMatcher(url: string): string | RegExp {
+    const regex = url.match(/^\/(.+)\/([a-z]*)$/);
+    return regex ? new RegExp(regex[1], regex[2]) : url;
+  }
+
   private static bytesToBase64(bytes: Uint8Array): string {
     let binary = '';
     const chunkSize = 0x8000;
@@ -0,0 +1,329 @@
+import { isTraditionalTestSuite } from './traditional-test-executor';
+import type { RouteMock, TestAssertion, TestStep, TraditionalTestCase, TraditionalTestSuite } from './types';
+
+const SECRET_REFERENCE = /\{\{\s*secret:([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/;
+
+/**
+ * Converts a resolved traditional test (variables already substituted) into
+ * a `@playwright/test` spec. Steps map to locator actions, assertions to web-first
+ * `expect` matchers, and `{{secret:NAME}}` references to `process.env.NAME`.
+ * Anything without a Playwright equivalent becomes a TODO comment.
+ */
+export function exportPlaywrightSpec(test: TraditionalTestCase | TraditionalTestSuite): string {
+  const body = isTraditionalTestSuite(test) ? exportSuite(test) : exportCase(test, '', true);
+  const imports = isTraditionalTestSuite(test) && needsSharedContext(test)
+    ? "import { test, expect, type BrowserContext, type Page } from '@playwright/test';"
+    : "import { test, expect } from '@playwright/test';";
+
+  return [
+    '// Generated by the Playwright testing worker. Review selectors and waits before committing.',
+    imports,
+    '',
+    ...body,
+    ''
+  ].join('\n');
+}
+
+// beforeAll/afterAll state (e.g. a login) must survive across cases, so those
+// suites share one context and open a fresh page per case, like the executor does
+function needsSharedContext(suite: TraditionalTestSuite): boolean {
+  return Boolean(suite.beforeAll?.length || suite.afterAll?.length);
+}
+
+function exportCase(testCase: TraditionalTestCase, indent: string, usesPageFixture: boolean): string[] {
+  const fixture = usesPageFixture ? '{ page }' : '';
+  return [
+    `${indent}test(${literal(testCase.name)}, async (${fixture}) => {`,
+    ...(testCase.mocks ?? []).flatMap(mock => exportMock(mock, 'page', `${indent}  `)),
+    ...testCase.steps.flatMap((step, index) => exportStep(step, index, `${indent}  `)),
+    ...(testCase.assertions ?? []).flatMap(assertion => exportAssertion(assertion, `${indent}  `)),
+    `${indent}});`
+  ];
+}
+
+function exportSuite(suite: TraditionalTestSuite): string[] {
+  const lines = [`test.describe(${literal(suite.name)}, () => {`];
+  const steps = (hook: TestStep[] | undefined) => (hook ?? []).flatMap((step, index) => exportStep(step, index, '    '));
+  const mocks = (target: 'page' | 'context') => (suite.mocks ?? []).flatMap(mock => exportMock(mock, target, '    '));
+
+  if (needsSharedContext(suite)) {
+    lines.push(
+      "  test.describe.configure({ mode: 'serial' });",
+      '',
+      '  let context: BrowserContext;',
+      '  let page: Page;',
+      '',
+      '  test.beforeAll(async ({ browser }) => {',
+      '    context = await browser.newContext();',
+      ...mocks('context'),
+      '    page = await context.newPage();',
+      ...steps(suite.beforeAll),
+      '  });',
+      '',
+      '  test.beforeEach(async () => {',
+      '    await page.close();',
+      '    page = await context.newPage();',
+      ...steps(suite.beforeEach),
+      '  });',
+      ''
+    );
+    if (suite.afterEach?.length) {
+      lines.push('  test.afterEach(async () => {', ...steps(suite.afterEach), '  });', '');
+    }
+    lines.push('  test.afterAll(async () => {', ...steps(suite.afterAll), '    await context.close();', '  });', '');
+  } else {
+    // Without a shared context the suite's mocks are set up again on every case's page
+    if (suite.beforeEach?.length || suite.mocks?.length) {
+      lines.push('  test.beforeEach(async ({ page }) => {', ...mocks('page'), ...steps(suite.beforeEach), '  });', '');
+    }
+    if (suite.afterEach?.length) {
+      lines.push('  test.afterEach(async ({ page }) => {', ...steps(suite.afterEach), '  });', '');
+    }
+  }
+
+  suite.cases.forEach((testCase, index) => {
+    if (index > 0) lines.push('');
+    lines.push(...exportCase(testCase, '  ', !needsSharedContext(suite)));
+  });
+  lines.push('});');
+  return lines;
+}
+
+function exportStep(step: TestStep, index: number, indent: string): string[] {
+  const lines = step.description ? [`${indent}// ${oneLine(step.description)}`] : [];
+  const locator = step.selector ? `page.locator(${literal(step.selector)})` : '';
+  const timeout = step.timeout ? `, { timeout: ${step.timeout} }` : '';
+  const code = (statement: string) => lines.push(`${indent}${statement}`);
+
+  switch (step.action) {
+    case 'navigate':
+      code(`await page.goto(${literal(step.url ?? '')});`);
+      break;
+    case 'click':
+      code(`await ${locator}.click();`);
+      break;
+    case 'type':
+      code(`await ${locator}.fill(${literal(step.value ?? '')});`);
+      break;
+    case 'select':
+      code(`await ${locator}.selectOption(${literal(step.value ?? '')});`);
+      break;
+    case 'wait':
+      code(`await page.waitForTimeout(${step.timeout || 5000});`);
+      break;
+    case 'screenshot':
+      code(`await page.screenshot({ path: ${literal(`step-${index + 1}.png`)} });`);
+      break;
+    case 'wait_for':
+      code(`await ${locator}.first().waitFor({ state: ${literal(step.state ?? 'visible')}${step.timeout ? `, timeout: ${step.timeout}` : ''} });`);
+      break;
+    case 'wait_for_url':
+      code(`await page.waitForURL(${urlPattern(step.url ?? '')}${timeout});`);
+      break;
+    case 'hover':
+      code(`await ${locator}.hover();`);
+      break;
+    case 'press':
+      code(step.selector
+        ? `await ${locator}.press(${literal(step.value ?? '')});`
+        : `await page.keyboard.press(${literal(step.value ?? '')});`);
+      break;
+    case 'check':
+      code(`await ${locator}.check();`);
+      break;
+    case 'uncheck':
+      code(`await ${locator}.uncheck();`);
+      break;
+    case 'scroll_into_view':
+      code(`await ${locator}.scrollIntoViewIfNeeded();`);
+      break;
+    case 'go_back':
+      code('await page.goBack();');
+      break;
+    case 'reload':
+      code('await page.reload();');
+      break;
+    case 'upload_file': {
+      const files = (step.files ?? []).map(file =>
+        `{ name: ${literal(file.name)}, mimeType: ${literal(file.mime_type ?? 'application/octet-stream')}, buffer: Buffer.from(${literal(file.content)}, 'base64') }`
+      );
+      code(`await ${locator}.setInputFiles([${files.join(', ')}]);`);
+      break;
+    }
+    case 'evaluate':
+      code(`await page.evaluate(${literal(step.script ?? '')}${step.arg !== undefined ? `, ${JSON.stringify(step.arg)}` : ''});`);
+      break;
+    case 'visual_snapshot': {
+      const options = [
+        step.mask?.length ? `mask: [${step.mask.map(selector => `page.locator(${literal(selector)})`).join(', ')}]` : '',
+        step.full_page && !step.selector ? 'fullPage: true' : '',
+        step.threshold !== undefined ? `threshold: ${step.threshold}` : '',
+        step.max_diff_ratio !== undefined ? `maxDiffPixelRatio: ${step.max_diff_ratio}` : ''
+      ].filter(Boolean);
+      const target = step.selector ? `${locator}.first()` : 'page';
+      const name = literal(`${step.snapshot ?? `step-${index + 1}`}.png`);
+      code(`await expect(${target}).toHaveScreenshot(${name}${options.length ? `, { ${options.join(', ')} }` : ''});`);
+      break;
+    }
+    case 'mock_route':
+      if (!step.mock) {
+        code('// TODO: mock_route step without a mock');
+        break;
+      }
+      lines.push(...exportMock(step.mock, 'page', indent));
+      break;
+    default:
+      code(`// TODO: ${step.action} step ${step.description ? `"${oneLine(step.description)}" ` : ''}has no Playwright equivalent: ${JSON.stringify(step)}`);
+  }
+
+  return lines;
+}
+
+// Fixtures are expected next to the spec in fixtures/<name>, like the worker's stored fixtures
+function exportMock(mock: RouteMock, target: 'page' | 'context', indent: string): string[] {
+  const methods = mock.method === undefined ? [] : [mock.method].flat().map(method => method.toUpperCase());
+  const body: string[] = [];
+  if (methods.length === 1) {
+    body.push(`if (route.request().method() !== ${literal(methods[0])}) return route.fallback();`);
+  } else if (methods.length > 1) {
+    body.push(`if (![${methods.map(literal).join(', ')}].includes(route.request().method())) return route.fallback();`);
+  }
+  if (mock.delay_ms) {
+    body.push(`await new Promise(resolve => setTimeout(resolve, ${mock.delay_ms}));`);
+  }
+
+  if (mock.abort) {
+    body.push(`await route.abort(${literal(mock.abort === true ? 'failed' : mock.abort)});`);
+  } else {
+    const options = [
+      mock.status !== undefined ? `status: ${mock.status}` : '',
+      mock.headers && Object.keys(mock.headers).length
+        ? `headers: { ${Object.entries(mock.headers).map(([name, value]) => `${literal(name)}: ${literal(value)}`).join(', ')} }`
+        : '',
+      mock.fixture !== undefined ? `path: ${literal(`fixtures/${mock.fixture}`)}` : '',
+      mock.body === undefined ? '' : typeof mock.body === 'string' ? `body: ${literal(mock.body)}` : `json: ${JSON.stringify(mock.body)}`
+    ].filter(Boolean);
+    body.push(`await route.fulfill(${options.length ? `{ ${options.join(', ')} }` : ''});`);
+  }
+
+  return [
+    `${indent}await ${target}.route(${urlPattern(mock.url)}, async route => {`,
+    ...body.map(line => `${indent}  ${line}`),
+    `${indent}}${mock.times ? `, { times: ${mock.times} }` : ''});`
+  ];
+}
+
+function exportAssertion(assertion: TestAssertion, indent: string): string[] {
+  const lines = assertion.description ? [`${indent}// ${oneLine(assertion.description)}`] : [];
+  if (assertion.type === 'custom') {
+    lines.push(`${indent}// TODO: custom assertion has no Playwright equivalent: ${JSON.stringify(assertion)}`);
+    return lines;
+  }
+
+  const locator = `page.locator(${literal(assertion.selector ?? '')})`;
+  const not = assertion.not ? '.not' : '';
+  const timeout = assertion.timeout !== undefined ? `{ timeout: ${assertion.timeout} }` : '';
+  const withOptions = (args: string[], extra: string[] = []) => {
+    const options = [...extra, ...(timeout ? [`timeout: ${assertion.timeout}`] : [])];
+    return [...args, ...(options.length ? [`{ ${options.join(', ')} }`] : [])].join(', ');
+  };
+  const expected = assertion.expected === undefined ? '' : String(assertion.expected);
+  const matcher = () => textMatcher(expected, assertion.match ?? 'exact', assertion.ignore_case === true);
+
+  let statement: string;
+  switch (assertion.type) {
+    case 'exists':
+      // "Exists" means at least one match; toHaveCount(0) negated expresses that without strict mode
+      statement = assertion.not
+        ? `await expect(${locator}).toHaveCount(${withOptions(['0'])});`
+        : `await expect(${locator}).not.toHaveCount(${withOptions(['0'])});`;
+      break;
+    case 'visible':
+      statement = `await expect(${locator}.first())${not}.toBeVisible(${timeout});`;
+      break;
+    case 'enabled':
+      statement = `await expect(${locator}.first())${not}.toBeEnabled(${timeout});`;
+      break;
+    case 'checked':
+      statement = `await expect(${locator}.first())${not}.toBeChecked(${timeout});`;
+      break;
+    case 'text':
+      statement = assertion.match === 'contains'
+        ? `await expect(${locator}.first())${not}.toContainText(${withOptions([literal(expected)], assertion.ignore_case ? ['ignoreCase: true'] : [])});`
+        : `await expect(${locator}.first())${not}.toHaveText(${withOptions([matcher()])});`;
+      break;
+    case 'value':
+      statement = `await expect(${locator}.first())${not}.toHaveValue(${withOptions([matcher()])});`;
+      break;
+    case 'url':
+      statement = `await expect(page)${not}.toHaveURL(${withOptions([matcher()])});`;
+      break;
+    case 'title':
+      statement = `await expect(page)${not}.toHaveTitle(${withOptions([matcher()])});`;
+      break;
+    case 'attribute':
+      statement = assertion.expected === undefined
+        ? `await expect(${locator}.first())${not}.toHaveAttribute(${withOptions([literal(assertion.attribute ?? '')])});`
+        : `await expect(${locator}.first())${not}.toHaveAttribute(${withOptions([literal(assertion.attribute ?? ''), matcher()])});`;
+      break;
+    case 'css_property':
+      statement = `await expect(${locator}.first())${not}.toHaveCSS(${withOptions([literal(assertion.property ?? ''), matcher()])});`;
+      break;
+    case 'count': {
+      const comparator = assertion.comparator ?? 'eq';
+      if (comparator === 'eq') {
+        statement = `await expect(${locator})${not}.toHaveCount(${withOptions([expected])});`;
+      } else {
+        const matchers = { gt: 'toBeGreaterThan', gte: 'toBeGreaterThanOrEqual', lt: 'toBeLessThan', lte: 'toBeLessThanOrEqual' };
+        statement = `await expect.poll(() => ${locator}.count()${timeout ? `, ${timeout}` : ''})${not}.${matchers[comparator]}(${expected});`;
+      }
+      break;
+    }
+    default:
+      statement = `// TODO: ${assertion.type} assertion has no Playwright equivalent: ${JSON.stringify(assertion)}`;
+  }
+
+  lines.push(`${indent}${statement}`);
+  return lines;
+}
+
+// Exact strings stay strings; everything else becomes a regex literal
+function textMatcher(expected: string, mode: 'exact' | 'contains' | 'regex', ignoreCase: boolean): string {
+  if (mode === 'exact' && !ignoreCase) {
+    return literal(expected);
+  }
+
+  let source: string;
+  let flags = '';
+  if (mode === 'regex') {
+    const regex = expected.match(/^\/(.+)\/([a-z]*)$/);
+    source = regex ? regex[1] : expected;
+    flags = regex ? regex[2] : '';
+  } else {
+    const escaped = expected.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    source = mode === 'exact' ? `^${escaped}$` : escaped;
+  }
+  if (ignoreCase && !flags.includes('i')) {
+    flags += 'i';
+  }
+  return `/${new RegExp(source).source}/${flags}`;
+}
+
+// Mirrors PlaywrightClient.waitForUrl: "/regex/" strings become regex literals, the rest stay as URL or glob
+function urlPattern(url: string): string {
+  return /^\/(.+)\/([a-z]*)$/.test(url) ? textMatcher(url, 'regex', false) : literal(url);
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ');
+}
+
+// Single-quoted string literal; secret references become process.env lookups
+function literal(value: string): string {
+  if (SECRET_REFERENCE.test(value)) {
+    const escaped = value.replace(/[\\`$]/g, '\\$&').replace(/\n/g, '\\n');
+    const interpolated = escaped.replace(new RegExp(SECRET_REFERENCE.source, 'g'), (_match, name: string) => `\${process.env.${name}}`);
+    return `\`${interpolated}\``;
+  }
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+}
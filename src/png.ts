@@ -0,0 +1,219 @@
+/**
+ * Just enough PNG support for visual comparisons: decoding the 8-bit,
+ * non-interlaced images browsers produce into RGBA, and encoding RGBA diff
+ * images. Compression goes through the platform (De)CompressionStream.
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  // width * height * 4 bytes, row-major RGBA
+  data: Uint8Array;
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Bytes per pixel for each supported 8-bit color type
+const CHANNELS: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  3: 1, // palette
+  4: 2, // grayscale + alpha
+  6: 4 // RGBA
+};
+
+export async function decodePng(bytes: Uint8Array): Promise<RgbaImage> {
+  if (bytes.length < SIGNATURE.length || SIGNATURE.some((value, i) => bytes[i] !== value)) {
+    throw new Error('Not a PNG image');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Uint8Array | undefined;
+  let paletteAlpha: Uint8Array | undefined;
+  const idat: Uint8Array[] = [];
+
+  let offset = SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = view.getUint32(chunk.byteOffset - bytes.byteOffset);
+      height = view.getUint32(chunk.byteOffset - bytes.byteOffset + 4);
+      const bitDepth = chunk[8];
+      colorType = chunk[9];
+      const interlace = chunk[12];
+      if (bitDepth !== 8 || !(colorType in CHANNELS) || interlace !== 0) {
+        throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`);
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      paletteAlpha = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (width === 0 || height === 0) {
+    throw new Error('PNG is missing its IHDR chunk');
+  }
+
+  const channels = CHANNELS[colorType];
+  const stride = width * channels;
+  const raw = await inflate(concat(idat));
+  if (raw.length < height * (stride + 1)) {
+    throw new Error('PNG image data is truncated');
+  }
+
+  const pixels = unfilter(raw, width, height, channels);
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0, p = 0; i < width * height; i++, p += channels) {
+    const out = i * 4;
+    switch (colorType) {
+      case 0:
+        data.set([pixels[p], pixels[p], pixels[p], 255], out);
+        break;
+      case 2:
+        data.set([pixels[p], pixels[p + 1], pixels[p + 2], 255], out);
+        break;
+      case 3: {
+        const index = pixels[p];
+        if (!palette || index * 3 + 2 >= palette.length) {
+          throw new Error('PNG palette index out of range');
+        }
+        data.set([palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2], paletteAlpha?.[index] ?? 255], out);
+        break;
+      }
+      case 4:
+        data.set([pixels[p], pixels[p], pixels[p], pixels[p + 1]], out);
+        break;
+      default:
+        data.set(pixels.subarray(p, p + 4), out);
+    }
+  }
+
+  return { width, height, data };
+}
+
+export async function encodePng(image: RgbaImage): Promise<Uint8Array> {
+  const stride = image.width * 4;
+  // Filter type 0 (none) on every row keeps encoding simple; deflate does the rest
+  const raw = new Uint8Array(image.height * (stride + 1));
+  for (let y = 0; y < image.height; y++) {
+    raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, image.width);
+  headerView.setUint32(4, image.height);
+  header.set([8, 6, 0, 0, 0], 8);
+
+  return concat([
+    Uint8Array.from(SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', await deflate(raw)),
+    chunk('IEND', new Uint8Array(0))
+  ]);
+}
+
+function unfilter(raw: Uint8Array, width: number, height: number, channels: number): Uint8Array {
+  const stride = width * channels;
+  const out = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = y * stride;
+    const previous = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? out[row + x - channels] : 0;
+      const up = y > 0 ? out[previous + x] : 0;
+      const upLeft = y > 0 && x >= channels ? out[previous + x - channels] : 0;
+
+      let predictor: number;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+      out[row + x] = (line[x] + predictor) & 0xff;
+    }
+  }
+
+  return out;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    out[4 + i] = type.charCodeAt(i);
+  }
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// PNG image data is a zlib stream, which is what the "deflate" format produces
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
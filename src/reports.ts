@@ -0,0 +1,291 @@
+import type { Artifact, TestResult, TestSession } from './types';
+
+export type ReportFormat = 'junit' | 'ctrf' | 'tap' | 'markdown';
+
+export const REPORT_FORMATS: ReportFormat[] = ['junit', 'ctrf', 'tap', 'markdown'];
+
+// Upper bound on sessions in one batch report
+export const MAX_REPORT_SESSIONS = 50;
+
+export interface SessionReportInput {
+  session: TestSession;
+  // Configuration name when the session ran a stored configuration
+  name?: string;
+  results: TestResult[];
+  artifacts: Artifact[];
+}
+
+export interface RenderedReport {
+  body: string;
+  contentType: string;
+}
+
+interface ReportCase {
+  name: string;
+  // Block label of the row ("Login Test" in "Login Test - click #submit")
+  group: string;
+  status: TestResult['status'];
+  durationMs: number;
+  attempts: number;
+  message?: string;
+  details?: string;
+  links: Array<{ name: string; contentType: string; url: string }>;
+}
+
+interface ReportSuite {
+  id: string;
+  name: string;
+  url: string;
+  status: TestSession['status'];
+  start?: number;
+  stop?: number;
+  cases: ReportCase[];
+}
+
+/**
+ * Renders one or more sessions as a standard test report. Each session is a
+ * suite and each `test_results` row a test case; durations come from
+ * `execution_time_ms`, and screenshots link to `/session/artifact` on `baseUrl`.
+ */
+export function renderReport(format: ReportFormat, sessions: SessionReportInput[], baseUrl: string): RenderedReport {
+  const suites = sessions.map(input => toSuite(input, baseUrl));
+  switch (format) {
+    case 'junit': return { body: renderJUnit(suites), contentType: 'application/xml; charset=utf-8' };
+    case 'ctrf': return { body: renderCtrf(suites), contentType: 'application/json' };
+    case 'tap': return { body: renderTap(suites), contentType: 'text/plain; charset=utf-8' };
+    case 'markdown': return { body: renderMarkdown(suites), contentType: 'text/markdown; charset=utf-8' };
+  }
+}
+
+function toSuite({ session, name, results, artifacts }: SessionReportInput, baseUrl: string): ReportSuite {
+  const artifactUrl = (artifactName: string) =>
+    `${baseUrl}/session/artifact?sessionId=${encodeURIComponent(session.id)}&name=${encodeURIComponent(artifactName)}`;
+
+  const cases = results.map((result): ReportCase => {
+    const separator = result.test_name.indexOf(' - ');
+    const artifact = result.screenshot_path ? artifacts.find(a => a.name === result.screenshot_path) : undefined;
+    return {
+      name: result.test_name,
+      group: separator > 0 ? result.test_name.slice(0, separator) : name ?? session.url,
+      status: result.status,
+      durationMs: result.execution_time_ms ?? 0,
+      attempts: result.attempts ?? 1,
+      ...describeError(result.error_message),
+      links: result.screenshot_path
+        ? [{ name: result.screenshot_path, contentType: artifact?.content_type ?? 'image/png', url: artifactUrl(result.screenshot_path) }]
+        : []
+    };
+  });
+
+  // A session that failed before recording any result still needs a failing case
+  if (cases.length === 0 && session.status === 'failed') {
+    cases.push({
+      name: 'Session',
+      group: name ?? session.url,
+      status: 'failed',
+      durationMs: 0,
+      attempts: 1,
+      ...describeError(session.error_summary || 'Session failed'),
+      links: []
+    });
+  }
+
+  return {
+    id: session.id,
+    name: name ?? `${session.test_type} test of ${session.url}`,
+    url: session.url,
+    status: session.status,
+    start: parseTimestamp(session.start_time),
+    stop: parseTimestamp(session.end_time),
+    cases
+  };
+}
+
+// Assertion failures are stored as JSON details; reports show their message and keep the rest as details
+export function describeError(error?: string): Pick<ReportCase, 'message' | 'details'> {
+  if (!error) return {};
+  try {
+    const parsed = JSON.parse(error);
+    if (parsed && typeof parsed.message === 'string') {
+      return { message: parsed.message, details: JSON.stringify(parsed, null, 2) };
+    }
+  } catch {
+    // Plain error text
+  }
+  return { message: error.split('\n')[0], details: error };
+}
+
+// D1 stores CURRENT_TIMESTAMP as "YYYY-MM-DD HH:MM:SS" in UTC
+export function parseTimestamp(value?: string): number | undefined {
+  if (!value) return undefined;
+  const iso = value.includes('T') ? value : `${value.replace(' ', 'T')}Z`;
+  const time = Date.parse(iso);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function count(cases: ReportCase[], status: TestResult['status']): number {
+  return cases.filter(c => c.status === status).length;
+}
+
+function suiteDuration(suite: ReportSuite): number {
+  return suite.start !== undefined && suite.stop !== undefined
+    ? suite.stop - suite.start
+    : suite.cases.reduce((total, c) => total + c.durationMs, 0);
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function renderJUnit(suites: ReportSuite[]): string {
+  const all = suites.flatMap(suite => suite.cases);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="Playwright worker" tests="${all.length}" failures="${count(all, 'failed')}" errors="0" skipped="${count(all, 'skipped')}" time="${seconds(suites.reduce((total, suite) => total + suiteDuration(suite), 0))}">`
+  ];
+
+  for (const suite of suites) {
+    const timestamp = suite.start !== undefined ? ` timestamp="${new Date(suite.start).toISOString()}"` : '';
+    lines.push(
+      `  <testsuite name="${xml(suite.name)}" id="${xml(suite.id)}" tests="${suite.cases.length}" failures="${count(suite.cases, 'failed')}" errors="0" skipped="${count(suite.cases, 'skipped')}" time="${seconds(suiteDuration(suite))}"${timestamp}>`,
+      '    <properties>',
+      `      <property name="session_id" value="${xml(suite.id)}"/>`,
+      `      <property name="url" value="${xml(suite.url)}"/>`,
+      `      <property name="status" value="${suite.status}"/>`,
+      '    </properties>'
+    );
+
+    for (const testCase of suite.cases) {
+      const open = `    <testcase name="${xml(testCase.name)}" classname="${xml(testCase.group)}" time="${seconds(testCase.durationMs)}"`;
+      const body: string[] = [];
+      if (testCase.status === 'failed') {
+        body.push(`      <failure message="${xml(testCase.message ?? 'Failed')}" type="AssertionError">${xml(testCase.details ?? '')}</failure>`);
+      } else if (testCase.status === 'skipped') {
+        body.push(testCase.message ? `      <skipped message="${xml(testCase.message)}"/>` : '      <skipped/>');
+      }
+      if (testCase.links.length) {
+        // Jenkins and GitLab pick attachments up from this convention
+        body.push(`      <system-out>${testCase.links.map(link => `[[ATTACHMENT|${xml(link.url)}]]`).join('\n')}</system-out>`);
+      }
+      lines.push(body.length ? `${open}>\n${body.join('\n')}\n    </testcase>` : `${open}/>`);
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+function renderCtrf(suites: ReportSuite[]): string {
+  const all = suites.flatMap(suite => suite.cases);
+  const starts = suites.map(suite => suite.start).filter((time): time is number => time !== undefined);
+  const stops = suites.map(suite => suite.stop ?? suite.start).filter((time): time is number => time !== undefined);
+
+  const report = {
+    reportFormat: 'CTRF',
+    specVersion: '0.0.0',
+    results: {
+      tool: { name: 'playwright-mcp-example' },
+      summary: {
+        tests: all.length,
+        // CTRF reports a flaky test as passed, with `flaky` and `retries` set
+        passed: count(all, 'passed') + count(all, 'flaky'),
+        failed: count(all, 'failed'),
+        pending: 0,
+        skipped: count(all, 'skipped'),
+        other: 0,
+        start: starts.length ? Math.min(...starts) : 0,
+        stop: stops.length ? Math.max(...stops) : 0
+      },
+      tests: suites.flatMap(suite => suite.cases.map(testCase => ({
+        name: testCase.name,
+        status: testCase.status === 'flaky' ? 'passed' : testCase.status,
+        duration: testCase.durationMs,
+        ...(testCase.attempts > 1 ? { retries: testCase.attempts - 1 } : {}),
+        ...(testCase.status === 'flaky' ? { flaky: true } : {}),
+        ...(testCase.message ? { message: testCase.message } : {}),
+        ...(testCase.status === 'failed' && testCase.details ? { trace: testCase.details } : {}),
+        suite: suite.name,
+        ...(testCase.links.length
+          ? { attachments: testCase.links.map(link => ({ name: link.name, contentType: link.contentType, path: link.url })) }
+          : {}),
+        extra: { session_id: suite.id, url: suite.url }
+      })))
+    }
+  };
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+function renderTap(suites: ReportSuite[]): string {
+  const all = suites.flatMap(suite => suite.cases);
+  const lines = ['TAP version 13', `1..${all.length}`];
+  let number = 0;
+
+  for (const suite of suites) {
+    lines.push(`# ${suite.name} (session ${suite.id}, ${suite.status})`);
+    for (const testCase of suite.cases) {
+      number++;
+      const description = testCase.name.replace(/#/g, '\\#');
+      if (testCase.status === 'skipped') {
+        lines.push(`ok ${number} - ${description} # SKIP${testCase.message ? ` ${testCase.message}` : ''}`);
+        continue;
+      }
+
+      lines.push(`${testCase.status === 'failed' ? 'not ok' : 'ok'} ${number} - ${description}`);
+      const diagnostics = [`duration_ms: ${testCase.durationMs}`];
+      if (testCase.attempts > 1) diagnostics.push(`attempts: ${testCase.attempts}`);
+      if (testCase.message) diagnostics.push(`message: ${JSON.stringify(testCase.message)}`);
+      for (const link of testCase.links) diagnostics.push(`screenshot: ${JSON.stringify(link.url)}`);
+      lines.push('  ---', ...diagnostics.map(line => `  ${line}`), '  ...');
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function renderMarkdown(suites: ReportSuite[]): string {
+  const all = suites.flatMap(suite => suite.cases);
+  const icons = { passed: '✅', failed: '❌', skipped: '⏭️', flaky: '🔁' };
+  const flaky = count(all, 'flaky');
+  const lines = [
+    '# Test report',
+    '',
+    `✅ ${count(all, 'passed')} passed${flaky ? ` · 🔁 ${flaky} flaky` : ''} · ❌ ${count(all, 'failed')} failed · ⏭️ ${count(all, 'skipped')} skipped across ${suites.length} ${suites.length === 1 ? 'session' : 'sessions'}`
+  ];
+
+  for (const suite of suites) {
+    lines.push(
+      '',
+      `## ${suite.name}`,
+      '',
+      `Session \`${suite.id}\` · ${suite.url} · ${suite.status} · ${seconds(suiteDuration(suite))}s`,
+      '',
+      '| | Test | Duration | Details |',
+      '|---|---|---|---|'
+    );
+    for (const testCase of suite.cases) {
+      const details = [
+        testCase.status === 'failed' ? testCase.message : undefined,
+        testCase.attempts > 1 ? `${testCase.attempts} attempts` : undefined,
+        ...testCase.links.map(link => `[${link.name}](${link.url})`)
+      ].filter(Boolean).join(' ');
+      lines.push(`| ${icons[testCase.status]} | ${cell(testCase.name)} | ${testCase.durationMs} ms | ${cell(details)} |`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
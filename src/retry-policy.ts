@@ -0,0 +1,54 @@
+import type { RetryErrorType, RetryPolicy } from './types';
+import { AssertionFailedError } from './assertions';
+
+export const RETRY_ERROR_TYPES: RetryErrorType[] = ['timeout', 'element', 'navigation', 'assertion', 'other'];
+
+// Failures that usually pass on another try; assertions already wait for their timeout
+export const DEFAULT_RETRY_ON: RetryErrorType[] = ['timeout', 'element', 'navigation'];
+
+export const MAX_RETRIES = 10;
+
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+const DEFAULT_POLICY: ResolvedRetryPolicy = {
+  retries: 0,
+  backoff_ms: 500,
+  backoff_factor: 2,
+  max_backoff_ms: 10_000,
+  retry_on: DEFAULT_RETRY_ON
+};
+
+// Playwright error messages, matched after timeouts so "Timeout … waiting for locator" stays a timeout
+const ELEMENT_ERROR = /strict mode violation|not attached to the DOM|element is not (visible|enabled|editable|stable|attached)|intercepts pointer events|outside of the viewport|resolved to 0 elements|no element|waiting for (locator|selector)/i;
+const NAVIGATION_ERROR = /net::ERR_|navigation|navigating to|frame was detached|target (page|closed)/i;
+
+/**
+ * Combines policies from the most specific (step) to the least specific
+ * (suite), field by field, over the defaults.
+ */
+export function resolveRetryPolicy(...policies: Array<RetryPolicy | undefined>): ResolvedRetryPolicy {
+  const resolved = { ...DEFAULT_POLICY };
+  for (const policy of [...policies].reverse()) {
+    if (!policy) continue;
+    for (const [key, value] of Object.entries(policy) as Array<[keyof RetryPolicy, unknown]>) {
+      if (value !== undefined) (resolved as Record<string, unknown>)[key] = value;
+    }
+  }
+  resolved.retries = Math.min(Math.max(0, Math.floor(resolved.retries)), MAX_RETRIES);
+  return resolved;
+}
+
+export function classifyError(error: unknown): RetryErrorType {
+  if (error instanceof AssertionFailedError) return 'assertion';
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+  if (name === 'TimeoutError' || /timeout|timed out/i.test(message)) return 'timeout';
+  if (ELEMENT_ERROR.test(message)) return 'element';
+  if (NAVIGATION_ERROR.test(message)) return 'navigation';
+  return 'other';
+}
+
+// Wait before retry number `retry` (1 for the first retry)
+export function retryDelay(policy: ResolvedRetryPolicy, retry: number): number {
+  return Math.min(policy.backoff_ms * policy.backoff_factor ** (retry - 1), policy.max_backoff_ms);
+}
@@ -0,0 +1,139 @@
+import { DatabaseService } from './database';
+import { ArtifactStore, readArtifactBytes } from './artifact-store';
+import type { MockAbortCode, MockFixture, RouteMock, RouteMockHandler } from './types';
+
+// Network error codes Playwright can abort a request with
+export const MOCK_ABORT_CODES: MockAbortCode[] = [
+  'aborted', 'accessdenied', 'addressunreachable', 'blockedbyclient', 'blockedbyresponse',
+  'connectionaborted', 'connectionclosed', 'connectionfailed', 'connectionrefused',
+  'connectionreset', 'internetdisconnected', 'namenotresolved', 'timedout', 'failed'
+];
+
+// Longer delays would outlast the step timeouts they are meant to exercise
+export const MAX_MOCK_DELAY_MS = 60_000;
+export const MAX_FIXTURE_BYTES = 5 * 1024 * 1024;
+
+const FIXTURE_NAME = /^[A-Za-z0-9][\w.-]{0,99}$/;
+
+export function isValidFixtureName(name: string): boolean {
+  return FIXTURE_NAME.test(name);
+}
+
+export function mockFixtureKey(name: string): string {
+  return `fixtures/${name}`;
+}
+
+// Short label for logs, e.g. "GET,POST **/api/users"
+export function describeMock(mock: Pick<RouteMock, 'url' | 'method'>): string {
+  const methods = mock.method === undefined ? [] : [mock.method].flat();
+  return methods.length ? `${methods.join(',').toUpperCase()} ${mock.url}` : mock.url;
+}
+
+/**
+ * Turns a mock into what the browser client fulfills requests with. The
+ * body comes from `fixture` when given (pass its stored content), otherwise
+ * from `body`; a Content-Type header in `headers` always wins.
+ */
+export function buildMockHandler(
+  mock: RouteMock,
+  fixture?: { body: Uint8Array; content_type: string }
+): RouteMockHandler {
+  if (!mock.url) {
+    throw new Error('Mock url is required');
+  }
+  if (mock.fixture !== undefined && mock.body !== undefined) {
+    throw new Error(`Mock ${mock.url} sets both body and fixture`);
+  }
+
+  const delay = mock.delay_ms ?? 0;
+  if (!Number.isFinite(delay) || delay < 0 || delay > MAX_MOCK_DELAY_MS) {
+    throw new Error(`Mock delay_ms must be between 0 and ${MAX_MOCK_DELAY_MS}`);
+  }
+
+  const methods = mock.method === undefined ? null : [mock.method].flat().map(method => method.toUpperCase());
+  const common = {
+    url: mock.url,
+    methods: methods?.length ? methods : null,
+    delay_ms: delay,
+    times: mock.times ?? null
+  };
+
+  if (mock.abort) {
+    return { ...common, abort: mock.abort === true ? 'failed' : mock.abort, response: null };
+  }
+  if (mock.fixture !== undefined && !fixture) {
+    throw new Error(`Fixture "${mock.fixture}" was not loaded`);
+  }
+
+  let body: Uint8Array;
+  let contentType: string;
+  if (fixture) {
+    body = fixture.body;
+    contentType = fixture.content_type;
+  } else if (mock.body === undefined) {
+    body = new Uint8Array();
+    contentType = 'text/plain';
+  } else if (typeof mock.body === 'string') {
+    body = new TextEncoder().encode(mock.body);
+    contentType = 'text/plain; charset=utf-8';
+  } else {
+    body = new TextEncoder().encode(JSON.stringify(mock.body));
+    contentType = 'application/json';
+  }
+
+  const headers = { ...mock.headers };
+  if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+    headers['content-type'] = contentType;
+  }
+
+  return {
+    ...common,
+    abort: null,
+    response: { status: mock.status ?? 200, headers, body }
+  };
+}
+
+/**
+ * Response bodies uploaded through /mocks/fixtures. Metadata lives in the D1
+ * `mock_fixtures` table; the bytes live in the artifact store.
+ */
+export class MockFixtures {
+  private store: ArtifactStore;
+  private db: DatabaseService;
+
+  constructor(store: ArtifactStore, db: DatabaseService) {
+    this.store = store;
+    this.db = db;
+  }
+
+  async save(name: string, body: Uint8Array, contentType: string): Promise<MockFixture> {
+    const fixture = { name, content_type: contentType, size_bytes: body.byteLength, storage_key: mockFixtureKey(name) };
+    await this.store.put(fixture.storage_key, body, contentType);
+    await this.db.upsertMockFixture(fixture);
+    return fixture;
+  }
+
+  async load(name: string): Promise<{ body: Uint8Array; content_type: string }> {
+    const fixture = await this.db.getMockFixture(name);
+    const stored = fixture ? await this.store.get(fixture.storage_key) : null;
+    if (!fixture || !stored) {
+      throw new Error(`Mock fixture "${name}" not found`);
+    }
+    return { body: await readArtifactBytes(stored), content_type: fixture.content_type };
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const fixture = await this.db.getMockFixture(name);
+    if (!fixture) {
+      return false;
+    }
+    await this.store.delete([fixture.storage_key]);
+    return await this.db.deleteMockFixture(name);
+  }
+
+  // Resolves `fixture` references, then builds the handler
+  async resolve(mock: RouteMock): Promise<RouteMockHandler> {
+    const fixture = mock.fixture !== undefined && !mock.abort ? await this.load(mock.fixture) : undefined;
+    return buildMockHandler(mock, fixture);
+  }
+}
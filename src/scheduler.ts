@@ -0,0 +1,87 @@
+import { DatabaseService } from './database';
+import { Logger } from './logger';
+import { cronMatches } from './cron';
+import { enqueueTestJob, generateSessionId, TestJob } from './test-runner';
+import type { Schedule, SystemInstruction } from './types';
+
+/**
+ * Runs every enabled schedule whose cron expression matches the minute of
+ * `scheduledTime`. Each due schedule gets its own session (marked with
+ * `trigger = 'schedule'`) which is handed to the queue like an API run.
+ * Returns the ids of the sessions that were started.
+ */
+export async function runDueSchedules(
+  env: Env,
+  ctx: ExecutionContext,
+  db: DatabaseService,
+  scheduledTime: Date
+): Promise<string[]> {
+  const minute = new Date(Math.floor(scheduledTime.getTime() / 60_000) * 60_000);
+  const schedules = await db.getEnabledSchedules();
+  const started: string[] = [];
+
+  for (const schedule of schedules) {
+    try {
+      if (!cronMatches(schedule.cron, minute)) continue;
+
+      // Cron triggers are delivered at least once; never start the same minute twice
+      if (schedule.last_run_at && schedule.last_run_at >= minute.toISOString()) continue;
+
+      const config = await db.getSystemInstructionById(schedule.config_id);
+      if (!config || !config.is_active) continue;
+
+      const sessionId = await startScheduledSession(env, ctx, db, schedule, config);
+      await db.recordScheduleRun(schedule.id!, sessionId, minute.toISOString());
+      started.push(sessionId);
+    } catch (error) {
+      console.error(`Schedule ${schedule.id} (${schedule.cron}) failed to start`, error);
+    }
+  }
+
+  return started;
+}
+
+async function startScheduledSession(
+  env: Env,
+  ctx: ExecutionContext,
+  db: DatabaseService,
+  schedule: Schedule,
+  config: SystemInstruction
+): Promise<string> {
+  const sessionId = generateSessionId();
+  const logger = new Logger(db, sessionId, config.id);
+  const instructions = JSON.parse(config.instructions);
+
+  const job: TestJob = config.test_type === 'traditional'
+    ? {
+      kind: 'traditional',
+      sessionId,
+      url: schedule.target_url,
+      configId: config.id,
+      testCase: instructions
+    }
+    : {
+      kind: 'agentic',
+      sessionId,
+      url: schedule.target_url,
+      configId: config.id,
+      config: instructions,
+      provider: { provider: config.llm_provider, model: config.llm_model }
+    };
+
+  await db.createTestSession({
+    id: sessionId,
+    url: schedule.target_url,
+    test_type: config.test_type,
+    status: 'running',
+    config_id: config.id,
+    config_revision: config.revision,
+    trigger: 'schedule'
+  });
+
+  await logger.logSessionStart(schedule.target_url, config.test_type);
+  await logger.logInfo('Started by schedule', { scheduleId: schedule.id, cron: schedule.cron });
+
+  await enqueueTestJob(job, env, ctx, db);
+  return sessionId;
+}
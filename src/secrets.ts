@@ -0,0 +1,314 @@
+import type { DatabaseService } from './database';
+import { base64ToBytes } from './artifact-store';
+import type {
+  InterceptedRequest,
+  PlaywrightAutomationClient,
+  RouteMockHandler,
+  ScreenshotOptions,
+  UploadFile,
+  WaitForState
+} from './types';
+
+const SECRET_REFERENCE = /\{\{\s*secret:([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const SECRET_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface EncryptedSecret {
+  ciphertext: string;
+  iv: string;
+}
+
+/**
+ * Anything that can scrub secret values out of text before it is logged,
+ * stored or returned.
+ */
+export interface Redactor {
+  redact(text: string): string;
+}
+
+export function isValidSecretName(name: string): boolean {
+  return SECRET_NAME.test(name);
+}
+
+/**
+ * AES-GCM encryption for the `secrets` table. The key is derived from the
+ * SECRETS_KEY Worker secret; the secret name is bound in as additional data
+ * so a ciphertext cannot be moved to another name.
+ */
+export class SecretCipher {
+  private keyPromise: Promise<CryptoKey>;
+
+  constructor(secretKey: string) {
+    this.keyPromise = crypto.subtle.digest('SHA-256', new TextEncoder().encode(secretKey))
+      .then(digest => crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']));
+  }
+
+  static fromEnv(env: Env): SecretCipher {
+    if (!env.SECRETS_KEY) {
+      throw new Error('SECRETS_KEY is not configured; set it with `wrangler secret put SECRETS_KEY`');
+    }
+    return new SecretCipher(env.SECRETS_KEY);
+  }
+
+  async encrypt(name: string, value: string): Promise<EncryptedSecret> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(name) },
+      await this.keyPromise,
+      new TextEncoder().encode(value)
+    );
+    return { ciphertext: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv) };
+  }
+
+  async decrypt(name: string, secret: EncryptedSecret): Promise<string> {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(secret.iv), additionalData: new TextEncoder().encode(name) },
+      await this.keyPromise,
+      base64ToBytes(secret.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+}
+
+/**
+ * Decrypted secrets for one session. Only names referenced by the test are
+ * loaded, so an agentic planner cannot reach other secrets by guessing names.
+ */
+export class SecretVault implements Redactor {
+  private values: Map<string, string>;
+
+  constructor(values: Map<string, string> = new Map()) {
+    this.values = values;
+  }
+
+  static async load(db: DatabaseService, cipher: SecretCipher | null, names: string[]): Promise<SecretVault> {
+    if (names.length === 0) {
+      return new SecretVault();
+    }
+    if (!cipher) {
+      throw new Error('Test references secrets but SECRETS_KEY is not configured');
+    }
+
+    const records = await db.getSecrets(names);
+    const missing = names.filter(name => !records.some(record => record.name === name));
+    if (missing.length > 0) {
+      throw new Error(`Secret(s) not found: ${missing.join(', ')}`);
+    }
+
+    const values = new Map<string, string>();
+    for (const record of records) {
+      values.set(record.name, await cipher.decrypt(record.name, record));
+    }
+    return new SecretVault(values);
+  }
+
+  get size(): number {
+    return this.values.size;
+  }
+
+  // Substitutes `{{secret:NAME}}` references; only called at the browser boundary.
+  resolve(text: string): string {
+    return text.replace(SECRET_REFERENCE, (_match, name: string) => {
+      const value = this.values.get(name);
+      if (value === undefined) {
+        throw new Error(`Secret ${name} is not available to this session`);
+      }
+      return value;
+    });
+  }
+
+  redact(text: string): string {
+    if (this.values.size === 0 || !text) {
+      return text;
+    }
+
+    // Longest first so a secret containing another is replaced whole
+    const entries = [...this.values.entries()]
+      .filter(([, value]) => value.length > 0)
+      .sort(([, a], [, b]) => b.length - a.length);
+
+    let redacted = text;
+    for (const [name, value] of entries) {
+      const replacement = `[REDACTED:${name}]`;
+      // Values also show up JSON-escaped (action_data) and URL-encoded (navigations)
+      for (const form of new Set([value, JSON.stringify(value).slice(1, -1), encodeURIComponent(value)])) {
+        redacted = redacted.split(form).join(replacement);
+      }
+    }
+    return redacted;
+  }
+}
+
+export function collectSecretReferences(value: unknown): string[] {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  const names = new Set<string>();
+  for (const match of text.matchAll(SECRET_REFERENCE)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Resolves secret references in selectors, URLs and typed values right
+ * before they reach the browser, and redacts page snapshots on the way back.
+ * Executors keep working with placeholders, so their logs never see values.
+ */
+export class SecretResolvingClient implements PlaywrightAutomationClient {
+  private inner: PlaywrightAutomationClient;
+  private vault: SecretVault;
+
+  constructor(inner: PlaywrightAutomationClient, vault: SecretVault) {
+    this.inner = inner;
+    this.vault = vault;
+  }
+
+  navigate(url: string): Promise<void> {
+    return this.inner.navigate(this.vault.resolve(url));
+  }
+
+  click(selector: string): Promise<void> {
+    return this.inner.click(this.vault.resolve(selector));
+  }
+
+  type(selector: string, text: string): Promise<void> {
+    return this.inner.type(this.vault.resolve(selector), this.vault.resolve(text));
+  }
+
+  selectOption(selector: string, value: string): Promise<void> {
+    return this.inner.selectOption(this.vault.resolve(selector), this.vault.resolve(value));
+  }
+
+  count(selector: string): Promise<number> {
+    return this.inner.count(this.vault.resolve(selector));
+  }
+
+  isVisible(selector: string): Promise<boolean> {
+    return this.inner.isVisible(this.vault.resolve(selector));
+  }
+
+  async innerText(selector: string): Promise<string | null> {
+    const text = await this.inner.innerText(this.vault.resolve(selector));
+    return text === null ? null : this.vault.redact(text);
+  }
+
+  async inputValue(selector: string): Promise<string | null> {
+    const value = await this.inner.inputValue(this.vault.resolve(selector));
+    return value === null ? null : this.vault.redact(value);
+  }
+
+  async getAttribute(selector: string, name: string): Promise<string | null> {
+    const value = await this.inner.getAttribute(this.vault.resolve(selector), name);
+    return value === null ? null : this.vault.redact(value);
+  }
+
+  async cssProperty(selector: string, property: string): Promise<string | null> {
+    const value = await this.inner.cssProperty(this.vault.resolve(selector), property);
+    return value === null ? null : this.vault.redact(value);
+  }
+
+  isEnabled(selector: string): Promise<boolean | null> {
+    return this.inner.isEnabled(this.vault.resolve(selector));
+  }
+
+  isChecked(selector: string): Promise<boolean | null> {
+    return this.inner.isChecked(this.vault.resolve(selector));
+  }
+
+  async currentUrl(): Promise<string> {
+    return this.vault.redact(await this.inner.currentUrl());
+  }
+
+  async title(): Promise<string> {
+    return this.vault.redact(await this.inner.title());
+  }
+
+  takeScreenshot(options?: ScreenshotOptions): Promise<string> {
+    return this.inner.takeScreenshot(options && {
+      ...options,
+      selector: options.selector === undefined ? undefined : this.vault.resolve(options.selector),
+      mask: options.mask?.map(selector => this.vault.resolve(selector))
+    });
+  }
+
+  async snapshot(): Promise<string> {
+    return this.vault.redact(await this.inner.snapshot());
+  }
+
+  waitFor(selector: string, state: WaitForState, timeoutMs: number): Promise<void> {
+    return this.inner.waitFor(this.vault.resolve(selector), state, timeoutMs);
+  }
+
+  async waitForUrl(url: string, timeoutMs: number): Promise<string> {
+    return this.vault.redact(await this.inner.waitForUrl(this.vault.resolve(url), timeoutMs));
+  }
+
+  hover(selector: string): Promise<void> {
+    return this.inner.hover(this.vault.resolve(selector));
+  }
+
+  press(key: string, selector?: string): Promise<void> {
+    return this.inner.press(key, selector === undefined ? undefined : this.vault.resolve(selector));
+  }
+
+  check(selector: string): Promise<void> {
+    return this.inner.check(this.vault.resolve(selector));
+  }
+
+  uncheck(selector: string): Promise<void> {
+    return this.inner.uncheck(this.vault.resolve(selector));
+  }
+
+  scrollIntoView(selector: string): Promise<void> {
+    return this.inner.scrollIntoView(this.vault.resolve(selector));
+  }
+
+  goBack(): Promise<void> {
+    return this.inner.goBack();
+  }
+
+  reload(): Promise<void> {
+    return this.inner.reload();
+  }
+
+  uploadFile(selector: string, files: UploadFile[]): Promise<void> {
+    return this.inner.uploadFile(this.vault.resolve(selector), files);
+  }
+
+  // Scripts may use secrets (e.g. to seed a token); the return value is scrubbed
+  async evaluate(script: string, arg?: unknown): Promise<unknown> {
+    const result = await this.inner.evaluate(this.vault.resolve(script), arg);
+    return result === undefined ? undefined : JSON.parse(this.vault.redact(JSON.stringify(result)));
+  }
+
+  // Mocked URLs and headers may carry secrets; intercepted URLs are scrubbed before they are logged
+  mockRoute(
+    mock: RouteMockHandler,
+    scope: 'page' | 'context',
+    onIntercept: (request: InterceptedRequest) => void
+  ): Promise<void> {
+    const response = mock.response && {
+      ...mock.response,
+      headers: Object.fromEntries(Object.entries(mock.response.headers).map(([name, value]) => [name, this.vault.resolve(value)]))
+    };
+    return this.inner.mockRoute(
+      { ...mock, url: this.vault.resolve(mock.url), response },
+      scope,
+      request => onIntercept({ ...request, mock: mock.url, url: this.vault.redact(request.url) })
+    );
+  }
+
+  newPage(): Promise<void> {
+    return this.inner.newPage();
+  }
+
+  dispose(): Promise<void> {
+    return this.inner.dispose();
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,148 @@
+import type {
+  RouteMock,
+  TestAssertion,
+  TestStep,
+  TemplateVariables,
+  TraditionalTestCase,
+  TraditionalTestSuite
+} from './types';
+
+// `{{ name }}`; names containing ":" (e.g. `{{secret:TOKEN}}`) belong to other resolvers
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}$/;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Replaces `{{name}}` placeholders. Unknown names are an error so a typo
+ * never reaches the browser as literal braces.
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  const missing = new Set<string>();
+  const rendered = template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+      missing.add(name);
+      return placeholder;
+    }
+    return String(variables[name]);
+  });
+
+  if (missing.size > 0) {
+    throw new TemplateError(`Undefined template variable(s): ${[...missing].join(', ')}`);
+  }
+  return rendered;
+}
+
+// A value that is exactly one placeholder keeps the variable's type, so
+// `"expected": "{{count}}"` still works with the numeric count assertion.
+function renderValue<T>(value: T, variables: TemplateVariables): T | string | number | boolean {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const whole = value.match(WHOLE_PLACEHOLDER);
+  if (whole && Object.prototype.hasOwnProperty.call(variables, whole[1])) {
+    return variables[whole[1]];
+  }
+  return renderTemplate(value, variables);
+}
+
+export function renderStep(step: TestStep, variables: TemplateVariables): TestStep {
+  return {
+    ...step,
+    url: step.url === undefined ? undefined : renderTemplate(step.url, variables),
+    selector: step.selector === undefined ? undefined : renderTemplate(step.selector, variables),
+    value: step.value === undefined ? undefined : renderTemplate(step.value, variables),
+    script: step.script === undefined ? undefined : renderTemplate(step.script, variables),
+    mock: step.mock === undefined ? undefined : renderMock(step.mock, variables)
+  };
+}
+
+export function renderMock(mock: RouteMock, variables: TemplateVariables): RouteMock {
+  return {
+    ...mock,
+    url: renderTemplate(mock.url, variables),
+    body: typeof mock.body === 'string' ? renderTemplate(mock.body, variables) : mock.body
+  };
+}
+
+export function renderAssertion(assertion: TestAssertion, variables: TemplateVariables): TestAssertion {
+  return {
+    ...assertion,
+    selector: assertion.selector === undefined ? undefined : renderTemplate(assertion.selector, variables),
+    expected: renderValue(assertion.expected, variables)
+  };
+}
+
+/**
+ * Renders a case with its variables. A case with a `dataset` becomes one
+ * case per row, named "<case> [row N]", with row values taking precedence.
+ */
+export function expandTestCase(testCase: TraditionalTestCase, variables: TemplateVariables = {}): TraditionalTestCase[] {
+  const baseVariables = { ...testCase.variables, ...variables };
+  const rows = testCase.dataset?.length ? testCase.dataset : [undefined];
+
+  return rows.map((row, index) => {
+    const rowVariables = { ...baseVariables, ...row };
+    const name = row ? `${testCase.name} [row ${index + 1}]` : testCase.name;
+    try {
+      return {
+        name,
+        steps: testCase.steps.map(step => renderStep(step, rowVariables)),
+        assertions: (testCase.assertions ?? []).map(assertion => renderAssertion(assertion, rowVariables)),
+        screenshot_on_failure: testCase.screenshot_on_failure,
+        retry: testCase.retry,
+        mocks: testCase.mocks?.map(mock => renderMock(mock, rowVariables))
+      };
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new TemplateError(`${name}: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Produces the test the executor runs. Variables are layered: config
+ * defaults (`variables` on the suite, then on the case) < `requestVariables`
+ * < dataset row. A single case with a dataset is promoted to a suite so every
+ * row is reported separately.
+ */
+export function resolveTraditionalTest(
+  test: TraditionalTestCase | TraditionalTestSuite,
+  requestVariables: TemplateVariables = {}
+): TraditionalTestCase | TraditionalTestSuite {
+  if (!Array.isArray((test as TraditionalTestSuite).cases)) {
+    const testCase = test as TraditionalTestCase;
+    const expanded = expandTestCase(testCase, requestVariables);
+    if (!testCase.dataset?.length) {
+      return expanded[0];
+    }
+    return { name: testCase.name, cases: expanded, screenshot_on_failure: testCase.screenshot_on_failure };
+  }
+
+  const suite = test as TraditionalTestSuite;
+  const suiteVariables = { ...suite.variables, ...requestVariables };
+  const renderHook = (steps?: TestStep[]) => steps?.map(step => renderStep(step, suiteVariables));
+
+  return {
+    name: suite.name,
+    beforeAll: renderHook(suite.beforeAll),
+    beforeEach: renderHook(suite.beforeEach),
+    afterEach: renderHook(suite.afterEach),
+    afterAll: renderHook(suite.afterAll),
+    // Case-level defaults sit between the suite defaults and the request
+    cases: suite.cases.flatMap(testCase => expandTestCase(
+      { ...testCase, variables: { ...suite.variables, ...testCase.variables } },
+      requestVariables
+    )),
+    screenshot_on_failure: suite.screenshot_on_failure,
+    retry: suite.retry,
+    mocks: suite.mocks?.map(mock => renderMock(mock, suiteVariables))
+  };
+}
@@ -0,0 +1,442 @@
+import type { CountComparator, TestAssertion, TestStep, TraditionalTestCase } from './types';
+
+export type ImportFormat = 'chrome-recorder' | 'playwright-codegen';
+
+export interface ImportResult {
+  test_case: TraditionalTestCase;
+  // Host of the first navigation, usable as the config's url_pattern
+  url_pattern?: string;
+  // One entry per source step or line that could not be mapped exactly
+  warnings: string[];
+}
+
+// Subset of the Chrome DevTools Recorder JSON export that the importer reads
+interface RecorderStep {
+  type: string;
+  url?: string;
+  value?: string;
+  key?: string;
+  selectors?: Array<string | string[]>;
+  frame?: number[];
+  visible?: boolean;
+  count?: number;
+  operator?: '>=' | '==' | '<=';
+  expression?: string;
+  x?: number;
+  y?: number;
+  timeout?: number;
+}
+
+interface RecorderRecording {
+  title?: string;
+  steps: RecorderStep[];
+}
+
+const RECORDER_OPERATORS: Record<string, CountComparator> = { '>=': 'gte', '==': 'eq', '<=': 'lte' };
+
+/**
+ * Picks the importer from the payload shape: a recording object (or its JSON
+ * text) is a Recorder export, anything else is treated as codegen source.
+ */
+export function detectImportFormat(source: unknown): ImportFormat {
+  if (typeof source === 'object' && source !== null) {
+    return 'chrome-recorder';
+  }
+  if (typeof source === 'string' && source.trim().startsWith('{')) {
+    return 'chrome-recorder';
+  }
+  return 'playwright-codegen';
+}
+
+export function importTest(format: ImportFormat, source: unknown, name?: string): ImportResult {
+  if (format === 'chrome-recorder') {
+    const recording = typeof source === 'string' ? JSON.parse(source) : source;
+    return importChromeRecording(recording as RecorderRecording, name);
+  }
+  if (typeof source !== 'string') {
+    throw new Error('Playwright codegen source must be a string');
+  }
+  return importPlaywrightCodegen(source, name);
+}
+
+export function importChromeRecording(recording: RecorderRecording, name?: string): ImportResult {
+  if (!recording || !Array.isArray(recording.steps)) {
+    throw new Error('Recording must have a steps array');
+  }
+
+  const steps: TestStep[] = [];
+  const assertions: TestAssertion[] = [];
+  const warnings: string[] = [];
+
+  recording.steps.forEach((step, index) => {
+    const label = `Step ${index + 1} (${step.type})`;
+    if (step.frame?.length) {
+      warnings.push(`${label}: steps inside iframes are not supported`);
+      return;
+    }
+
+    const selector = step.selectors ? pickRecorderSelector(step.selectors) : undefined;
+    const needsSelector = ['click', 'doubleClick', 'change', 'hover', 'waitForElement'].includes(step.type);
+    if (needsSelector && !selector) {
+      warnings.push(`${label}: none of the recorded selectors can be used`);
+      return;
+    }
+
+    switch (step.type) {
+      case 'navigate':
+        steps.push({ action: 'navigate', url: step.url });
+        break;
+      case 'click':
+        steps.push({ action: 'click', selector });
+        break;
+      case 'doubleClick':
+        steps.push({ action: 'click', selector }, { action: 'click', selector });
+        warnings.push(`${label}: imported as two clicks`);
+        break;
+      case 'change':
+        steps.push({ action: 'type', selector, value: step.value ?? '' });
+        break;
+      case 'keyDown':
+        steps.push({ action: 'press', value: step.key });
+        break;
+      case 'keyUp':
+      case 'close':
+        // keyDown already presses the key; close is implied by the end of the test
+        break;
+      case 'hover':
+        steps.push({ action: 'hover', selector });
+        break;
+      case 'scroll':
+        steps.push(selector
+          ? { action: 'scroll_into_view', selector }
+          : { action: 'evaluate', script: `window.scrollTo(${step.x ?? 0}, ${step.y ?? 0})` });
+        break;
+      case 'waitForElement':
+        steps.push({ action: 'wait_for', selector, state: step.visible === false ? 'hidden' : 'visible', timeout: step.timeout });
+        if (step.count !== undefined) {
+          assertions.push({
+            type: 'count',
+            selector,
+            expected: step.count,
+            comparator: RECORDER_OPERATORS[step.operator ?? '=='],
+            description: `${selector} count ${step.operator ?? '=='} ${step.count}`
+          });
+          warnings.push(`${label}: the element count is checked after all steps`);
+        }
+        break;
+      default:
+        warnings.push(`${label}: not supported`);
+    }
+  });
+
+  return finishImport(name || recording.title || 'Imported recording', steps, assertions, warnings);
+}
+
+// Recorder selector groups are tried in order; each group is a chain through
+// shadow roots. "aria/" selectors have no Playwright engine equivalent.
+function pickRecorderSelector(selectors: Array<string | string[]>): string | undefined {
+  const converted = selectors.map(group => {
+    const chain = Array.isArray(group) ? group : [group];
+    const parts = chain.map(convertRecorderSelector);
+    return parts.every(Boolean) ? parts.join(' >> ') : undefined;
+  });
+  return converted.find(Boolean);
+}
+
+function convertRecorderSelector(selector: string): string | undefined {
+  if (selector.startsWith('aria/')) return undefined;
+  if (selector.startsWith('xpath/')) return `xpath=${selector.slice('xpath/'.length)}`;
+  // Playwright's CSS engine already pierces open shadow roots
+  if (selector.startsWith('pierce/')) return selector.slice('pierce/'.length);
+  if (selector.startsWith('text/')) return `text=${selector.slice('text/'.length)}`;
+  return selector;
+}
+
+interface Call {
+  name: string;
+  args: string;
+}
+
+/**
+ * Converts the statements Playwright codegen emits (`page.goto`, locator
+ * actions, `page.keyboard.press` and `expect` matchers) line by line.
+ * Everything else is reported as a warning.
+ */
+export function importPlaywrightCodegen(source: string, name?: string): ImportResult {
+  const steps: TestStep[] = [];
+  const assertions: TestAssertion[] = [];
+  const warnings: string[] = [];
+  let testName: string | undefined;
+
+  source.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const label = `Line ${index + 1}`;
+
+    const testTitle = line.match(/^test\(\s*(['"`])(.*?)\1/);
+    if (testTitle) {
+      testName ??= testTitle[2];
+      return;
+    }
+    if (!line.startsWith('await ')) {
+      return; // imports, test wrappers, braces and comments
+    }
+
+    try {
+      const statement = line.replace(/^await\s+/, '').replace(/;\s*$/, '');
+      if (statement.startsWith('expect(')) {
+        const assertion = convertExpect(statement);
+        if (steps.length > 0 && assertions.length === 0) {
+          warnings.push(`${label}: assertions run after all steps`);
+        }
+        assertions.push(assertion);
+      } else {
+        const step = convertPageCall(statement);
+        if (step) steps.push(step);
+      }
+    } catch (error) {
+      warnings.push(`${label}: ${error instanceof Error ? error.message : String(error)}: ${line}`);
+    }
+  });
+
+  return finishImport(name || testName || 'Imported codegen test', steps, assertions, warnings);
+}
+
+function convertPageCall(statement: string): TestStep | undefined {
+  const keyboard = statement.match(/^page\.keyboard\.press\((.*)\)$/);
+  if (keyboard) {
+    return { action: 'press', value: stringArg(keyboard[1]) };
+  }
+  if (!statement.startsWith('page.')) {
+    throw new Error('not a page statement');
+  }
+  const device = statement.match(/^page\.(mouse|keyboard|touchscreen)\./);
+  if (device) {
+    throw new Error(`page.${device[1]} input other than keyboard.press is not supported`);
+  }
+
+  const calls = parseCalls(statement.slice('page'.length));
+  const action = calls.pop();
+  if (!action) {
+    throw new Error('no action');
+  }
+
+  if (calls.length === 0) {
+    switch (action.name) {
+      case 'goto': return { action: 'navigate', url: stringArg(action.args) };
+      case 'goBack': return { action: 'go_back' };
+      case 'reload': return { action: 'reload' };
+      case 'waitForURL': return { action: 'wait_for_url', url: urlArg(action.args) };
+      case 'waitForTimeout': return { action: 'wait', timeout: Number(action.args) };
+      case 'screenshot': return { action: 'screenshot' };
+      case 'close': return undefined;
+      default: throw new Error(`page.${action.name}() is not supported`);
+    }
+  }
+
+  const selector = locatorSelector(calls);
+  switch (action.name) {
+    case 'click': return { action: 'click', selector };
+    case 'fill':
+    case 'type':
+    case 'pressSequentially':
+      return { action: 'type', selector, value: stringArg(action.args) };
+    case 'press': return { action: 'press', selector, value: stringArg(action.args) };
+    case 'check': return { action: 'check', selector };
+    case 'uncheck': return { action: 'uncheck', selector };
+    case 'hover': return { action: 'hover', selector };
+    case 'selectOption': return { action: 'select', selector, value: stringArg(action.args) };
+    case 'scrollIntoViewIfNeeded': return { action: 'scroll_into_view', selector };
+    case 'waitFor': {
+      const state = action.args.match(/state:\s*['"](\w+)['"]/)?.[1] as TestStep['state'] | undefined;
+      return { action: 'wait_for', selector, state: state ?? 'visible' };
+    }
+    default: throw new Error(`locator.${action.name}() is not supported`);
+  }
+}
+
+function convertExpect(statement: string): TestAssertion {
+  const target = readBalanced(statement, 'expect'.length);
+  const calls = parseCalls(statement.slice('expect'.length + target.length + 2));
+  const not = calls[0]?.name === 'not' && calls[0].args === '' ? Boolean(calls.shift()) : false;
+  const matcher = calls.pop();
+  if (!matcher || calls.length > 0) {
+    throw new Error('unsupported expect chain');
+  }
+
+  const onPage = target.trim() === 'page';
+  const selector = onPage ? undefined : locatorSelector(parseCalls(target.trim().replace(/^page/, '')));
+  const timeout = matcher.args.match(/timeout:\s*(\d+)/)?.[1];
+  const base = {
+    selector,
+    ...(not ? { not: true } : {}),
+    ...(timeout ? { timeout: Number(timeout) } : {}),
+    description: `${matcher.name}${selector ? ` ${selector}` : ''}`
+  };
+  const text = () => textExpectation(matcher.args);
+
+  switch (matcher.name) {
+    case 'toBeVisible': return { type: 'visible', ...base };
+    case 'toBeHidden': return { type: 'visible', ...base, not: !not };
+    case 'toBeAttached': return { type: 'exists', ...base };
+    case 'toBeChecked': return { type: 'checked', ...base };
+    case 'toBeEnabled': return { type: 'enabled', ...base };
+    case 'toBeDisabled': return { type: 'enabled', ...base, not: !not };
+    case 'toHaveText': return { type: 'text', ...base, ...text() };
+    case 'toContainText': return { type: 'text', ...base, ...text(), match: 'contains' };
+    case 'toHaveValue': return { type: 'value', ...base, ...text() };
+    case 'toHaveCount': return { type: 'count', ...base, expected: Number(matcher.args.split(',')[0]) };
+    case 'toHaveURL': return { type: 'url', ...base, ...text() };
+    case 'toHaveTitle': return { type: 'title', ...base, ...text() };
+    case 'toHaveAttribute': {
+      const [attribute, ...rest] = splitArgs(matcher.args);
+      const value = rest.find(arg => !arg.startsWith('{'));
+      return { type: 'attribute', ...base, attribute: stringArg(attribute), ...(value ? textExpectation(value) : {}) };
+    }
+    case 'toHaveCSS': {
+      const [property, value] = splitArgs(matcher.args);
+      return { type: 'css_property', ...base, property: stringArg(property), ...textExpectation(value ?? '') };
+    }
+    default: throw new Error(`${matcher.name}() is not supported`);
+  }
+}
+
+// Maps codegen locator calls onto selector-engine strings the worker's client accepts
+function locatorSelector(calls: Call[]): string {
+  const parts: string[] = [];
+  for (const call of calls) {
+    const [first, options = ''] = splitArgs(call.args);
+    const exact = /exact:\s*true/.test(options);
+    const quoted = (value: string) => `${JSON.stringify(value)}${exact ? 's' : 'i'}`;
+
+    switch (call.name) {
+      case 'locator': parts.push(stringArg(first)); break;
+      case 'getByRole': {
+        const roleName = options.match(/name:\s*(['"`])((?:\\.|(?!\1).)*)\1/)?.[2];
+        parts.push(`role=${stringArg(first)}${roleName !== undefined ? `[name=${quoted(roleName)}]` : ''}`);
+        break;
+      }
+      case 'getByText': parts.push(`text=${quoted(stringArg(first))}`); break;
+      case 'getByLabel': parts.push(`internal:label=${quoted(stringArg(first))}`); break;
+      case 'getByPlaceholder': parts.push(`[placeholder=${quoted(stringArg(first))}]`); break;
+      case 'getByAltText': parts.push(`[alt=${quoted(stringArg(first))}]`); break;
+      case 'getByTitle': parts.push(`[title=${quoted(stringArg(first))}]`); break;
+      case 'getByTestId': parts.push(`[data-testid=${JSON.stringify(stringArg(first))}]`); break;
+      case 'first': parts.push('nth=0'); break;
+      case 'last': parts.push('nth=-1'); break;
+      case 'nth': parts.push(`nth=${Number(first)}`); break;
+      default: throw new Error(`${call.name}() locators are not supported`);
+    }
+  }
+  if (parts.length === 0) {
+    throw new Error('missing locator');
+  }
+  return parts.join(' >> ');
+}
+
+// `.name(args)` segments; property accesses such as `.not` become calls with empty args
+function parseCalls(chain: string): Call[] {
+  const calls: Call[] = [];
+  let position = 0;
+  while (position < chain.length) {
+    const match = chain.slice(position).match(/^\.(\w+)/);
+    if (!match) {
+      throw new Error(`cannot parse "${chain.slice(position)}"`);
+    }
+    position += match[0].length;
+    if (chain[position] === '(') {
+      const args = readBalanced(chain, position);
+      calls.push({ name: match[1], args: args.trim() });
+      position += args.length + 2;
+    } else {
+      calls.push({ name: match[1], args: '' });
+    }
+  }
+  return calls;
+}
+
+// Returns the text between the parenthesis at `open` and its match, skipping strings
+function readBalanced(text: string, open: number): string {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') quote = char;
+    else if (char === '(' || char === '{' || char === '[') depth++;
+    else if (char === ')' || char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) return text.slice(open + 1, i);
+    }
+  }
+  throw new Error('unbalanced parentheses');
+}
+
+// Splits top-level arguments on commas outside strings, objects and regexes
+function splitArgs(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < args.length; i++) {
+    const char = args[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') quote = char;
+    else if (char === '/' && depth === 0 && args.slice(start, i).trim() === '') quote = '/';
+    else if (char === '(' || char === '{' || char === '[') depth++;
+    else if (char === ')' || char === '}' || char === ']') depth--;
+    else if (char === ',' && depth === 0) {
+      parts.push(args.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  const last = args.slice(start).trim();
+  if (last) parts.push(last);
+  return parts;
+}
+
+function stringArg(args: string): string {
+  const literal = splitArgs(args)[0]?.match(/^(['"`])((?:\\.|(?!\1).)*)\1$/s);
+  if (!literal || (literal[1] === '`' && literal[2].includes('${'))) {
+    throw new Error(`expected a string literal, got "${args}"`);
+  }
+  return literal[2].replace(/\\(.)/g, (_match, char: string) => ({ n: '\n', t: '\t' } as Record<string, string>)[char] ?? char);
+}
+
+// waitForURL accepts the same "/regex/" form as the client
+function urlArg(args: string): string {
+  const first = splitArgs(args)[0] ?? '';
+  return /^\/.+\/[a-z]*$/.test(first) ? first : stringArg(first);
+}
+
+function textExpectation(args: string): Pick<TestAssertion, 'expected' | 'match' | 'ignore_case'> {
+  const [first, options = ''] = splitArgs(args);
+  const ignoreCase = /ignoreCase:\s*true/.test(options) ? { ignore_case: true } : {};
+  if (/^\/.+\/[a-z]*$/.test(first ?? '')) {
+    return { expected: first, match: 'regex', ...ignoreCase };
+  }
+  return { expected: stringArg(first ?? ''), ...ignoreCase };
+}
+
+function finishImport(name: string, steps: TestStep[], assertions: TestAssertion[], warnings: string[]): ImportResult {
+  const firstUrl = steps.find(step => step.action === 'navigate')?.url;
+  let urlPattern: string | undefined;
+  try {
+    urlPattern = firstUrl ? new URL(firstUrl).host : undefined;
+  } catch {
+    urlPattern = undefined;
+  }
+
+  return {
+    test_case: { name, steps, assertions },
+    url_pattern: urlPattern,
+    warnings
+  };
+}
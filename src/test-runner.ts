@@ -0,0 +1,146 @@
+import { DatabaseService } from './database';
+import { Logger } from './logger';
+import { TraditionalTestExecutor, isTraditionalTestSuite } from './traditional-test-executor';
+import { AgenticTestExecutor } from './agentic-test-executor';
+import { PlaywrightClient } from './playwright-client';
+import { createAgentProvider, AgentProviderSettings } from './agent-provider';
+import { createArtifactStore, SessionArtifacts } from './artifact-store';
+import { CancellationWatcher } from './cancellation';
+import { SecretCipher, SecretResolvingClient, SecretVault, collectSecretReferences } from './secrets';
+import { resolveTraditionalTest } from './templating';
+import { VisualBaselines, visualBaselineScope } from './visual-baselines';
+import { MockFixtures } from './route-mocks';
+import { NotificationService } from './notifications';
+import type {
+  AgenticTestConfig,
+  TemplateVariables,
+  TestExecutionResult,
+  TraditionalTestCase,
+  TraditionalTestSuite
+} from './types';
+
+/**
+ * Everything needed to execute a session whose `test_sessions` row already
+ * exists. Jobs are sent through the TEST_QUEUE binding, so they must stay
+ * JSON-serializable.
+ */
+export type TestJob =
+  | {
+    kind: 'traditional';
+    sessionId: string;
+    url: string;
+    configId?: number;
+    testCase: TraditionalTestCase | TraditionalTestSuite;
+    // Request-level `{{name}}` values, applied when the job runs
+    variables?: TemplateVariables;
+  }
+  | {
+    kind: 'agentic';
+    sessionId: string;
+    url: string;
+    configId?: number;
+    config: AgenticTestConfig;
+    provider: AgentProviderSettings;
+  };
+
+// Generate unique session ID
+export function generateSessionId(): string {
+  return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Runs a job to completion and records the final session status. Failures
+ * are written to the session rather than thrown, so queue deliveries never
+ * need to be retried.
+ */
+export async function runTestJob(job: TestJob, env: Env, baseDb: DatabaseService): Promise<TestExecutionResult> {
+  let db = baseDb;
+  let logger = new Logger(db, job.sessionId, job.configId);
+  const startTime = Date.now();
+  const cancellation = new CancellationWatcher(db, job.sessionId);
+
+  let result: TestExecutionResult;
+  try {
+    // The session may have been cancelled while the job sat in the queue
+    if (await cancellation.check()) {
+      await logger.logInfo('Session cancelled before execution started');
+    }
+    cancellation.start();
+
+    // Secrets referenced as {{secret:NAME}} are decrypted for this run only. From here on
+    // every log line, result row and the session summary is scrubbed of their values.
+    const vault = await SecretVault.load(
+      baseDb,
+      env.SECRETS_KEY ? SecretCipher.fromEnv(env) : null,
+      collectSecretReferences(job)
+    );
+    if (vault.size > 0) {
+      db = baseDb.withRedactor(vault);
+      logger = new Logger(db, job.sessionId, job.configId);
+    }
+
+    const browserClient = new PlaywrightClient(env.BROWSER);
+    const playwrightClient = vault.size > 0 ? new SecretResolvingClient(browserClient, vault) : browserClient;
+    const store = createArtifactStore(env);
+    const artifacts = new SessionArtifacts(store, db, job.sessionId);
+
+    if (job.kind === 'traditional') {
+      const visual = new VisualBaselines(store, db, artifacts, job.sessionId, visualBaselineScope(job.configId, job.url));
+      const fixtures = new MockFixtures(store, db);
+      const executor = new TraditionalTestExecutor(playwrightClient, db, logger, artifacts, cancellation.signal, visual, fixtures);
+      const test = resolveTraditionalTest(job.testCase, job.variables);
+      result = isTraditionalTestSuite(test)
+        ? await executor.executeSuite(job.sessionId, test)
+        : await executor.executeTest(job.sessionId, test);
+    } else {
+      const provider = createAgentProvider(env, job.provider, job.config);
+      const executor = new AgenticTestExecutor(playwrightClient, db, logger, provider, artifacts, cancellation.signal);
+      result = await executor.executeTest(job.sessionId, job.config, job.url);
+    }
+  } catch (error) {
+    await logger.logError(error as Error, { job: job.kind });
+    result = {
+      session_id: job.sessionId,
+      success: false,
+      results: [],
+      logs: [],
+      screenshots: [],
+      error_summary: error instanceof Error ? error.message : String(error),
+      execution_time_ms: Date.now() - startTime
+    };
+  } finally {
+    cancellation.stop();
+  }
+
+  // The wait=true response gets the same scrubbed copy that is stored
+  const redactedResult: TestExecutionResult = JSON.parse(db.redact(JSON.stringify(result)));
+  const status = redactedResult.success ? 'completed' : 'failed';
+  await db.finishTestSession(job.sessionId, status, {
+    end_time: new Date().toISOString(),
+    results: JSON.stringify(redactedResult),
+    error_summary: redactedResult.error_summary
+  });
+
+  await logger.logSessionEnd(redactedResult.cancelled ? 'cancelled' : status, redactedResult);
+
+  // Delivery failures are recorded on the delivery and retried by the cron handler
+  try {
+    await new NotificationService(env, baseDb).notifySessionFinished(job.sessionId);
+  } catch (error) {
+    console.error(`Notifications for ${job.sessionId} failed`, error);
+  }
+  return redactedResult;
+}
+
+/**
+ * Hands a job to the queue consumer. Without a queue binding (e.g. plain
+ * `wrangler dev` with queues disabled) the job runs after the response via
+ * waitUntil, which is subject to the shorter waitUntil time limit.
+ */
+export async function enqueueTestJob(job: TestJob, env: Env, ctx: ExecutionContext, db: DatabaseService): Promise<void> {
+  if (env.TEST_QUEUE) {
+    await env.TEST_QUEUE.send(job);
+    return;
+  }
+  ctx.waitUntil(runTestJob(job, env, db));
+}
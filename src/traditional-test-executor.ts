@@ -1,94 +1,141 @@
 import type {
   TraditionalTestCase,
+  TraditionalTestSuite,
+  SuiteCaseResult,
+  SuiteSummary,
   TestStep,
   TestAssertion,
   TestExecutionResult,
-  PlaywrightAutomationClient
+  TestResult,
+  PlaywrightAutomationClient,
+  InterceptedRequest,
+  RetryPolicy,
+  RouteMock,
+  VisualComparison
 } from './types';
 import { Logger } from './logger';
 import { DatabaseService } from './database';
+import { SessionArtifacts } from './artifact-store';
+import { VisualBaselines } from './visual-baselines';
+import { SessionCancelledError, disposeOnAbort } from './cancellation';
+import { assertionFailure, assertionPasses, AssertionValue, validateAssertion } from './assertions';
+import { classifyError, resolveRetryPolicy, retryDelay, ResolvedRetryPolicy } from './retry-policy';
+import { MockFixtures, buildMockHandler, describeMock } from './route-mocks';
+
+const DEFAULT_ASSERTION_TIMEOUT_MS = 5_000;
+const ASSERTION_POLL_INITIAL_MS = 100;
+const ASSERTION_POLL_MAX_MS = 1_000;
+const DEFAULT_STEP_TIMEOUT_MS = 10_000;
+
+interface StepBlock {
+  // Prefix for test_results.test_name, e.g. "Checkout - beforeEach"
+  label: string;
+  // Keeps artifact names unique when several blocks run in one session
+  artifactPrefix: string;
+  steps: TestStep[];
+  assertions: TestAssertion[];
+}
+
+interface BlockContext {
+  sessionId: string;
+  screenshots: string[];
+  screenshotOnFailure: boolean;
+  // Inherited retry policies, most specific (case) first
+  retry: Array<RetryPolicy | undefined>;
+}
+
+interface BlockOutcome {
+  success: boolean;
+  error?: string;
+  // Some step or assertion passed only after a retry
+  flaky?: boolean;
+}
+
+type Attempted<T> = { attempts: number; value: T } | { attempts: number; error: unknown };
 
 export class TraditionalTestExecutor {
   private logger: Logger;
   private db: DatabaseService;
   private playwright: PlaywrightAutomationClient;
+  private artifacts: SessionArtifacts;
+  private signal?: AbortSignal;
+  private visual?: VisualBaselines;
+  private fixtures?: MockFixtures;
 
-  constructor(playwright: PlaywrightAutomationClient, db: DatabaseService, logger: Logger) {
+  constructor(
+    playwright: PlaywrightAutomationClient,
+    db: DatabaseService,
+    logger: Logger,
+    artifacts: SessionArtifacts,
+    signal?: AbortSignal,
+    visual?: VisualBaselines,
+    fixtures?: MockFixtures
+  ) {
     this.playwright = playwright;
     this.db = db;
     this.logger = logger;
+    this.artifacts = artifacts;
+    this.signal = signal;
+    this.visual = visual;
+    this.fixtures = fixtures;
   }
 
   async executeTest(sessionId: string, testCase: TraditionalTestCase): Promise<TestExecutionResult> {
     const startTime = Date.now();
     const results: any[] = [];
-    const logs: any[] = [];
-    const screenshots: string[] = [];
-    let success = true;
+    const context: BlockContext = {
+      sessionId,
+      screenshots: [],
+      screenshotOnFailure: testCase.screenshot_on_failure !== false,
+      retry: [testCase.retry]
+    };
+
+    const releaseBrowser = disposeOnAbort(this.playwright, this.signal);
 
     await this.logger.logTestStart(testCase.name);
 
     try {
-      // Execute test steps
-      for (const step of testCase.steps) {
-        try {
-          await this.executeStep(step, screenshots);
-          await this.db.saveTestResult({
-            session_id: sessionId,
-            test_name: `${testCase.name} - ${step.description}`,
-            status: 'passed',
-            execution_time_ms: Date.now() - startTime
-          });
-        } catch (error) {
-          success = false;
-          await this.db.saveTestResult({
-            session_id: sessionId,
-            test_name: `${testCase.name} - ${step.description}`,
-            status: 'failed',
-            error_message: error instanceof Error ? error.message : String(error),
-            execution_time_ms: Date.now() - startTime
-          });
-          await this.logger.logError(error as Error, { step });
-          throw error; // Stop execution on first failure
-        }
-      }
-
-      // Execute assertions
-      for (const assertion of testCase.assertions) {
-        try {
-          await this.executeAssertion(assertion);
-          await this.db.saveTestResult({
-            session_id: sessionId,
-            test_name: `${testCase.name} - ${assertion.description}`,
-            status: 'passed',
-            execution_time_ms: Date.now() - startTime
-          });
-        } catch (error) {
-          success = false;
-          await this.db.saveTestResult({
-            session_id: sessionId,
-            test_name: `${testCase.name} - ${assertion.description}`,
-            status: 'failed',
-            error_message: error instanceof Error ? error.message : String(error),
-            execution_time_ms: Date.now() - startTime
-          });
-          await this.logger.logError(error as Error, { assertion });
-        }
+      let outcome = await this.installMocks(testCase.mocks, 'page');
+      if (outcome.success) {
+        outcome = await this.runBlock({
+          label: testCase.name,
+          artifactPrefix: '',
+          steps: testCase.steps,
+          assertions: testCase.assertions
+        }, context);
       }
 
       const executionTime = Date.now() - startTime;
-      await this.logger.logTestEnd(testCase.name, success ? 'passed' : 'failed', executionTime);
+      await this.logger.logTestEnd(testCase.name, outcome.success ? (outcome.flaky ? 'flaky' : 'passed') : 'failed', executionTime);
 
       return {
         session_id: sessionId,
-        success,
+        success: outcome.success,
         results,
         logs: await this.db.getActionLogs(sessionId),
-        screenshots,
+        screenshots: context.screenshots,
+        error_summary: outcome.error,
         execution_time_ms: executionTime
       };
     } catch (error) {
       const executionTime = Date.now() - startTime;
+
+      if (error instanceof SessionCancelledError) {
+        await this.logger.logInfo('Test cancelled; skipping remaining steps');
+        await this.logger.logTestEnd(testCase.name, 'skipped', executionTime);
+
+        return {
+          session_id: sessionId,
+          success: false,
+          cancelled: true,
+          results,
+          logs: await this.db.getActionLogs(sessionId),
+          screenshots: context.screenshots,
+          error_summary: error.message,
+          execution_time_ms: executionTime
+        };
+      }
+
       await this.logger.logTestEnd(testCase.name, 'failed', executionTime);
 
       return {
@@ -96,17 +143,407 @@ export class TraditionalTestExecutor {
         success: false,
         results,
         logs: await this.db.getActionLogs(sessionId),
-        screenshots,
+        screenshots: context.screenshots,
         error_summary: error instanceof Error ? error.message : String(error),
         execution_time_ms: executionTime
       };
     } finally {
-      await this.playwright.dispose();
+      await releaseBrowser();
     }
   }
 
-  private async executeStep(step: TestStep, screenshots: string[]): Promise<void> {
+  /**
+   * Runs every case of a suite in one browser. Hooks run as their own result
+   * rows; a failed beforeAll skips all cases, a failed beforeEach/afterEach
+   * fails only its case, and afterEach/afterAll always run. Each case also
+   * gets a summary row named "<suite> › <case>".
+   */
+  async executeSuite(sessionId: string, suite: TraditionalTestSuite): Promise<TestExecutionResult> {
     const startTime = Date.now();
+    const screenshots: string[] = [];
+    const summary: SuiteSummary = {
+      name: suite.name,
+      total: suite.cases.length,
+      passed: 0,
+      failed: 0,
+      skipped: 0,
+      flaky: 0,
+      hook_errors: [],
+      cases: []
+    };
+
+    const releaseBrowser = disposeOnAbort(this.playwright, this.signal);
+
+    await this.logger.logTestStart(suite.name);
+
+    let cancelled: SessionCancelledError | undefined;
+    try {
+      // Suite mocks count as part of beforeAll: when one cannot be installed no case runs
+      const suiteMocks = await this.installMocks(suite.mocks, 'context');
+      const beforeAll = !suiteMocks.success ? suiteMocks : await this.runBlock({
+        label: `${suite.name} - beforeAll`,
+        artifactPrefix: 'before-all-',
+        steps: suite.beforeAll ?? [],
+        assertions: []
+      }, this.blockContext(sessionId, screenshots, suite.screenshot_on_failure, [suite.retry]));
+      if (!beforeAll.success) {
+        summary.hook_errors.push(`beforeAll: ${beforeAll.error}`);
+      }
+
+      for (const [index, testCase] of suite.cases.entries()) {
+        const result = beforeAll.success
+          ? await this.runSuiteCase(sessionId, suite, testCase, index, screenshots)
+          : await this.recordCaseResult(suite, testCase, 'skipped', 0, sessionId, 'beforeAll failed');
+        summary.cases.push(result);
+      }
+
+      const afterAll = await this.runBlock({
+        label: `${suite.name} - afterAll`,
+        artifactPrefix: 'after-all-',
+        steps: suite.afterAll ?? [],
+        assertions: []
+      }, this.blockContext(sessionId, screenshots, suite.screenshot_on_failure, [suite.retry]));
+      if (!afterAll.success) {
+        summary.hook_errors.push(`afterAll: ${afterAll.error}`);
+      }
+    } catch (error) {
+      if (!(error instanceof SessionCancelledError)) {
+        throw error;
+      }
+      cancelled = error;
+      await this.logger.logInfo('Suite cancelled; skipping remaining cases', { completedCases: summary.cases.length });
+      for (const testCase of suite.cases.slice(summary.cases.length)) {
+        summary.cases.push(await this.recordCaseResult(suite, testCase, 'skipped', 0, sessionId, 'Session cancelled'));
+      }
+    } finally {
+      await releaseBrowser();
+    }
+
+    for (const result of summary.cases) {
+      summary[result.status]++;
+    }
+
+    const success = !cancelled && summary.failed === 0 && summary.skipped === 0 && summary.hook_errors.length === 0;
+    const executionTime = Date.now() - startTime;
+    await this.logger.logTestEnd(suite.name, cancelled ? 'skipped' : success ? 'passed' : 'failed', executionTime);
+
+    return {
+      session_id: sessionId,
+      success,
+      cancelled: cancelled ? true : undefined,
+      results: [],
+      logs: await this.db.getActionLogs(sessionId),
+      screenshots,
+      error_summary: cancelled?.message ?? (success ? undefined : summarizeSuite(summary)),
+      execution_time_ms: executionTime,
+      suite: summary
+    };
+  }
+
+  private async runSuiteCase(
+    sessionId: string,
+    suite: TraditionalTestSuite,
+    testCase: TraditionalTestCase,
+    index: number,
+    screenshots: string[]
+  ): Promise<SuiteCaseResult> {
+    const caseStart = Date.now();
+    const prefix = `case-${index + 1}-`;
+    const context = this.blockContext(
+      sessionId,
+      screenshots,
+      testCase.screenshot_on_failure ?? suite.screenshot_on_failure,
+      [testCase.retry, suite.retry]
+    );
+
+    this.throwIfCancelled(sessionId);
+    await this.playwright.newPage();
+    await this.logger.logTestStart(testCase.name);
+
+    let outcome = await this.installMocks(testCase.mocks, 'page');
+    if (outcome.success) {
+      outcome = await this.runBlock({
+        label: `${testCase.name} - beforeEach`,
+        artifactPrefix: `${prefix}before-each-`,
+        steps: suite.beforeEach ?? [],
+        assertions: []
+      }, context);
+    }
+
+    if (outcome.success) {
+      outcome = await this.runBlock({
+        label: testCase.name,
+        artifactPrefix: prefix,
+        steps: testCase.steps,
+        assertions: testCase.assertions ?? []
+      }, context);
+    }
+
+    const afterEach = await this.runBlock({
+      label: `${testCase.name} - afterEach`,
+      artifactPrefix: `${prefix}after-each-`,
+      steps: suite.afterEach ?? [],
+      assertions: []
+    }, context);
+
+    const status = !outcome.success || !afterEach.success
+      ? 'failed'
+      : outcome.flaky || afterEach.flaky ? 'flaky' : 'passed';
+    const error = outcome.success
+      ? afterEach.error && `afterEach: ${afterEach.error}`
+      : outcome.error ?? 'One or more assertions failed';
+    const executionTime = Date.now() - caseStart;
+
+    await this.logger.logTestEnd(testCase.name, status, executionTime);
+    return await this.recordCaseResult(suite, testCase, status, executionTime, sessionId, error);
+  }
+
+  private async recordCaseResult(
+    suite: TraditionalTestSuite,
+    testCase: TraditionalTestCase,
+    status: SuiteCaseResult['status'],
+    executionTime: number,
+    sessionId: string,
+    error?: string
+  ): Promise<SuiteCaseResult> {
+    await this.db.saveTestResult({
+      session_id: sessionId,
+      test_name: `${suite.name} › ${testCase.name}`,
+      status,
+      error_message: error,
+      execution_time_ms: executionTime
+    });
+    return { name: testCase.name, status, error, execution_time_ms: executionTime };
+  }
+
+  // Case and suite mocks, installed before any step runs
+  private async installMocks(mocks: RouteMock[] | undefined, scope: 'page' | 'context'): Promise<BlockOutcome> {
+    try {
+      for (const mock of mocks ?? []) {
+        await this.installMock(mock, scope);
+      }
+      return { success: true };
+    } catch (error) {
+      await this.logger.logError(error as Error, { mocks });
+      return { success: false, error: `Mock setup failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  private async installMock(mock: RouteMock, scope: 'page' | 'context'): Promise<void> {
+    await this.logger.timedExecution('mock_route', {
+      mock: describeMock(mock),
+      scope,
+      status: mock.abort ? undefined : mock.status ?? 200,
+      fixture: mock.fixture,
+      abort: mock.abort,
+      delay_ms: mock.delay_ms,
+      times: mock.times
+    }, async () => {
+      const handler = this.fixtures ? await this.fixtures.resolve(mock) : buildMockHandler(mock);
+      await this.playwright.mockRoute(handler, scope, request => this.logInterceptedRequest(request));
+    });
+  }
+
+  // Called from the browser's route handler, outside any step
+  private logInterceptedRequest(request: InterceptedRequest): void {
+    this.logger.logMockRequest(request).catch(error => {
+      console.error('Failed to log mocked request', error);
+    });
+  }
+
+  private blockContext(
+    sessionId: string,
+    screenshots: string[],
+    screenshotOnFailure: boolean | undefined,
+    retry: Array<RetryPolicy | undefined>
+  ): BlockContext {
+    return {
+      sessionId,
+      screenshots,
+      screenshotOnFailure: screenshotOnFailure !== false,
+      retry
+    };
+  }
+
+  /**
+   * Runs steps then assertions, saving one result row each. Failures are
+   * retried as the block's retry policy allows, and a row that passed only
+   * after a retry is saved as flaky. Stops at the first failed step;
+   * assertions all run. On cancellation the unexecuted entries are recorded
+   * as skipped and the error is rethrown.
+   */
+  private async runBlock(block: StepBlock, context: BlockContext): Promise<BlockOutcome> {
+    const { sessionId } = context;
+    const assertionPolicy = resolveRetryPolicy(...context.retry);
+    let success = true;
+    let flaky = false;
+    // Position of the next unexecuted step/assertion, used to mark the rest skipped on cancellation
+    let cursor = 0;
+
+    try {
+      for (const [index, step] of block.steps.entries()) {
+        cursor = index;
+        this.throwIfCancelled(sessionId);
+        const stepStart = Date.now();
+        const testName = `${block.label} - ${describeStep(step)}`;
+        const outcome = await this.withRetries(sessionId, testName, resolveRetryPolicy(step.retry, ...context.retry), () =>
+          this.executeStep(step, index, block.artifactPrefix, context.screenshots)
+        );
+
+        if (!('error' in outcome)) {
+          flaky ||= outcome.attempts > 1;
+          await this.db.saveTestResult({
+            session_id: sessionId,
+            test_name: testName,
+            status: resultStatus(outcome.attempts),
+            screenshot_path: outcome.value,
+            execution_time_ms: Date.now() - stepStart,
+            attempts: outcome.attempts
+          });
+          continue;
+        }
+
+        const screenshotPath = context.screenshotOnFailure
+          ? await this.captureFailureScreenshot(`${block.artifactPrefix}step-${index + 1}-failure.png`, index, context.screenshots)
+          : undefined;
+        const message = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+        await this.db.saveTestResult({
+          session_id: sessionId,
+          test_name: testName,
+          status: 'failed',
+          error_message: message,
+          screenshot_path: screenshotPath,
+          execution_time_ms: Date.now() - stepStart,
+          attempts: outcome.attempts
+        });
+        await this.logger.logError(outcome.error as Error, { step });
+        return { success: false, error: message, flaky }; // Stop the block on the first failed step
+      }
+
+      for (const [index, assertion] of block.assertions.entries()) {
+        cursor = block.steps.length + index;
+        this.throwIfCancelled(sessionId);
+        const assertionStart = Date.now();
+        const testName = `${block.label} - ${describeAssertion(assertion)}`;
+        const outcome = await this.withRetries(sessionId, testName, assertionPolicy, () => this.executeAssertion(assertion));
+
+        if (!('error' in outcome)) {
+          flaky ||= outcome.attempts > 1;
+          await this.db.saveTestResult({
+            session_id: sessionId,
+            test_name: testName,
+            status: resultStatus(outcome.attempts),
+            execution_time_ms: Date.now() - assertionStart,
+            attempts: outcome.attempts
+          });
+          continue;
+        }
+
+        success = false;
+        const screenshotPath = context.screenshotOnFailure
+          ? await this.captureFailureScreenshot(`${block.artifactPrefix}assertion-${index + 1}-failure.png`, undefined, context.screenshots)
+          : undefined;
+        await this.db.saveTestResult({
+          session_id: sessionId,
+          test_name: testName,
+          status: 'failed',
+          error_message: outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+          screenshot_path: screenshotPath,
+          execution_time_ms: Date.now() - assertionStart,
+          attempts: outcome.attempts
+        });
+        await this.logger.logError(outcome.error as Error, { assertion });
+      }
+
+      return { success, flaky };
+    } catch (error) {
+      if (error instanceof SessionCancelledError) {
+        await this.saveSkippedResults(sessionId, block, cursor);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Runs `attempt` until it succeeds, fails with an error type the policy
+   * does not retry, or runs out of retries. Each retry is logged as a
+   * `retry` action with the error that caused it; cancellation is rethrown.
+   */
+  private async withRetries<T>(
+    sessionId: string,
+    testName: string,
+    policy: ResolvedRetryPolicy,
+    attempt: () => Promise<T>
+  ): Promise<Attempted<T>> {
+    for (let attempts = 1; ; attempts++) {
+      try {
+        return { attempts, value: await attempt() };
+      } catch (error) {
+        this.throwIfCancelled(sessionId);
+        const errorType = classifyError(error);
+        if (attempts > policy.retries || !policy.retry_on.includes(errorType)) {
+          return { attempts, error };
+        }
+
+        const delay = retryDelay(policy, attempts);
+        await this.logger.logRetry(testName, {
+          attempt: attempts + 1,
+          max_attempts: policy.retries + 1,
+          error_type: errorType,
+          error: error instanceof Error ? error.message : String(error),
+          delay_ms: delay
+        });
+        await this.sleep(delay);
+        this.throwIfCancelled(sessionId);
+      }
+    }
+  }
+
+  // Resolves early when the session is cancelled
+  private async sleep(ms: number): Promise<void> {
+    const signal = this.signal;
+    await new Promise<void>(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done);
+    });
+  }
+
+  private throwIfCancelled(sessionId: string): void {
+    if (this.signal?.aborted) {
+      throw new SessionCancelledError(sessionId);
+    }
+  }
+
+  private async saveSkippedResults(sessionId: string, block: StepBlock, fromEntry: number): Promise<void> {
+    const names = [
+      ...block.steps.map(describeStep),
+      ...block.assertions.map(describeAssertion)
+    ].slice(fromEntry);
+
+    for (const name of names) {
+      await this.db.saveTestResult({
+        session_id: sessionId,
+        test_name: `${block.label} - ${name}`,
+        status: 'skipped',
+        error_message: 'Session cancelled'
+      });
+    }
+  }
+
+  // Returns the artifact name when the step captured a screenshot.
+  private async executeStep(
+    step: TestStep,
+    index: number,
+    artifactPrefix: string,
+    screenshots: string[]
+  ): Promise<string | undefined> {
+    const startTime = Date.now();
+    let screenshotPath: string | undefined;
     
     try {
       switch (step.action) {
@@ -150,138 +587,308 @@ export class TraditionalTestExecutor {
           break;
 
         case 'screenshot':
-          const screenshotPath = `screenshot_${Date.now()}.png`;
-          await this.logger.timedExecution('screenshot', { path: screenshotPath }, async () => {
-            const result = await this.playwright.takeScreenshot();
-            screenshots.push(screenshotPath);
-            return result;
+          const name = `${artifactPrefix}step-${index + 1}-screenshot.png`;
+          screenshotPath = await this.logger.timedExecution('screenshot', { path: name }, async () => {
+            const image = await this.playwright.takeScreenshot();
+            return await this.artifacts.saveScreenshot(name, image, index);
           });
+          screenshots.push(screenshotPath);
           break;
 
-        case 'custom':
-          // For custom actions, expect the step to have additional data
-          await this.logger.logInfo(`Executing custom step: ${step.description}`, step);
+        case 'wait_for': {
+          if (!step.selector) throw new Error('Selector is required for wait_for action');
+          const state = step.state || 'visible';
+          const timeout = step.timeout || DEFAULT_STEP_TIMEOUT_MS;
+          await this.logger.timedExecution('wait_for', { selector: step.selector, state, timeout }, async () => {
+            return await this.playwright.waitFor(step.selector!, state, timeout);
+          });
+          break;
+        }
+
+        case 'wait_for_url': {
+          if (!step.url) throw new Error('URL (exact, glob or /regex/) is required for wait_for_url action');
+          const timeout = step.timeout || DEFAULT_STEP_TIMEOUT_MS;
+          await this.logger.timedExecution('wait_for_url', { url: step.url, timeout }, async () => {
+            return { url: await this.playwright.waitForUrl(step.url!, timeout) };
+          });
           break;
+        }
 
-        default:
-          throw new Error(`Unknown action type: ${step.action}`);
-      }
-    } catch (error) {
-      const executionTime = Date.now() - startTime;
-      await this.logger.logError(error as Error, { step, executionTime });
-      throw error;
-    }
-  }
+        case 'hover':
+          if (!step.selector) throw new Error('Selector is required for hover action');
+          await this.logger.timedExecution('hover', { selector: step.selector }, async () => {
+            return await this.playwright.hover(step.selector!);
+          });
+          break;
 
-  private async executeAssertion(assertion: TestAssertion): Promise<void> {
-    const startTime = Date.now();
-    
-    try {
-      switch (assertion.type) {
-        case 'exists':
-          if (!assertion.selector) throw new Error('Selector is required for exists assertion');
-          await this.logger.timedExecution('assertion_exists', { selector: assertion.selector }, async () => {
-            const exists = await this.checkElementExists(assertion.selector!);
-            if (!exists) {
-              throw new Error(`Element ${assertion.selector} does not exist`);
-            }
-            return { exists };
+        case 'press':
+          if (!step.value) throw new Error('Key (value) is required for press action');
+          await this.logger.timedExecution('press', { key: step.value, selector: step.selector }, async () => {
+            return await this.playwright.press(step.value!, step.selector);
           });
           break;
 
-        case 'visible':
-          if (!assertion.selector) throw new Error('Selector is required for visible assertion');
-          await this.logger.timedExecution('assertion_visible', { selector: assertion.selector }, async () => {
-            const visible = await this.checkElementVisible(assertion.selector!);
-            if (!visible) {
-              throw new Error(`Element ${assertion.selector} is not visible`);
-            }
-            return { visible };
+        case 'check':
+        case 'uncheck':
+          if (!step.selector) throw new Error(`Selector is required for ${step.action} action`);
+          await this.logger.timedExecution(step.action, { selector: step.selector }, async () => {
+            return step.action === 'check'
+              ? await this.playwright.check(step.selector!)
+              : await this.playwright.uncheck(step.selector!);
           });
           break;
 
-        case 'text':
-          if (!assertion.selector || assertion.expected === undefined) {
-            throw new Error('Selector and expected text are required for text assertion');
-          }
-          await this.logger.timedExecution('assertion_text', { 
-            selector: assertion.selector, 
-            expected: assertion.expected 
-          }, async () => {
-            const actualText = await this.getElementText(assertion.selector!);
-            if (actualText !== assertion.expected) {
-              throw new Error(`Expected text "${assertion.expected}", got "${actualText}"`);
-            }
-            return { actualText, expected: assertion.expected };
+        case 'scroll_into_view':
+          if (!step.selector) throw new Error('Selector is required for scroll_into_view action');
+          await this.logger.timedExecution('scroll_into_view', { selector: step.selector }, async () => {
+            return await this.playwright.scrollIntoView(step.selector!);
+          });
+          break;
+
+        case 'go_back':
+          await this.logger.timedExecution('go_back', {}, async () => {
+            return await this.playwright.goBack();
           });
           break;
 
-        case 'value':
-          if (!assertion.selector || assertion.expected === undefined) {
-            throw new Error('Selector and expected value are required for value assertion');
+        case 'reload':
+          await this.logger.timedExecution('reload', {}, async () => {
+            return await this.playwright.reload();
+          });
+          break;
+
+        case 'upload_file':
+          if (!step.selector || !step.files?.length) {
+            throw new Error('Selector and files are required for upload_file action');
           }
-          await this.logger.timedExecution('assertion_value', { 
-            selector: assertion.selector, 
-            expected: assertion.expected 
+          // Log file metadata only; contents can be large
+          await this.logger.timedExecution('upload_file', {
+            selector: step.selector,
+            files: step.files.map(file => ({ name: file.name, mime_type: file.mime_type }))
           }, async () => {
-            const actualValue = await this.getElementValue(assertion.selector!);
-            if (actualValue !== assertion.expected) {
-              throw new Error(`Expected value "${assertion.expected}", got "${actualValue}"`);
-            }
-            return { actualValue, expected: assertion.expected };
+            return await this.playwright.uploadFile(step.selector!, step.files!);
           });
           break;
 
-        case 'count':
-          if (!assertion.selector || typeof assertion.expected !== 'number') {
-            throw new Error('Selector and expected count (number) are required for count assertion');
-          }
-          await this.logger.timedExecution('assertion_count', { 
-            selector: assertion.selector, 
-            expected: assertion.expected 
+        case 'evaluate':
+          if (!step.script) throw new Error('Script is required for evaluate action');
+          // The return value is captured in the action log's result
+          await this.logger.timedExecution('evaluate', { script: step.script, arg: step.arg }, async () => {
+            return { value: await this.playwright.evaluate(step.script!, step.arg) ?? null };
+          });
+          break;
+
+        case 'visual_snapshot': {
+          if (!this.visual) throw new Error('Visual snapshots are not available in this session');
+          const snapshotName = `${artifactPrefix}${sanitizeSnapshotName(step.snapshot ?? `step-${index + 1}`)}`;
+          const comparison = await this.logger.timedExecution('visual_snapshot', {
+            snapshot: snapshotName,
+            selector: step.selector,
+            mask: step.mask
           }, async () => {
-            const actualCount = await this.getElementCount(assertion.selector!);
-            if (actualCount !== assertion.expected) {
-              throw new Error(`Expected ${assertion.expected} elements, found ${actualCount}`);
-            }
-            return { actualCount, expected: assertion.expected };
+            const image = await this.playwright.takeScreenshot({
+              selector: step.selector,
+              mask: step.mask,
+              full_page: step.full_page
+            });
+            return await this.visual!.compare(snapshotName, image, {
+              threshold: step.threshold,
+              maxDiffRatio: step.max_diff_ratio,
+              stepIndex: index
+            });
           });
+          screenshotPath = comparison.actual_artifact;
+          screenshots.push(screenshotPath);
+          if (comparison.status === 'failed') {
+            throw new Error(describeVisualFailure(comparison));
+          }
+          break;
+        }
+
+        case 'mock_route':
+          if (!step.mock?.url) throw new Error('A mock with a url is required for mock_route action');
+          await this.installMock(step.mock, 'page');
           break;
 
         case 'custom':
-          // For custom assertions, log the attempt
-          await this.logger.logInfo(`Executing custom assertion: ${assertion.description}`, assertion);
+          // For custom actions, expect the step to have additional data
+          await this.logger.logInfo(`Executing custom step: ${describeStep(step)}`, step);
           break;
 
         default:
-          throw new Error(`Unknown assertion type: ${assertion.type}`);
+          throw new Error(`Unknown action type: ${step.action}`);
       }
+      return screenshotPath;
     } catch (error) {
       const executionTime = Date.now() - startTime;
-      await this.logger.logError(error as Error, { assertion, executionTime });
+      await this.logger.logError(error as Error, { step, executionTime });
       throw error;
     }
   }
 
-  // Helper methods for assertions
-  // Helper methods for assertions
-  private async checkElementExists(selector: string): Promise<boolean> {
-    throw new Error('checkElementExists is not implemented');
+  // Best effort: a failed capture must not mask the original failure.
+  private async captureFailureScreenshot(
+    name: string,
+    stepIndex: number | undefined,
+    screenshots: string[]
+  ): Promise<string | undefined> {
+    try {
+      const image = await this.playwright.takeScreenshot();
+      const path = await this.artifacts.saveScreenshot(name, image, stepIndex);
+      screenshots.push(path);
+      await this.logger.logScreenshot(path, { reason: 'failure' });
+      return path;
+    } catch (error) {
+      await this.logger.logWarning('Failed to capture failure screenshot', {
+        name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  private async executeAssertion(assertion: TestAssertion): Promise<void> {
+    const startTime = Date.now();
+    const timeout = assertion.timeout ?? DEFAULT_ASSERTION_TIMEOUT_MS;
+    
+    try {
+      if (assertion.type === 'custom') {
+        // For custom assertions, log the attempt
+        await this.logger.logInfo(`Executing custom assertion: ${assertion.description}`, assertion);
+        return;
+      }
+
+      validateAssertion(assertion);
+      const { description, ...logData } = assertion;
+      await this.logger.timedExecution(`assertion_${assertion.type}`, logData, async () => {
+        const { value: actual, satisfied } = await this.waitForCondition(
+          () => this.readAssertionValue(assertion),
+          value => assertionPasses(assertion, value),
+          timeout
+        );
+        if (!satisfied) {
+          throw assertionFailure(assertion, actual);
+        }
+        return { actual, expected: assertion.expected };
+      });
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      await this.logger.logError(error as Error, { assertion, executionTime });
+      throw error;
+    }
   }
 
-  private async checkElementVisible(selector: string): Promise<boolean> {
-    throw new Error('checkElementVisible is not implemented');
+  private async readAssertionValue(assertion: TestAssertion): Promise<AssertionValue> {
+    const selector = assertion.selector!;
+    switch (assertion.type) {
+      case 'exists':
+      case 'count':
+        return await this.playwright.count(selector);
+      case 'visible':
+        return await this.playwright.isVisible(selector);
+      case 'text':
+        return (await this.playwright.innerText(selector))?.trim() ?? null;
+      case 'value':
+        return await this.playwright.inputValue(selector);
+      case 'url':
+        return await this.playwright.currentUrl();
+      case 'title':
+        return await this.playwright.title();
+      case 'attribute': {
+        // getAttribute reads null for both a missing element and a missing attribute
+        if (await this.playwright.count(selector) === 0) {
+          return null;
+        }
+        return (await this.playwright.getAttribute(selector, assertion.attribute!)) ?? undefined;
+      }
+      case 'css_property':
+        return await this.playwright.cssProperty(selector, assertion.property!);
+      case 'enabled':
+        return await this.playwright.isEnabled(selector);
+      case 'checked':
+        return await this.playwright.isChecked(selector);
+      default:
+        throw new Error(`Unknown assertion type: ${assertion.type}`);
+    }
   }
 
-  private async getElementText(selector: string): Promise<string> {
-    throw new Error('getElementText is not implemented');
+  /**
+   * Re-runs `probe` until `isSatisfied` accepts its value or `timeoutMs`
+   * elapses, so assertions tolerate pages that are still rendering. Returns
+   * the last observed value; throws only if the probe never succeeded.
+   */
+  private async waitForCondition<T>(
+    probe: () => Promise<T>,
+    isSatisfied: (value: T) => boolean,
+    timeoutMs: number
+  ): Promise<{ value: T; satisfied: boolean }> {
+    const deadline = Date.now() + timeoutMs;
+    let delay = ASSERTION_POLL_INITIAL_MS;
+    let observed: { value: T } | undefined;
+    let lastError: unknown;
+
+    while (true) {
+      try {
+        const value = await probe();
+        observed = { value };
+        if (isSatisfied(value)) {
+          return { value, satisfied: true };
+        }
+      } catch (error) {
+        lastError = error;
+      }
+
+      if (Date.now() + delay > deadline) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, ASSERTION_POLL_MAX_MS);
+    }
+
+    if (!observed) {
+      throw lastError;
+    }
+    return { value: observed.value, satisfied: false };
   }
+}
+
+function resultStatus(attempts: number): TestResult['status'] {
+  return attempts > 1 ? 'flaky' : 'passed';
+}
+
+// Stored configs may omit descriptions; fall back to the action and its target
+function describeStep(step: TestStep): string {
+  const target = step.selector ?? step.url ?? step.value ?? (step.mock && describeMock(step.mock));
+  return step.description || `${step.action}${target ? ` ${target}` : ''}`;
+}
 
-  private async getElementValue(selector: string): Promise<string> {
-    throw new Error('getElementValue is not implemented');
+// Keeps user-chosen snapshot names usable as artifact and storage key segments
+function sanitizeSnapshotName(name: string): string {
+  return name.replace(/[^\w.-]+/g, '-');
+}
+
+function describeVisualFailure(comparison: VisualComparison): string {
+  // Only a size mismatch fails without a diff image
+  if (!comparison.diff_artifact) {
+    return `Visual snapshot ${comparison.name} is ${comparison.width}x${comparison.height}, which does not match its baseline size`;
   }
+  const percent = (ratio: number) => `${(ratio * 100).toFixed(2)}%`;
+  return `Visual snapshot ${comparison.name} differs from its baseline: ` +
+    `${percent(comparison.diff_ratio ?? 0)} of pixels changed (max ${percent(comparison.max_diff_ratio)})`;
+}
+
+function describeAssertion(assertion: TestAssertion): string {
+  return assertion.description || `${assertion.type}${assertion.selector ? ` ${assertion.selector}` : ''}`;
+}
 
-  private async getElementCount(selector: string): Promise<number> {
-    throw new Error('getElementCount is not implemented');
+function summarizeSuite(summary: SuiteSummary): string {
+  const parts = [`${summary.failed} of ${summary.total} cases failed`];
+  if (summary.skipped > 0) {
+    parts.push(`${summary.skipped} skipped`);
   }
-}
\ No newline at end of file
+  return [parts.join(', '), ...summary.hook_errors].join('; ');
+}
+
+export function isTraditionalTestSuite(value: TraditionalTestCase | TraditionalTestSuite): value is TraditionalTestSuite {
+  return Array.isArray((value as TraditionalTestSuite).cases);
+}
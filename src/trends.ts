@@ -0,0 +1,243 @@
+import { describeError, parseTimestamp } from './reports';
+
+export const DEFAULT_TREND_DAYS = 30;
+export const MAX_TREND_DAYS = 365;
+// How many most-failing steps and most frequent errors a report lists
+export const TREND_TOP_N = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A finished (completed or failed) session inside the report window
+export interface TrendSession {
+  id: string;
+  config_id: number | null;
+  config_name: string | null;
+  url: string;
+  status: 'completed' | 'failed';
+  start_time: string;
+  end_time: string | null;
+}
+
+export interface TrendData {
+  sessions: TrendSession[];
+  // Durations of executed (passed, flaky or failed) results, for percentiles per step
+  durations: Array<{ test_name: string; execution_time_ms: number }>;
+  failing_steps: Array<{ test_name: string; runs: number; failures: number; last_failed_at: string }>;
+  // Grouped by the stored message; buildTrendReport merges messages that display the same
+  errors: Array<{ error_message: string; occurrences: number; sessions: number; last_seen: string; test_name: string }>;
+}
+
+export interface TrendReport {
+  config_id: number | null;
+  days: number;
+  from: string;
+  to: string;
+  summary: {
+    sessions: number;
+    passed: number;
+    failed: number;
+    pass_rate: number | null;
+  };
+  // One entry per UTC day in the window, including days without runs
+  daily: Array<{ date: string; sessions: number; passed: number; failed: number; pass_rate: number | null }>;
+  // Slowest steps first, by p95
+  step_durations: Array<{ test_name: string; runs: number; p50_ms: number; p95_ms: number }>;
+  failing_steps: Array<{ test_name: string; runs: number; failures: number; failure_rate: number; last_failed_at: string }>;
+  errors: Array<{ message: string; occurrences: number; sessions: number; last_seen: string; example_test: string }>;
+  recovery: Recovery;
+  // Per-configuration breakdown; sessions without a configuration are grouped by URL
+  configs: Array<{
+    config_id: number | null;
+    name: string;
+    sessions: number;
+    pass_rate: number | null;
+    last_status: TrendSession['status'];
+    mttr_ms: number | null;
+  }>;
+}
+
+export interface Recovery {
+  // Runs of consecutive failures, each starting with a failure after a pass (or the window start)
+  incidents: number;
+  recovered: number;
+  // Mean time from the first failed run's start to the next passing run's end
+  mttr_ms: number | null;
+  // Start of the failure streak that has not recovered yet, if any
+  failing_since: string | null;
+}
+
+// Nearest-rank percentile of ascending `sorted` values
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+// `sessions` must be one configuration's runs in start order
+export function measureRecovery(sessions: TrendSession[]): Recovery {
+  const durations: number[] = [];
+  let incidents = 0;
+  let failingSince: TrendSession | null = null;
+
+  for (const session of sessions) {
+    if (session.status === 'failed') {
+      if (!failingSince) {
+        failingSince = session;
+        incidents++;
+      }
+      continue;
+    }
+
+    if (failingSince) {
+      const failedAt = parseTimestamp(failingSince.start_time);
+      const recoveredAt = parseTimestamp(session.end_time ?? session.start_time);
+      if (failedAt !== undefined && recoveredAt !== undefined) durations.push(recoveredAt - failedAt);
+      failingSince = null;
+    }
+  }
+
+  return {
+    incidents,
+    recovered: durations.length,
+    mttr_ms: mean(durations),
+    failing_since: failingSince?.start_time ?? null
+  };
+}
+
+export function buildTrendReport(data: TrendData, options: { configId: number | null; days: number; now?: Date }): TrendReport {
+  const { configId, days } = options;
+  const today = startOfUtcDay(options.now ?? new Date());
+  const from = today - (days - 1) * DAY_MS;
+
+  const daily = Array.from({ length: days }, (_, i) => ({
+    date: new Date(from + i * DAY_MS).toISOString().slice(0, 10),
+    sessions: 0,
+    passed: 0,
+    failed: 0,
+    pass_rate: null as number | null
+  }));
+  const dayByDate = new Map(daily.map(day => [day.date, day]));
+  for (const session of data.sessions) {
+    const day = dayByDate.get(session.start_time.slice(0, 10));
+    if (!day) continue;
+    day.sessions++;
+    if (session.status === 'completed') day.passed++;
+    else day.failed++;
+  }
+  for (const day of daily) day.pass_rate = rate(day.passed, day.sessions);
+
+  const durationsByStep = new Map<string, number[]>();
+  for (const { test_name, execution_time_ms } of data.durations) {
+    const values = durationsByStep.get(test_name) ?? [];
+    values.push(execution_time_ms);
+    durationsByStep.set(test_name, values);
+  }
+  const stepDurations = [...durationsByStep].map(([testName, values]) => {
+    const sorted = values.sort((a, b) => a - b);
+    return { test_name: testName, runs: sorted.length, p50_ms: percentile(sorted, 50), p95_ms: percentile(sorted, 95) };
+  }).sort((a, b) => b.p95_ms - a.p95_ms || a.test_name.localeCompare(b.test_name));
+
+  // Assertion failures are stored as JSON; group them by the message a person would read
+  const errors = new Map<string, TrendReport['errors'][number]>();
+  for (const row of data.errors) {
+    const message = describeError(row.error_message).message ?? row.error_message;
+    const existing = errors.get(message);
+    if (existing) {
+      existing.occurrences += row.occurrences;
+      existing.sessions += row.sessions;
+      if (row.last_seen > existing.last_seen) existing.last_seen = row.last_seen;
+    } else {
+      errors.set(message, { message, occurrences: row.occurrences, sessions: row.sessions, last_seen: row.last_seen, example_test: row.test_name });
+    }
+  }
+
+  const groups = new Map<string, TrendSession[]>();
+  for (const session of data.sessions) {
+    const key = session.config_id !== null ? `config:${session.config_id}` : `url:${session.url}`;
+    const sessions = groups.get(key);
+    if (sessions) sessions.push(session);
+    else groups.set(key, [session]);
+  }
+  const recoveries = [...groups.values()].map(sessions => ({ sessions, recovery: measureRecovery(sessions) }));
+
+  // Incidents of every configuration together; the mean is weighted by recovered incidents
+  const recovered = recoveries.reduce((sum, { recovery }) => sum + recovery.recovered, 0);
+  const recovery: Recovery = {
+    incidents: recoveries.reduce((sum, { recovery }) => sum + recovery.incidents, 0),
+    recovered,
+    mttr_ms: recovered
+      ? recoveries.reduce((sum, { recovery }) => sum + (recovery.mttr_ms ?? 0) * recovery.recovered, 0) / recovered
+      : null,
+    failing_since: recoveries
+      .map(({ recovery }) => recovery.failing_since)
+      .filter((since): since is string => since !== null)
+      .sort()[0] ?? null
+  };
+
+  const passed = data.sessions.filter(session => session.status === 'completed').length;
+
+  return {
+    config_id: configId,
+    days,
+    from: new Date(from).toISOString().slice(0, 10),
+    to: new Date(today).toISOString().slice(0, 10),
+    summary: {
+      sessions: data.sessions.length,
+      passed,
+      failed: data.sessions.length - passed,
+      pass_rate: rate(passed, data.sessions.length)
+    },
+    daily,
+    step_durations: stepDurations.slice(0, TREND_TOP_N * 2),
+    failing_steps: data.failing_steps.map(step => ({ ...step, failure_rate: step.failures / step.runs })),
+    errors: [...errors.values()].sort((a, b) => b.occurrences - a.occurrences).slice(0, TREND_TOP_N),
+    recovery,
+    configs: recoveries.map(({ sessions, recovery: configRecovery }) => {
+      const last = sessions[sessions.length - 1];
+      const passedRuns = sessions.filter(session => session.status === 'completed').length;
+      return {
+        config_id: last.config_id,
+        name: last.config_name ?? last.url,
+        sessions: sessions.length,
+        pass_rate: rate(passedRuns, sessions.length),
+        last_status: last.status,
+        mttr_ms: configRecovery.mttr_ms
+      };
+    }).sort((a, b) => (a.pass_rate ?? 1) - (b.pass_rate ?? 1) || b.sessions - a.sessions)
+  };
+}
+
+/**
+ * `config_id` (optional) and `days` (1 to MAX_TREND_DAYS, default
+ * DEFAULT_TREND_DAYS) for the analytics endpoints.
+ */
+export function parseTrendWindow(params: URLSearchParams): { configId: number | null; days: number } | { error: string } {
+  const configParam = params.get('config_id');
+  if (configParam && !/^\d+$/.test(configParam)) {
+    return { error: 'config_id must be a positive integer' };
+  }
+
+  const days = Number(params.get('days') || DEFAULT_TREND_DAYS);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_TREND_DAYS) {
+    return { error: `days must be an integer between 1 and ${MAX_TREND_DAYS}` };
+  }
+
+  return { configId: configParam ? Number(configParam) : null, days };
+}
+
+// First day of a `days`-long window ending today, as a stored-timestamp lower bound
+export function trendWindowStart(days: number, now = new Date()): string {
+  return new Date(startOfUtcDay(now) - (days - 1) * DAY_MS).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function startOfUtcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function rate(part: number, total: number): number | null {
+  return total ? part / total : null;
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
@@ -3,8 +3,32 @@ export interface PlaywrightAutomationClient {
   click(selector: string): Promise<void>;
   type(selector: string, text: string): Promise<void>;
   selectOption(selector: string, value: string): Promise<void>;
-  takeScreenshot(): Promise<string>;
+  count(selector: string): Promise<number>;
+  isVisible(selector: string): Promise<boolean>;
+  innerText(selector: string): Promise<string | null>;
+  inputValue(selector: string): Promise<string | null>;
+  getAttribute(selector: string, name: string): Promise<string | null>;
+  cssProperty(selector: string, property: string): Promise<string | null>;
+  isEnabled(selector: string): Promise<boolean | null>;
+  isChecked(selector: string): Promise<boolean | null>;
+  currentUrl(): Promise<string>;
+  title(): Promise<string>;
+  takeScreenshot(options?: ScreenshotOptions): Promise<string>;
   snapshot(): Promise<string>;
+  waitFor(selector: string, state: WaitForState, timeoutMs: number): Promise<void>;
+  waitForUrl(url: string, timeoutMs: number): Promise<string>;
+  hover(selector: string): Promise<void>;
+  press(key: string, selector?: string): Promise<void>;
+  check(selector: string): Promise<void>;
+  uncheck(selector: string): Promise<void>;
+  scrollIntoView(selector: string): Promise<void>;
+  goBack(): Promise<void>;
+  reload(): Promise<void>;
+  uploadFile(selector: string, files: UploadFile[]): Promise<void>;
+  evaluate(script: string, arg?: unknown): Promise<unknown>;
+  // Page routes end with the page; context routes cover every page and yield to page routes
+  mockRoute(route: RouteMockHandler, scope: 'page' | 'context', onIntercept: (request: InterceptedRequest) => void): Promise<void>;
+  newPage(): Promise<void>;
   dispose(): Promise<void>;
 }
 
@@ -14,9 +38,37 @@ export interface SystemInstruction {
   name: string;
   instructions: string;
   test_type: 'traditional' | 'agentic';
+  llm_provider?: AgentProviderType | null;
+  llm_model?: string | null;
   created_at?: string;
   updated_at?: string;
   is_active?: boolean;
+  // How url_pattern is compared with a URL (see src/url-matcher.ts), default "substring"
+  match_type?: UrlMatchType;
+  // Higher wins when several configurations match
+  priority?: number;
+  // Bumped on every change; the matching snapshot lives in config_revisions
+  revision?: number;
+}
+
+export type UrlMatchType = 'substring' | 'exact' | 'glob' | 'regex';
+
+export type ConfigSnapshot = Pick<
+  SystemInstruction,
+  'url_pattern' | 'match_type' | 'priority' | 'name' | 'instructions' | 'test_type' | 'llm_provider' | 'llm_model' | 'is_active'
+>;
+
+export interface ConfigRevision {
+  id?: number;
+  config_id: number;
+  revision: number;
+  change: 'create' | 'update' | 'delete' | 'rollback';
+  snapshot: ConfigSnapshot;
+  // Name of the API key that made the change
+  author?: string | null;
+  // Set on rollbacks to the revision that was restored
+  restored_from?: number | null;
+  created_at?: string;
 }
 
 export interface ActionLog {
@@ -37,42 +89,395 @@ export interface TestSession {
   test_type: 'traditional' | 'agentic';
   status: 'running' | 'completed' | 'failed' | 'cancelled';
   config_id?: number;
+  // Revision of the configuration the session ran against
+  config_revision?: number;
+  trigger?: 'api' | 'schedule';
   start_time?: string;
   end_time?: string;
   results?: string;
   error_summary?: string;
 }
 
+// A keyset position: the sort column's value and the id of the last row on the previous page
+export interface ListCursor {
+  value: string | number;
+  id: string | number;
+}
+
+export interface ListQuery<Sort extends string, Filters> {
+  filters: Filters;
+  sort: Sort;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor: ListCursor | null;
+}
+
+export type SessionSort = 'start_time' | 'url' | 'status';
+
+export type SessionListQuery = ListQuery<SessionSort, {
+  status?: TestSession['status'][];
+  test_type?: TestSession['test_type'];
+  config_id?: number;
+  // Case-insensitive substring of the session URL
+  url?: string;
+  // start_time bounds in SQLite's `YYYY-MM-DD HH:MM:SS` UTC format; `to` is exclusive
+  from?: string;
+  to?: string;
+}>;
+
+export type ConfigSort = 'created_at' | 'updated_at' | 'name' | 'priority';
+
+export type ConfigListQuery = ListQuery<ConfigSort, {
+  // Omitted means active and inactive
+  is_active?: boolean;
+  test_type?: SystemInstruction['test_type'];
+  // Case-insensitive substring of url_pattern
+  url?: string;
+  // updated_at bounds, as for sessions
+  from?: string;
+  to?: string;
+}>;
+
+export interface Page<T> {
+  items: T[];
+  // Pass as `?cursor=` for the next page; null on the last page
+  next_cursor: string | null;
+}
+
 export interface TestResult {
   id?: number;
   session_id: string;
   test_name: string;
-  status: 'passed' | 'failed' | 'skipped';
+  // "flaky" when it passed only after a retry
+  status: 'passed' | 'failed' | 'skipped' | 'flaky';
   error_message?: string;
   screenshot_path?: string;
   execution_time_ms?: number;
+  // Tries including the first, default 1
+  attempts?: number;
   timestamp?: string;
 }
 
+export interface Artifact {
+  id?: number;
+  session_id: string;
+  name: string;
+  kind: 'screenshot' | 'visual_actual' | 'visual_baseline' | 'visual_diff';
+  content_type: string;
+  size_bytes: number;
+  step_index?: number;
+  storage_key: string;
+  created_at?: string;
+}
+
+export interface ScreenshotOptions {
+  // Capture only this element instead of the viewport
+  selector?: string;
+  // Elements painted over before capture, e.g. timestamps or ads
+  mask?: string[];
+  full_page?: boolean;
+}
+
+// Approved reference image for a `visual_snapshot` step; the PNG lives in the artifact store
+export interface VisualBaseline {
+  id?: number;
+  // "config:<id>" for stored configurations, "url:<target url>" for ad-hoc tests
+  scope: string;
+  name: string;
+  storage_key: string;
+  width: number;
+  height: number;
+  source_session_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Stored response body for route mocks, referenced by name as `fixture`
+export interface MockFixture {
+  name: string;
+  content_type: string;
+  size_bytes: number;
+  storage_key: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// One `visual_snapshot` step in one session; artifact columns name session artifacts
+export interface VisualComparison {
+  id?: number;
+  session_id: string;
+  scope: string;
+  name: string;
+  // "new" when no baseline existed and this capture became it
+  status: 'passed' | 'failed' | 'new';
+  width: number;
+  height: number;
+  diff_pixels?: number | null;
+  diff_ratio?: number | null;
+  max_diff_ratio: number;
+  actual_artifact: string;
+  baseline_artifact?: string | null;
+  diff_artifact?: string | null;
+  approved_at?: string | null;
+  created_at?: string;
+}
+
+// What the API exposes about a secret; the value itself is write-only
+export interface SecretMetadata {
+  name: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Each role includes the permissions of the ones before it
+export type ApiRole = 'viewer' | 'runner' | 'admin';
+
+export interface ApiKey {
+  id?: number;
+  name: string;
+  // First characters of the key, enough to recognise it in listings
+  key_prefix: string;
+  role: ApiRole;
+  last_used_at?: string | null;
+  created_at?: string;
+}
+
+export type NotificationChannelType = 'webhook' | 'slack' | 'email';
+
+// always: every finished session; failure: every failed one; recovery: a pass after a failure
+export type NotificationRule = 'always' | 'failure' | 'recovery';
+
+export interface NotificationChannel {
+  id?: number;
+  name: string;
+  type: NotificationChannelType;
+  // Webhook or Slack incoming-webhook URL, or comma-separated email addresses
+  target: string;
+  // Only sessions of this configuration; null for every session
+  config_id?: number | null;
+  rule: NotificationRule;
+  // Name of the secret in the secrets store whose value signs webhook payloads
+  secret_name?: string | null;
+  enabled: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface NotificationDelivery {
+  id?: number;
+  channel_id: number;
+  session_id: string;
+  // Why the channel fired: "failure", "recovery" or the session status for "always"
+  event: string;
+  // "failed" once every attempt has been used
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  response_status?: number | null;
+  last_error?: string | null;
+  next_attempt_at?: string | null;
+  delivered_at?: string | null;
+  // Comma-separated email recipients already sent to; retries skip them
+  delivered_to?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Schedule {
+  id?: number;
+  config_id: number;
+  cron: string;
+  target_url: string;
+  enabled: boolean;
+  last_run_at?: string | null;
+  last_session_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  // Joined from system_instructions when listing
+  config_name?: string;
+  test_type?: 'traditional' | 'agentic';
+}
+
+export type TemplateVariables = Record<string, string | number | boolean>;
+
+// How a failure is classified for retries (see src/retry-policy.ts)
+export type RetryErrorType = 'timeout' | 'element' | 'navigation' | 'assertion' | 'other';
+
+// Retries for failed steps and assertions. Set on a suite, a case or a step;
+// each field falls back to the next less specific level, then to the default.
+export interface RetryPolicy {
+  // Tries after the first one, default 0
+  retries?: number;
+  // Wait before the first retry, default 500 ms, multiplied by backoff_factor (default 2) for each further one
+  backoff_ms?: number;
+  backoff_factor?: number;
+  max_backoff_ms?: number;
+  // Failures worth another try, default timeout, element and navigation
+  retry_on?: RetryErrorType[];
+}
+
 export interface TraditionalTestCase {
   name: string;
   steps: TestStep[];
   assertions: TestAssertion[];
+  screenshot_on_failure?: boolean;
+  // Values for `{{name}}` placeholders in step url/selector/value/script and assertion selector/expected
+  variables?: TemplateVariables;
+  // One run per row; row values override `variables`
+  dataset?: TemplateVariables[];
+  retry?: RetryPolicy;
+  // Installed before the first step; these win over the suite's mocks
+  mocks?: RouteMock[];
+}
+
+// Several cases sharing one browser. Each case gets a fresh page in the same
+// context, so state from beforeAll (e.g. a login cookie) carries over.
+export interface TraditionalTestSuite {
+  name: string;
+  beforeAll?: TestStep[];
+  beforeEach?: TestStep[];
+  afterEach?: TestStep[];
+  afterAll?: TestStep[];
+  cases: TraditionalTestCase[];
+  screenshot_on_failure?: boolean;
+  variables?: TemplateVariables;
+  // Default for hooks and every case
+  retry?: RetryPolicy;
+  // Installed once for the whole suite, hooks included
+  mocks?: RouteMock[];
+}
+
+export interface SuiteCaseResult {
+  name: string;
+  // "flaky" when it passed but some step or assertion needed a retry
+  status: 'passed' | 'failed' | 'skipped' | 'flaky';
+  error?: string;
+  execution_time_ms: number;
+}
+
+export interface SuiteSummary {
+  name: string;
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  flaky: number;
+  hook_errors: string[];
+  cases: SuiteCaseResult[];
+}
+
+export type WaitForState = 'attached' | 'detached' | 'visible' | 'hidden';
+
+export interface UploadFile {
+  name: string;
+  mime_type?: string;
+  // Base64 file content
+  content: string;
+}
+
+// A stubbed network response (see src/route-mocks.ts)
+export interface RouteMock {
+  // Glob matched against the full request URL (e.g. "**/api/users*") or a /regex/
+  url: string;
+  // Methods to intercept, default all
+  method?: string | string[];
+  // Default 200
+  status?: number;
+  headers?: Record<string, string>;
+  // Text is sent as is; any other JSON value is serialized with a JSON content type
+  body?: unknown;
+  // Name of a fixture uploaded to /mocks/fixtures, sent instead of `body`
+  fixture?: string;
+  // Hold the response (or the abort) this long
+  delay_ms?: number;
+  // Fail the request with a network error instead; true means "failed"
+  abort?: boolean | MockAbortCode;
+  // Stop intercepting after this many requests
+  times?: number;
+}
+
+export type MockAbortCode =
+  | 'aborted' | 'accessdenied' | 'addressunreachable' | 'blockedbyclient' | 'blockedbyresponse'
+  | 'connectionaborted' | 'connectionclosed' | 'connectionfailed' | 'connectionrefused'
+  | 'connectionreset' | 'internetdisconnected' | 'namenotresolved' | 'timedout' | 'failed';
+
+// A RouteMock with its body resolved, as handed to the browser client
+export interface RouteMockHandler {
+  url: string;
+  // Upper-case; null intercepts every method
+  methods: string[] | null;
+  delay_ms: number;
+  times: number | null;
+  abort: MockAbortCode | null;
+  response: { status: number; headers: Record<string, string>; body: Uint8Array } | null;
+}
+
+// Logged as a `mock_request` action for every request a mock handled
+export interface InterceptedRequest {
+  mock: string;
+  method: string;
+  url: string;
+  resource_type: string;
+  outcome: 'fulfilled' | 'aborted';
+  status?: number;
+  abort?: MockAbortCode;
+  delay_ms: number;
 }
 
 export interface TestStep {
-  action: 'navigate' | 'click' | 'type' | 'select' | 'wait' | 'screenshot' | 'custom';
+  action:
+    | 'navigate' | 'click' | 'type' | 'select' | 'wait' | 'screenshot' | 'custom'
+    | 'wait_for' | 'wait_for_url' | 'hover' | 'press' | 'check' | 'uncheck'
+    | 'scroll_into_view' | 'go_back' | 'reload' | 'upload_file' | 'evaluate'
+    | 'visual_snapshot' | 'mock_route';
   selector?: string;
+  // Typed text, selected option, or the key for `press` (e.g. "Enter", "Control+A")
   value?: string;
+  // Target for `navigate`; URL, glob (`**/dashboard`) or /regex/ for `wait_for_url`
   url?: string;
   timeout?: number;
-  description: string;
+  // `wait_for` target state, default "visible"
+  state?: WaitForState;
+  // `upload_file` payloads
+  files?: UploadFile[];
+  // `evaluate` expression or function source, run in the page
+  script?: string;
+  // Argument passed to an `evaluate` function
+  arg?: unknown;
+  // `visual_snapshot` baseline name, default "step-<n>"; `selector` limits the capture to one element
+  snapshot?: string;
+  mask?: string[];
+  full_page?: boolean;
+  // Per-pixel color tolerance (0-1, default 0.1) and allowed share of differing pixels (default 0.001)
+  threshold?: number;
+  max_diff_ratio?: number;
+  // `mock_route` stub, active until the page is replaced (the end of a suite case)
+  mock?: RouteMock;
+  retry?: RetryPolicy;
+  description?: string;
 }
 
+export type TextMatchMode = 'exact' | 'contains' | 'regex';
+
+export type CountComparator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+
 export interface TestAssertion {
-  type: 'exists' | 'visible' | 'text' | 'value' | 'count' | 'custom';
+  type:
+    | 'exists' | 'visible' | 'text' | 'value' | 'count' | 'custom'
+    | 'url' | 'title' | 'attribute' | 'css_property' | 'enabled' | 'checked';
   selector?: string;
   expected?: string | number | boolean;
+  // How text, value, url, title, attribute and css_property compare, default "exact"
+  match?: TextMatchMode;
+  ignore_case?: boolean;
+  // How `count` compares with `expected`, default "eq"
+  comparator?: CountComparator;
+  // Attribute name for `attribute`; without `expected` only its presence is checked
+  attribute?: string;
+  // Computed style property for `css_property`, e.g. "color"
+  property?: string;
+  // Inverts the check, e.g. text that must not contain a word
+  not?: boolean;
+  timeout?: number;
   description: string;
 }
 
@@ -81,15 +486,45 @@ export interface AgenticTestConfig {
   context: string;
   success_criteria: string[];
   max_attempts?: number;
+  max_steps?: number;
   timeout_ms?: number;
+  script?: AgentScript;
+}
+
+export type AgentProviderType = 'workers-ai' | 'openai' | 'scripted';
+
+export interface AgenticAction {
+  type: 'analyze_page' | 'take_screenshot' | 'click_element' | 'type_text' | 'navigate_to' | 'wait_for_element' | 'verify_success';
+  description: string;
+  params: Record<string, any>;
+}
+
+export interface AgentPlan {
+  reasoning: string;
+  actions: AgenticAction[];
+}
+
+export interface CriterionVerdict {
+  criterion: string;
+  met: boolean;
+  reasoning: string;
+}
+
+// Deterministic plan used by the scripted provider: one entry per planning round,
+// with each criterion considered met once its text appears in the page snapshot.
+export interface AgentScript {
+  plans: AgenticAction[][];
+  criteria_text?: Record<string, string>;
 }
 
 export interface TestExecutionResult {
   session_id: string;
   success: boolean;
+  cancelled?: boolean;
   results: TestResult[];
   logs: ActionLog[];
   screenshots: string[];
   error_summary?: string;
   execution_time_ms: number;
+  suite?: SuiteSummary;
 }
\ No newline at end of file
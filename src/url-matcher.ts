@@ -0,0 +1,144 @@
+import type { SystemInstruction, UrlMatchType } from './types';
+
+export const URL_MATCH_TYPES: UrlMatchType[] = ['substring', 'exact', 'glob', 'regex'];
+
+// Tie-break between candidates of equal priority: the more precise kind of pattern wins
+const MATCH_TYPE_RANK: Record<UrlMatchType, number> = { exact: 3, glob: 2, regex: 1, substring: 0 };
+
+export interface UrlMatchCandidate {
+  config: SystemInstruction;
+  // Human-readable explanation, e.g. 'glob "*.example.com/app/**" matched'
+  reason: string;
+}
+
+/**
+ * Returns why `url` matches the pattern, or null when it does not.
+ *
+ * - `substring`: the URL contains the pattern (the original behaviour).
+ * - `exact`: the same URL once both are normalized; the fragment is ignored.
+ * - `glob`: `[scheme://]host[/path]`, where `*` matches within one host label
+ *   or path segment and `**` across them. Without a scheme any scheme matches;
+ *   without a path any path does. Query and fragment are ignored.
+ * - `regex`: a pattern (or `/pattern/flags`) tested against the full URL.
+ */
+export function matchUrl(pattern: string, matchType: UrlMatchType, url: string): string | null {
+  switch (matchType) {
+    case 'substring':
+      return url.includes(pattern) ? `URL contains "${pattern}"` : null;
+
+    case 'exact':
+      return normalizeUrl(pattern) === normalizeUrl(url) ? `URL equals "${pattern}"` : null;
+
+    case 'glob':
+      return globToRegExp(pattern).test(globSubject(pattern, url)) ? `glob "${pattern}" matched` : null;
+
+    case 'regex': {
+      let regex: RegExp;
+      try {
+        regex = toRegExp(pattern);
+      } catch {
+        return null;
+      }
+      return regex.test(url) ? `regex ${pattern} matched` : null;
+    }
+  }
+}
+
+/**
+ * Every config matching `url`, best first: higher `priority`, then exact over
+ * glob over regex over substring, then the longer pattern, then the older config.
+ */
+export function rankUrlMatches(configs: SystemInstruction[], url: string): UrlMatchCandidate[] {
+  const candidates: UrlMatchCandidate[] = [];
+  for (const config of configs) {
+    const reason = matchUrl(config.url_pattern, config.match_type ?? 'substring', url);
+    if (reason) candidates.push({ config, reason });
+  }
+
+  return candidates.sort((a, b) =>
+    (b.config.priority ?? 0) - (a.config.priority ?? 0) ||
+    MATCH_TYPE_RANK[b.config.match_type ?? 'substring'] - MATCH_TYPE_RANK[a.config.match_type ?? 'substring'] ||
+    b.config.url_pattern.length - a.config.url_pattern.length ||
+    (a.config.id ?? 0) - (b.config.id ?? 0)
+  );
+}
+
+// Returns an error message for a pattern that can never match, or null when it is usable
+export function validateUrlPattern(pattern: string, matchType: UrlMatchType): string | null {
+  switch (matchType) {
+    case 'exact':
+      return normalizeUrl(pattern) === null ? 'exact url_pattern must be an absolute URL' : null;
+    case 'regex':
+      try {
+        toRegExp(pattern);
+        return null;
+      } catch (error) {
+        return `Invalid regex url_pattern: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    default:
+      return null;
+  }
+}
+
+function normalizeUrl(value: string): string | null {
+  try {
+    const url = new URL(value);
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+function toRegExp(pattern: string): RegExp {
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+}
+
+// The part of the URL a glob is compared with: scheme only when the glob has one, never query or fragment
+function globSubject(pattern: string, url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  const hostAndPath = `${parsed.host}${parsed.pathname}`;
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(pattern) ? `${parsed.protocol}//${hostAndPath}` : hostAndPath;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const schemeMatch = pattern.match(/^([a-z][a-z0-9+.-]*:\/\/)(.*)$/i);
+  const scheme = schemeMatch ? schemeMatch[1] : '';
+  const rest = schemeMatch ? schemeMatch[2] : pattern;
+  const slash = rest.indexOf('/');
+  const host = slash === -1 ? rest : rest.slice(0, slash);
+  const path = slash === -1 ? '' : rest.slice(slash);
+
+  const hostSource = globSegment(host.toLowerCase(), '[^./]*', '[^/]*');
+  let pathSource: string;
+  if (!path) {
+    // No path in the pattern: any path on the host
+    pathSource = '(?:/.*)?';
+  } else if (path.endsWith('/**')) {
+    // A trailing /** also matches the directory itself
+    pathSource = `${globSegment(path.slice(0, -3), '[^/]*', '.*')}(?:/.*)?`;
+  } else {
+    pathSource = globSegment(path, '[^/]*', '.*');
+  }
+
+  // Scheme and host are lowercase in parsed URLs; paths stay case-sensitive
+  return new RegExp(`^${escapeRegExp(scheme.toLowerCase())}${hostSource}${pathSource}$`);
+}
+
+// Translates `**` and `*` and escapes everything else
+function globSegment(glob: string, single: string, double: string): string {
+  return glob
+    .split('**')
+    .map(part => part.split('*').map(escapeRegExp).join(single))
+    .join(double);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
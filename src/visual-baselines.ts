@@ -0,0 +1,142 @@
+import { DatabaseService } from './database';
+import { ArtifactStore, SessionArtifacts, base64ToBytes, readArtifactBytes } from './artifact-store';
+import { decodePng, encodePng } from './png';
+import { diffImages, DEFAULT_MAX_DIFF_RATIO, DEFAULT_PIXEL_THRESHOLD } from './visual-diff';
+import type { VisualBaseline, VisualComparison } from './types';
+
+export interface VisualCompareOptions {
+  threshold?: number;
+  maxDiffRatio?: number;
+  stepIndex?: number;
+}
+
+// Stored configurations own their baselines; ad-hoc tests share them per target URL
+export function visualBaselineScope(configId: number | undefined, url: string): string {
+  return configId !== undefined ? `config:${configId}` : `url:${url}`;
+}
+
+export function visualBaselineKey(scope: string, name: string): string {
+  return `baselines/${encodeURIComponent(scope)}/${name}.png`;
+}
+
+/**
+ * Compares `visual_snapshot` captures with the baselines of one scope and
+ * records the outcome. The capture, a copy of the baseline it was compared
+ * with and the diff image are saved as session artifacts, so a session keeps
+ * showing what it saw after the baseline moves on.
+ */
+export class VisualBaselines {
+  private store: ArtifactStore;
+  private db: DatabaseService;
+  private artifacts: SessionArtifacts;
+  private sessionId: string;
+  private scope: string;
+
+  constructor(store: ArtifactStore, db: DatabaseService, artifacts: SessionArtifacts, sessionId: string, scope: string) {
+    this.store = store;
+    this.db = db;
+    this.artifacts = artifacts;
+    this.sessionId = sessionId;
+    this.scope = scope;
+  }
+
+  async compare(name: string, base64Png: string, options: VisualCompareOptions = {}): Promise<VisualComparison> {
+    const bytes = base64ToBytes(base64Png);
+    const actual = await decodePng(bytes);
+    const maxDiffRatio = options.maxDiffRatio ?? DEFAULT_MAX_DIFF_RATIO;
+    const actualArtifact = await this.artifacts.save(`${name}-actual.png`, bytes, 'image/png', 'visual_actual', options.stepIndex);
+
+    const baseline = await this.db.getVisualBaseline(this.scope, name);
+    const stored = baseline ? await this.store.get(baseline.storage_key) : null;
+
+    let comparison: Omit<VisualComparison, 'id' | 'approved_at' | 'created_at'>;
+    if (!stored) {
+      // First capture (or a baseline whose bytes were removed) becomes the baseline
+      await saveVisualBaseline(this.store, this.db, {
+        scope: this.scope,
+        name,
+        width: actual.width,
+        height: actual.height,
+        source_session_id: this.sessionId
+      }, bytes);
+      comparison = {
+        session_id: this.sessionId,
+        scope: this.scope,
+        name,
+        status: 'new',
+        width: actual.width,
+        height: actual.height,
+        max_diff_ratio: maxDiffRatio,
+        actual_artifact: actualArtifact
+      };
+    } else {
+      const baselineBytes = await readArtifactBytes(stored);
+      const baselineArtifact = await this.artifacts.save(
+        `${name}-baseline.png`, baselineBytes, 'image/png', 'visual_baseline', options.stepIndex
+      );
+      const diff = diffImages(await decodePng(baselineBytes), actual, {
+        threshold: options.threshold ?? DEFAULT_PIXEL_THRESHOLD
+      });
+      const diffArtifact = diff.image
+        ? await this.artifacts.save(`${name}-diff.png`, await encodePng(diff.image), 'image/png', 'visual_diff', options.stepIndex)
+        : undefined;
+
+      comparison = {
+        session_id: this.sessionId,
+        scope: this.scope,
+        name,
+        status: !diff.sizeMismatch && diff.diffRatio <= maxDiffRatio ? 'passed' : 'failed',
+        width: actual.width,
+        height: actual.height,
+        diff_pixels: diff.diffPixels,
+        diff_ratio: diff.diffRatio,
+        max_diff_ratio: maxDiffRatio,
+        actual_artifact: actualArtifact,
+        baseline_artifact: baselineArtifact,
+        diff_artifact: diffArtifact
+      };
+    }
+
+    await this.db.saveVisualComparison(comparison);
+    return comparison;
+  }
+}
+
+/**
+ * Promotes the capture from a session's comparison to the baseline for its
+ * scope and name, so the next run compares against it.
+ */
+export async function approveVisualComparison(
+  store: ArtifactStore,
+  db: DatabaseService,
+  comparison: VisualComparison
+): Promise<VisualBaseline> {
+  const artifact = await db.getArtifact(comparison.session_id, comparison.actual_artifact);
+  const stored = artifact ? await store.get(artifact.storage_key) : null;
+  if (!stored) {
+    throw new Error(`Capture ${comparison.actual_artifact} is no longer available`);
+  }
+
+  const baseline = await saveVisualBaseline(store, db, {
+    scope: comparison.scope,
+    name: comparison.name,
+    width: comparison.width,
+    height: comparison.height,
+    source_session_id: comparison.session_id
+  }, await readArtifactBytes(stored));
+  await db.markVisualComparisonApproved(comparison.id!);
+  return baseline;
+}
+
+async function saveVisualBaseline(
+  store: ArtifactStore,
+  db: DatabaseService,
+  baseline: Omit<VisualBaseline, 'id' | 'storage_key' | 'created_at' | 'updated_at'>,
+  bytes: Uint8Array
+): Promise<VisualBaseline> {
+  const storageKey = visualBaselineKey(baseline.scope, baseline.name);
+  await store.put(storageKey, bytes, 'image/png');
+  const record = { ...baseline, storage_key: storageKey };
+  await db.upsertVisualBaseline(record);
+  return record;
+}
@@ -0,0 +1,78 @@
+import type { RgbaImage } from './png';
+
+export interface ImageDiffOptions {
+  // Per-pixel tolerance as a fraction of the channel range (0-1)
+  threshold: number;
+}
+
+export interface ImageDiff {
+  width: number;
+  height: number;
+  diffPixels: number;
+  totalPixels: number;
+  // diffPixels / totalPixels; 1 when the dimensions differ
+  diffRatio: number;
+  sizeMismatch: boolean;
+  // Faded copy of the actual image with differing pixels in red; absent on a size mismatch
+  image?: RgbaImage;
+}
+
+export const DEFAULT_PIXEL_THRESHOLD = 0.1;
+export const DEFAULT_MAX_DIFF_RATIO = 0.001;
+
+/**
+ * Compares two images pixel by pixel. A pixel differs when any channel,
+ * alpha included, moves by more than `threshold` of its range, which keeps
+ * font anti-aliasing noise out of the count.
+ */
+export function diffImages(
+  baseline: RgbaImage,
+  actual: RgbaImage,
+  options: ImageDiffOptions = { threshold: DEFAULT_PIXEL_THRESHOLD }
+): ImageDiff {
+  const totalPixels = actual.width * actual.height;
+  if (baseline.width !== actual.width || baseline.height !== actual.height) {
+    return {
+      width: actual.width,
+      height: actual.height,
+      diffPixels: totalPixels,
+      totalPixels,
+      diffRatio: 1,
+      sizeMismatch: true
+    };
+  }
+
+  const tolerance = Math.max(0, Math.min(1, options.threshold)) * 255;
+  const output = new Uint8Array(actual.data.length);
+  let diffPixels = 0;
+
+  for (let i = 0; i < actual.data.length; i += 4) {
+    let differs = false;
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(baseline.data[i + channel] - actual.data[i + channel]) > tolerance) {
+        differs = true;
+        break;
+      }
+    }
+
+    if (differs) {
+      diffPixels++;
+      output.set([255, 0, 0, 255], i);
+    } else {
+      // Grayscale at low contrast so the red stands out
+      const luma = 0.299 * actual.data[i] + 0.587 * actual.data[i + 1] + 0.114 * actual.data[i + 2];
+      const faded = Math.round(255 - (255 - luma) * 0.2);
+      output.set([faded, faded, faded, 255], i);
+    }
+  }
+
+  return {
+    width: actual.width,
+    height: actual.height,
+    diffPixels,
+    totalPixels,
+    diffRatio: totalPixels === 0 ? 0 : diffPixels / totalPixels,
+    sizeMismatch: false,
+    image: { width: actual.width, height: actual.height, data: output }
+  };
+}
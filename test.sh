@@ -12,6 +12,18 @@ fi
 echo "Testing Playwright Testing Utility Worker at $BASE_URL"
 echo "======================================================="
 
+# Most endpoints need an API key: use $API_KEY, or create the first admin key with $BOOTSTRAP_TOKEN
+if [ -z "$API_KEY" ] && [ -n "$BOOTSTRAP_TOKEN" ]; then
+    API_KEY=$(curl -s -X POST "$BASE_URL/auth/bootstrap" \
+        -H "Authorization: Bearer $BOOTSTRAP_TOKEN" \
+        -H "Content-Type: application/json" \
+        -d '{"name": "test.sh"}' | jq -r '.key // empty')
+fi
+if [ -z "$API_KEY" ]; then
+    echo "Set API_KEY to an admin key, or BOOTSTRAP_TOKEN on a database without one"
+    exit 1
+fi
+
 # Colors for output
 RED='\033[0;31m'
 GREEN='\033[0;32m'
@@ -29,21 +41,28 @@ run_test() {
     local url="$3"
     local method="$4"
     local data="$5"
+    # Pass "noauth" to send no API key, or "badkey" to send one that does not exist
+    local auth=(-H "Authorization: Bearer $API_KEY")
+    if [ "$6" = "noauth" ]; then
+        auth=()
+    elif [ "$6" = "badkey" ]; then
+        auth=(-H "Authorization: Bearer pmk_invalid")
+    fi
     
     echo -n "Testing $test_name... "
     
     if [ "$method" = "POST" ]; then
-        response=$(curl -s -w "%{http_code}" -X POST "$BASE_URL$url" \
+        response=$(curl -s -w "%{http_code}" -X POST "$BASE_URL$url" "${auth[@]}" \
             -H "Content-Type: application/json" \
             -d "$data")
     elif [ "$method" = "PUT" ]; then
-        response=$(curl -s -w "%{http_code}" -X PUT "$BASE_URL$url" \
+        response=$(curl -s -w "%{http_code}" -X PUT "$BASE_URL$url" "${auth[@]}" \
             -H "Content-Type: application/json" \
             -d "$data")
     elif [ "$method" = "DELETE" ]; then
-        response=$(curl -s -w "%{http_code}" -X DELETE "$BASE_URL$url")
+        response=$(curl -s -w "%{http_code}" -X DELETE "$BASE_URL$url" "${auth[@]}")
     else
-        response=$(curl -s -w "%{http_code}" "$BASE_URL$url")
+        response=$(curl -s -w "%{http_code}" -X "$method" "$BASE_URL$url" "${auth[@]}")
     fi
     
     http_code="${response: -3}"
@@ -94,8 +113,8 @@ TRADITIONAL_TEST_DATA='{
   "useStoredConfig": true
 }'
 
-# Note: This will likely fail in a test environment without actual browser, but we test the endpoint
-run_test "Traditional Test Execution" "500" "/test/traditional" "POST" "$TRADITIONAL_TEST_DATA"
+# Runs are queued and accepted with 202; the browser work happens in the queue consumer
+run_test "Traditional Test Execution" "202" "/test/traditional" "POST" "$TRADITIONAL_TEST_DATA"
 
 echo -e "\n${YELLOW}6. Agentic Testing${NC}"
 AGENTIC_TEST_DATA='{
@@ -109,17 +128,20 @@ AGENTIC_TEST_DATA='{
   }
 }'
 
-# Note: This will likely fail in a test environment without actual browser, but we test the endpoint
-run_test "Agentic Test Execution" "500" "/test/agentic" "POST" "$AGENTIC_TEST_DATA"
+# Runs are queued and accepted with 202; the browser work happens in the queue consumer
+run_test "Agentic Test Execution" "202" "/test/agentic" "POST" "$AGENTIC_TEST_DATA"
 
 echo -e "\n${YELLOW}7. Error Handling${NC}"
 run_test "Invalid Endpoint" "404" "/invalid-endpoint" "GET"
 run_test "Invalid Method" "405" "/config" "PATCH"
 run_test "Missing Required Data" "400" "/test/traditional" "POST" '{"invalid": "data"}'
+run_test "Missing API Key" "401" "/test/traditional" "POST" '{"invalid": "data"}' "noauth"
+run_test "Invalid API Key" "401" "/session" "GET" "" "badkey"
 
 echo -e "\n${YELLOW}8. MCP Endpoints${NC}"
 run_test "MCP Endpoint" "500" "/mcp" "GET"  # Expected to fail without proper setup
 run_test "SSE Endpoint" "500" "/sse" "GET"  # Expected to fail without proper setup
+run_test "MCP Without API Key" "401" "/mcp" "GET" "" "noauth"
 
 # Summary
 echo -e "\n======================================================="
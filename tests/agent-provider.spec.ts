@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { ScriptedAgentProvider, condenseSnapshot, parsePlan, parseVerdicts } from '../src/agent-provider'
+
+describe('agent provider parsing', () => {
+  it('parses a plan wrapped in prose', () => {
+    const plan = parsePlan('Sure! {"reasoning":"add a todo","actions":[{"type":"type_text","description":"Type todo","params":{"selector":".new-todo","text":"Milk"}}]} Done.')
+    expect(plan.reasoning).toBe('add a todo')
+    expect(plan.actions).toHaveLength(1)
+    expect(plan.actions[0].params.selector).toBe('.new-todo')
+  })
+
+  it('rejects unsupported action types', () => {
+    expect(() => parsePlan('{"actions":[{"type":"delete_database","params":{}}]}')).toThrow(/unsupported type/)
+    expect(() => parsePlan('{"actions":[null]}')).toThrow(/unsupported type/)
+    expect(parsePlan('{"actions":[{"type":"analyze_page","params":["x"]}]}').actions[0].params).toEqual({})
+  })
+
+  it('ignores malformed verdict entries', () => {
+    const verdicts = parseVerdicts('{"verdicts":["yes",{"criterion":"Todo added","met":"true"}]}', ['Todo added'])
+    expect(verdicts).toEqual([{ criterion: 'Todo added', met: false, reasoning: '' }])
+  })
+
+  it('maps verdicts onto criteria and fails missing ones', () => {
+    const verdicts = parseVerdicts(
+      '{"verdicts":[{"criterion":"Todo added","met":true,"reasoning":"Listed"}]}',
+      ['Todo added', 'Todo completed']
+    )
+    expect(verdicts).toEqual([
+      { criterion: 'Todo added', met: true, reasoning: 'Listed' },
+      { criterion: 'Todo completed', met: false, reasoning: 'Model returned no verdict for this criterion' },
+    ])
+  })
+
+  it('strips scripts and styles from snapshots', () => {
+    const snapshot = condenseSnapshot('<html><script>var x = 1</script><style>a{}</style><p>Hello   world</p></html>')
+    expect(snapshot).toBe('<html><p>Hello world</p></html>')
+  })
+})
+
+describe('ScriptedAgentProvider', () => {
+  const base = { goal: 'Add todo', context: '', success_criteria: ['Todo added', 'Footer shown'] }
+
+  it('replays plans in order and then stops', async () => {
+    const provider = new ScriptedAgentProvider({
+      plans: [[{ type: 'click_element', description: 'Click', params: { selector: '#a' } }]],
+    })
+    const first = await provider.planActions({ ...base, snapshot: '', history: [] })
+    const second = await provider.planActions({ ...base, snapshot: '', history: [] })
+    expect(first.actions).toHaveLength(1)
+    expect(second.actions).toHaveLength(0)
+  })
+
+  it('judges criteria from snapshot text', async () => {
+    const provider = new ScriptedAgentProvider({ plans: [], criteria_text: { 'Todo added': 'milk' } })
+    const verdicts = await provider.evaluateCriteria({ ...base, snapshot: '<li>Buy MILK</li>' })
+    expect(verdicts.map(v => v.met)).toEqual([true, false])
+  })
+})
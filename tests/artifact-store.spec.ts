@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@cloudflare/playwright-mcp', () => ({ createMcpAgent: () => ({}) }))
+
+import worker from '../src/index'
+import { InMemoryArtifactStore, SessionArtifacts, base64ToBytes, createArtifactStore } from '../src/artifact-store'
+import { TraditionalTestExecutor } from '../src/traditional-test-executor'
+import { Logger } from '../src/logger'
+import { createFakeBrowser } from './helpers/browser'
+import { createAuthHeader, createExecutionContext, createTestDatabase } from './helpers/worker'
+
+// 1x1 transparent PNG
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+beforeEach(() => {
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('session artifacts', () => {
+  it('stores screenshot steps and failure captures and links them from their results', async () => {
+    const { db } = await createTestDatabase()
+    await db.createTestSession({ id: 'session_shots', url: 'https://shop.example', test_type: 'traditional', status: 'running' })
+    const store = new InMemoryArtifactStore()
+    const fake = createFakeBrowser({
+      takeScreenshot: async () => PNG,
+      click: async () => { throw new Error('Element #pay is not attached to the DOM') },
+    })
+    const executor = new TraditionalTestExecutor(
+      fake.client, db, new Logger(db, 'session_shots'), new SessionArtifacts(store, db, 'session_shots')
+    )
+
+    const result = await executor.executeTest('session_shots', {
+      name: 'Checkout',
+      steps: [
+        { action: 'screenshot', description: 'Capture cart' },
+        { action: 'click', selector: '#pay', description: 'Pay' },
+      ],
+      assertions: [],
+    })
+
+    expect(result.screenshots).toEqual(['step-1-screenshot.png', 'step-2-failure.png'])
+    expect((await db.getTestResults('session_shots')).map(row => [row.status, row.screenshot_path])).toEqual([
+      ['passed', 'step-1-screenshot.png'],
+      ['failed', 'step-2-failure.png'],
+    ])
+    expect(await db.getArtifacts('session_shots')).toMatchObject([
+      { name: 'step-1-screenshot.png', kind: 'screenshot', content_type: 'image/png', step_index: 0, storage_key: 'sessions/session_shots/step-1-screenshot.png' },
+      { name: 'step-2-failure.png', kind: 'screenshot', step_index: 1 },
+    ])
+    const stored = await store.get('sessions/session_shots/step-1-screenshot.png')
+    expect(stored).toMatchObject({ contentType: 'image/png', size: base64ToBytes(PNG).byteLength })
+  })
+})
+
+describe('GET /session/artifact', () => {
+  it('serves a stored artifact inline and 404s unknown names', async () => {
+    const { d1, db } = await createTestDatabase()
+    const env = { DB: d1 } as Env
+    const headers = await createAuthHeader(db, 'viewer')
+    await db.createTestSession({ id: 'session_art', url: 'https://shop.example', test_type: 'traditional', status: 'completed' })
+    // Without an ARTIFACTS binding the worker and this spec share the in-memory store
+    await new SessionArtifacts(createArtifactStore(env), db, 'session_art').saveScreenshot('step-1.png', PNG, 0)
+
+    const get = (query: string, method = 'GET') => worker.fetch(
+      new Request(`https://worker.example/session/artifact?${query}`, { method, headers }), env, createExecutionContext()
+    )
+
+    const response = await get('sessionId=session_art&name=step-1.png')
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('image/png')
+    expect(response.headers.get('Content-Disposition')).toBe('inline; filename="step-1.png"')
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(base64ToBytes(PNG))
+
+    const head = await get('sessionId=session_art&name=step-1.png', 'HEAD')
+    expect(head.status).toBe(200)
+    expect(head.headers.get('Content-Length')).toBe(String(base64ToBytes(PNG).byteLength))
+
+    expect((await get('sessionId=session_art&name=other.png')).status).toBe(404)
+    expect((await get('sessionId=session_art')).status).toBe(400)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { assertionFailure, assertionPasses, validateAssertion } from '../src/assertions'
+import type { TestAssertion } from '../src/types'
+
+function assertion(overrides: Partial<TestAssertion>): TestAssertion {
+  return { type: 'text', selector: '.welcome', expected: 'Welcome', description: 'test', ...overrides }
+}
+
+describe('assertions', () => {
+  it('matches text exactly, by substring, by regex and ignoring case', () => {
+    expect(assertionPasses(assertion({}), 'Welcome')).toBe(true)
+    expect(assertionPasses(assertion({}), 'Welcome back')).toBe(false)
+    expect(assertionPasses(assertion({ match: 'contains' }), 'Welcome back')).toBe(true)
+    expect(assertionPasses(assertion({ match: 'contains', ignore_case: true }), 'WELCOME BACK')).toBe(true)
+    expect(assertionPasses(assertion({ match: 'regex', expected: '^Welcome, \\w+!$' }), 'Welcome, Ada!')).toBe(true)
+    expect(assertionPasses(assertion({ match: 'regex', expected: '/^welcome/i' }), 'Welcome, Ada!')).toBe(true)
+  })
+
+  it('compares counts with comparators', () => {
+    const count = (comparator: TestAssertion['comparator']) => assertion({ type: 'count', expected: 3, comparator })
+    expect(assertionPasses(count(undefined), 3)).toBe(true)
+    expect(assertionPasses(count('gte'), 5)).toBe(true)
+    expect(assertionPasses(count('lte'), 5)).toBe(false)
+    expect(assertionPasses(count('lt'), 2)).toBe(true)
+  })
+
+  it('negates checks but never passes on a missing element', () => {
+    expect(assertionPasses(assertion({ not: true, match: 'contains', expected: 'Error' }), 'All good')).toBe(true)
+    expect(assertionPasses(assertion({ not: true, expected: 'Error' }), null)).toBe(false)
+    expect(assertionPasses(assertion({ type: 'exists', not: true }), 0)).toBe(true)
+    expect(assertionPasses(assertion({ type: 'enabled', not: true }), false)).toBe(true)
+    expect(assertionPasses(assertion({ type: 'attribute', attribute: 'disabled', expected: undefined }), '')).toBe(true)
+  })
+
+  it('describes failures with expected and actual values', () => {
+    const failure = assertionFailure(assertion({ type: 'count', selector: 'li', expected: 2, comparator: 'gte' }), 1)
+    expect(failure.details).toMatchObject({ operator: 'gte', expected: 2, actual: 1, negated: false })
+    expect(failure.details.message).toBe('Expected count of li to be at least 2, got 1')
+    expect(JSON.parse(failure.message)).toEqual(JSON.parse(JSON.stringify(failure.details)))
+
+    const missing = assertionFailure(assertion({ not: true }), null)
+    expect(missing.details.message).toBe('Element .welcome does not exist')
+  })
+
+  it('tells an absent attribute apart from a missing element', () => {
+    const presence = assertion({ type: 'attribute', selector: 'button', attribute: 'disabled', expected: undefined })
+    expect(assertionPasses(presence, undefined)).toBe(false)
+    expect(assertionPasses({ ...presence, not: true }, undefined)).toBe(true)
+    expect(assertionPasses({ ...presence, not: true }, null)).toBe(false)
+    expect(assertionPasses({ ...presence, not: true, expected: 'true' }, undefined)).toBe(true)
+
+    const absent = assertionFailure(presence, undefined)
+    expect(absent.details.message).toBe('Expected attribute "disabled" of button to be present, but it is absent')
+    expect(absent.details.actual).toBeNull()
+  })
+
+  it('rejects assertions missing required fields', () => {
+    expect(() => validateAssertion(assertion({ type: 'attribute' }))).toThrow('attribute assertion requires attribute')
+    expect(() => validateAssertion(assertion({ type: 'css_property', expected: undefined }))).toThrow('requires property, expected')
+    expect(() => validateAssertion(assertion({ match: 'regex', expected: '(' }))).toThrow('Invalid regex')
+    expect(() => validateAssertion(assertion({ type: 'url', selector: undefined, expected: '/home' }))).not.toThrow()
+  })
+})
@@ -0,0 +1,54 @@
+import { createHash } from 'node:crypto'
+import { describe, it, expect } from 'vitest'
+import { apiKeyCookie, apiKeyPrefix, generateApiKey, hasRole, hashApiKey, matchesBootstrapToken, readApiKey, routeRole } from '../src/auth'
+
+describe('routeRole', () => {
+  it('keeps health and pages public and closes unknown routes', () => {
+    expect(routeRole('GET', '/health')).toBe('public')
+    expect(routeRole('GET', '/sessions.html')).toBe('public')
+    expect(routeRole('GET', '/auth.js')).toBe('public')
+    expect(routeRole('GET', '/config')).toBe('public')
+    expect(routeRole('POST', '/config')).toBe('admin')
+    expect(routeRole('HEAD', '/schedule')).toBe('viewer')
+    expect(routeRole('DELETE', '/session')).toBe('runner')
+    expect(routeRole('POST', '/test/traditional')).toBe('runner')
+    expect(routeRole('GET', '/sse')).toBe('runner')
+    expect(routeRole('POST', '/mcp')).toBe('runner')
+    expect(routeRole('GET', '/auth/keys')).toBe('admin')
+    expect(routeRole('GET', '/something/new')).toBe('admin')
+    expect(routeRole('POST', '/style.css')).toBe('admin')
+  })
+
+  it('orders roles viewer < runner < admin', () => {
+    expect(hasRole('admin', 'runner')).toBe(true)
+    expect(hasRole('runner', 'runner')).toBe(true)
+    expect(hasRole('viewer', 'runner')).toBe(false)
+  })
+})
+
+describe('API keys', () => {
+  it('generates distinct keys with a display prefix and hex hash', async () => {
+    const key = generateApiKey()
+    expect(key).toMatch(/^pmk_[A-Za-z0-9_-]{43}$/)
+    expect(generateApiKey()).not.toBe(key)
+    expect(apiKeyPrefix(key)).toBe(key.slice(0, 12))
+    expect(await hashApiKey('pmk_test')).toBe(createHash('sha256').update('pmk_test').digest('hex'))
+  })
+
+  it('reads keys from the Authorization header, X-API-Key or the login cookie', () => {
+    expect(readApiKey(new Request('https://w.example', { headers: { Authorization: 'Bearer pmk_a' } }))).toBe('pmk_a')
+    expect(readApiKey(new Request('https://w.example', { headers: { 'X-API-Key': 'pmk_b' } }))).toBe('pmk_b')
+    expect(readApiKey(new Request('https://w.example', { headers: { Cookie: 'theme=dark; api_key=pmk_c' } }))).toBe('pmk_c')
+    expect(readApiKey(new Request('https://w.example'))).toBeNull()
+
+    expect(apiKeyCookie('pmk_c', true)).toBe('api_key=pmk_c; Max-Age=2592000; Path=/; HttpOnly; SameSite=Strict; Secure')
+    expect(apiKeyCookie(null, false)).toBe('api_key=; Max-Age=0; Path=/; HttpOnly; SameSite=Strict')
+  })
+
+  it('checks the bootstrap token', async () => {
+    const request = new Request('https://w.example', { headers: { Authorization: 'Bearer s3cret' } })
+    expect(await matchesBootstrapToken(request, 's3cret')).toBe(true)
+    expect(await matchesBootstrapToken(request, 'other')).toBe(false)
+    expect(await matchesBootstrapToken(request, undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { FakeBrowser } from './helpers/browser'
+
+// The worker's browser client is replaced by the fake the current spec sets up
+const browser = vi.hoisted(() => ({ current: null as FakeBrowser | null }))
+vi.mock('@cloudflare/playwright-mcp', () => ({ createMcpAgent: () => ({}) }))
+vi.mock('../src/playwright-client', () => ({
+  PlaywrightClient: function PlaywrightClient() { return browser.current!.client },
+}))
+
+import worker from '../src/index'
+import { TraditionalTestExecutor } from '../src/traditional-test-executor'
+import { AgenticTestExecutor } from '../src/agentic-test-executor'
+import { ScriptedAgentProvider } from '../src/agent-provider'
+import { SessionArtifacts, createArtifactStore } from '../src/artifact-store'
+import { Logger } from '../src/logger'
+import type { DatabaseService } from '../src/database'
+import type { TraditionalTestCase, TraditionalTestSuite } from '../src/types'
+import { createFakeBrowser } from './helpers/browser'
+import { createAuthHeader, createExecutionContext, createTestDatabase } from './helpers/worker'
+
+const testCase: TraditionalTestCase = {
+  name: 'Checkout',
+  steps: [
+    { action: 'navigate', url: 'https://shop.example', description: 'Open shop' },
+    { action: 'click', selector: '#pay', description: 'Pay' },
+    { action: 'click', selector: '#receipt', description: 'Open receipt' },
+  ],
+  assertions: [{ type: 'visible', selector: '.thanks', description: 'Thank-you note shown' }],
+}
+
+async function createSession(db: DatabaseService, id: string, test_type: 'traditional' | 'agentic' = 'traditional') {
+  await db.createTestSession({ id, url: 'https://shop.example', test_type, status: 'running' })
+  return { logger: new Logger(db, id), artifacts: new SessionArtifacts(createArtifactStore({} as Env), db, id) }
+}
+
+async function resultStatuses(db: DatabaseService, sessionId: string) {
+  return (await db.getTestResults(sessionId)).map(result => [result.test_name, result.status])
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.useRealTimers()
+})
+
+describe('cancelling a traditional test', () => {
+  it('skips the remaining steps and assertions and disposes the browser once', async () => {
+    const { db } = await createTestDatabase()
+    const { logger, artifacts } = await createSession(db, 'session_cancel')
+    const controller = new AbortController()
+    const fake = createFakeBrowser({
+      click: async (selector: string) => {
+        if (selector !== '#pay') return
+        controller.abort()
+        return fake.untilDisposed()
+      },
+    })
+
+    const result = await new TraditionalTestExecutor(fake.client, db, logger, artifacts, controller.signal)
+      .executeTest('session_cancel', testCase)
+
+    expect(result).toMatchObject({ success: false, cancelled: true, error_summary: 'Session session_cancel was cancelled' })
+    expect(await resultStatuses(db, 'session_cancel')).toEqual([
+      ['Checkout - Open shop', 'passed'],
+      ['Checkout - Pay', 'skipped'],
+      ['Checkout - Open receipt', 'skipped'],
+      ['Checkout - Thank-you note shown', 'skipped'],
+    ])
+    expect(fake.dispose).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips the cases of a suite that had not finished', async () => {
+    const { db } = await createTestDatabase()
+    const { logger, artifacts } = await createSession(db, 'session_suite')
+    const controller = new AbortController()
+    const fake = createFakeBrowser({
+      click: async (selector: string) => {
+        if (selector !== '#pay') return
+        controller.abort()
+        return fake.untilDisposed()
+      },
+    })
+    const suite: TraditionalTestSuite = {
+      name: 'Shop',
+      cases: [
+        { name: 'browse', steps: [{ action: 'navigate', url: 'https://shop.example', description: 'Open shop' }], assertions: [] },
+        { name: 'pay', steps: [{ action: 'click', selector: '#pay', description: 'Pay' }], assertions: [] },
+        { name: 'refund', steps: [{ action: 'click', selector: '#refund', description: 'Refund' }], assertions: [] },
+      ],
+    }
+
+    const result = await new TraditionalTestExecutor(fake.client, db, logger, artifacts, controller.signal)
+      .executeSuite('session_suite', suite)
+
+    expect(result.cancelled).toBe(true)
+    expect(result.suite!.cases.map(entry => [entry.name, entry.status])).toEqual([
+      ['browse', 'passed'],
+      ['pay', 'skipped'],
+      ['refund', 'skipped'],
+    ])
+    expect(fake.dispose).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('cancelling an agentic test', () => {
+  it('stops planning, records the test as skipped and disposes the browser once', async () => {
+    const { db } = await createTestDatabase()
+    const { logger, artifacts } = await createSession(db, 'session_agent', 'agentic')
+    const controller = new AbortController()
+    const fake = createFakeBrowser({
+      click: async () => {
+        controller.abort()
+        return fake.untilDisposed()
+      },
+    })
+    const provider = new ScriptedAgentProvider({
+      plans: [[
+        { type: 'click_element', description: 'Pay', params: { selector: '#pay' } },
+        { type: 'click_element', description: 'Open receipt', params: { selector: '#receipt' } },
+      ]],
+    })
+    const evaluateCriteria = vi.spyOn(provider, 'evaluateCriteria')
+
+    const result = await new AgenticTestExecutor(fake.client, db, logger, provider, artifacts, controller.signal)
+      .executeTest('session_agent', { goal: 'Buy a hat', context: '', success_criteria: ['Receipt shown'] }, 'https://shop.example')
+
+    expect(result).toMatchObject({ success: false, cancelled: true })
+    expect(await resultStatuses(db, 'session_agent')).toEqual([['Agentic Test: Buy a hat', 'skipped']])
+    expect(evaluateCriteria).not.toHaveBeenCalled()
+    expect(fake.dispose).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('DELETE /session', () => {
+  it('cancels a running session, which keeps its cancelled status once the run finishes', async () => {
+    const { d1, db } = await createTestDatabase()
+    const env = { DB: d1 } as Env
+    const headers = await createAuthHeader(db)
+    // Only the cancellation poll is faked; D1 and the executor still use real timers
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] })
+
+    let cancelResponse: Response | undefined
+    const fake = createFakeBrowser({
+      click: async (selector: string) => {
+        if (selector !== '#pay') return
+        const sessionId = await d1.prepare("SELECT id FROM test_sessions WHERE status = 'running'").first<string>('id')
+        cancelResponse = await worker.fetch(
+          new Request(`https://worker.example/session?sessionId=${sessionId}`, { method: 'DELETE', headers }),
+          env,
+          createExecutionContext()
+        )
+        await vi.advanceTimersToNextTimerAsync()
+        return fake.untilDisposed()
+      },
+    })
+    browser.current = fake
+
+    const response = await worker.fetch(new Request('https://worker.example/test/traditional', {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: 'https://shop.example', testCase, useStoredConfig: false, wait: true }),
+    }), env, createExecutionContext())
+    const { sessionId, success } = await response.json() as { sessionId: string; success: boolean }
+
+    expect(cancelResponse!.status).toBe(200)
+    expect(success).toBe(false)
+    expect(await db.getTestSession(sessionId)).toMatchObject({ status: 'cancelled', error_summary: 'Cancelled by request' })
+    expect((await resultStatuses(db, sessionId)).map(([, status]) => status)).toEqual(['passed', 'skipped', 'skipped', 'skipped'])
+    expect(fake.dispose).toHaveBeenCalledTimes(1)
+
+    const again = await worker.fetch(
+      new Request(`https://worker.example/session?sessionId=${sessionId}`, { method: 'DELETE', headers }),
+      env,
+      createExecutionContext()
+    )
+    expect(again.status).toBe(409)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { diffRevisions, pickRevisionedFields, unifiedDiff } from '../src/config-revisions'
+import type { ConfigRevision } from '../src/types'
+
+const base: ConfigRevision = {
+  config_id: 4,
+  revision: 2,
+  change: 'update',
+  snapshot: {
+    url_pattern: 'example.com/login',
+    name: 'Login',
+    instructions: JSON.stringify({ name: 'Login', steps: [{ action: 'navigate', url: 'https://example.com/login' }, { action: 'click', selector: '#submit' }] }),
+    test_type: 'traditional',
+    llm_provider: null,
+    llm_model: null,
+    is_active: 1 as unknown as boolean,
+  },
+}
+
+describe('diffRevisions', () => {
+  it('lists changed fields and diffs the pretty-printed instructions', () => {
+    const next: ConfigRevision = {
+      ...base,
+      revision: 3,
+      snapshot: {
+        ...base.snapshot,
+        name: 'Login flow',
+        is_active: true,
+        instructions: JSON.stringify({ name: 'Login', steps: [{ action: 'navigate', url: 'https://example.com/login' }, { action: 'click', selector: 'button[type=submit]' }] }),
+      },
+    }
+
+    const diff = diffRevisions(base, next)
+
+    // 1 and true are the same stored value
+    expect(diff.changes).toEqual([{ field: 'name', from: 'Login', to: 'Login flow' }])
+    expect(diff.instructions_diff).toBe(`--- revision 2
++++ revision 3
+@@ -7,7 +7,7 @@
+     },
+     {
+       "action": "click",
+-      "selector": "#submit"
++      "selector": "button[type=submit]"
+     }
+   ]
+ }`)
+  })
+
+  it('returns an empty diff for identical instructions', () => {
+    expect(diffRevisions(base, { ...base, revision: 3 })).toMatchObject({ changes: [], instructions_diff: '' })
+  })
+})
+
+describe('unifiedDiff', () => {
+  it('splits distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+    const after = [...before]
+    after[1] = 'changed 2'
+    after.splice(17, 1)
+
+    expect(unifiedDiff(before.join('\n'), after.join('\n'), ['a', 'b']).split('\n')).toEqual([
+      '--- a',
+      '+++ b',
+      '@@ -1,5 +1,5 @@',
+      ' line 1',
+      '-line 2',
+      '+changed 2',
+      ' line 3',
+      ' line 4',
+      ' line 5',
+      '@@ -15,6 +15,5 @@',
+      ' line 15',
+      ' line 16',
+      ' line 17',
+      '-line 18',
+      ' line 19',
+      ' line 20',
+    ])
+  })
+})
+
+describe('pickRevisionedFields', () => {
+  it('ignores fields a revision does not track', () => {
+    expect(pickRevisionedFields({ name: 'New', revision: 9, created_at: 'x', llm_model: null })).toEqual({ name: 'New', llm_model: null })
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { cronMatches, parseCron } from '../src/cron'
+
+const at = (iso: string) => new Date(iso)
+
+describe('cron expressions', () => {
+  it('matches every 15 minutes', () => {
+    expect(cronMatches('*/15 * * * *', at('2025-06-02T10:45:00Z'))).toBe(true)
+    expect(cronMatches('*/15 * * * *', at('2025-06-02T10:46:00Z'))).toBe(false)
+  })
+
+  it('evaluates hours in UTC', () => {
+    expect(cronMatches('0 2 * * *', at('2025-06-02T02:00:00Z'))).toBe(true)
+    expect(cronMatches('0 2 * * *', at('2025-06-02T03:00:00Z'))).toBe(false)
+  })
+
+  it('supports lists, ranges, names and macros', () => {
+    expect(cronMatches('0 9 * * MON-FRI', at('2025-06-06T09:00:00Z'))).toBe(true) // Friday
+    expect(cronMatches('0 9 * * MON-FRI', at('2025-06-07T09:00:00Z'))).toBe(false) // Saturday
+    expect(cronMatches('30 8,20 1 jan *', at('2025-01-01T20:30:00Z'))).toBe(true)
+    expect(cronMatches('@daily', at('2025-06-02T00:00:00Z'))).toBe(true)
+    expect(cronMatches('0 0 * * 7', at('2025-06-08T00:00:00Z'))).toBe(true) // Sunday
+  })
+
+  it('matches either day field when both are restricted', () => {
+    const cron = parseCron('0 0 13 * FRI')
+    expect(cronMatches(cron, at('2025-06-13T00:00:00Z'))).toBe(true) // the 13th
+    expect(cronMatches(cron, at('2025-06-06T00:00:00Z'))).toBe(true) // a Friday
+    expect(cronMatches(cron, at('2025-06-10T00:00:00Z'))).toBe(false)
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(/5 fields/)
+    expect(() => parseCron('61 * * * *')).toThrow(/minute/)
+    expect(() => parseCron('*/0 * * * *')).toThrow(/step/)
+    expect(() => parseCron('0 5-2 * * *')).toThrow(/range/)
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { StepRun, scoreFlakiness } from '../src/flakiness'
+
+function runs(testName: string, statuses: string, configId: number | null = 1): StepRun[] {
+  return [...statuses].map((code, i) => ({
+    config_id: configId,
+    test_name: testName,
+    session_id: `session-${i}`,
+    status: code === 'P' ? 'passed' : code === 'F' ? 'failed' : 'flaky',
+    attempts: code === 'R' ? 2 : 1,
+    timestamp: `2025-03-0${i + 1} 10:00:00`,
+  }))
+}
+
+describe('scoreFlakiness', () => {
+  it('scores flaky runs and outcome flips, ignoring steady and rarely run steps', () => {
+    const steps = scoreFlakiness([
+      ...runs('Login - click #submit', 'PPRPFP'),
+      ...runs('Login - wait_for #menu', 'FFFFF'),
+      ...runs('Login - navigate', 'PPPPP'),
+      ...runs('Login - type #user', 'PRP'),
+    ], 5)
+
+    expect(steps).toEqual([{
+      config_id: 1,
+      test_name: 'Login - click #submit',
+      runs: 6,
+      passed: 4,
+      flaky: 1,
+      failed: 1,
+      flips: 2,
+      retries: 1,
+      score: 3 / 6,
+      quarantine: true,
+      last_flaky_at: '2025-03-03 10:00:00',
+    }])
+  })
+
+  it('keeps steps of different configurations apart', () => {
+    const steps = scoreFlakiness([...runs('Home - click', 'PFPP', 1), ...runs('Home - click', 'PPPPPPPPPR', 2)], 4)
+    expect(steps.map(step => [step.config_id, step.score, step.quarantine])).toEqual([[1, 0.5, true], [2, 0.1, false]])
+  })
+})
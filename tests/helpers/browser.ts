@@ -0,0 +1,43 @@
+import { vi } from 'vitest'
+import type { PlaywrightAutomationClient } from '../../src/types'
+
+export interface FakeBrowser {
+  client: PlaywrightAutomationClient
+  dispose: ReturnType<typeof vi.fn>
+  // Stands in for an in-flight Playwright call: rejects like a closed page once the browser is disposed
+  untilDisposed: () => Promise<never>
+}
+
+/**
+ * A browser client whose calls all succeed at once, except those given in
+ * `overrides`. Calls still pending when it is disposed reject.
+ */
+export function createFakeBrowser(overrides: Partial<PlaywrightAutomationClient> = {}): FakeBrowser {
+  let disposed = false
+  const waiting: Array<() => void> = []
+  const dispose = vi.fn(async () => {
+    disposed = true
+    for (const wake of waiting.splice(0)) wake()
+  })
+  const untilDisposed = () => new Promise<never>((_, reject) => {
+    const close = () => reject(new Error('Target page, context or browser has been closed'))
+    if (disposed) close()
+    else waiting.push(close)
+  })
+
+  const defaults: Partial<PlaywrightAutomationClient> = {
+    count: async () => 1,
+    isVisible: async () => true,
+    innerText: async () => 'ok',
+    currentUrl: async () => 'https://example.com',
+    title: async () => 'Example',
+    takeScreenshot: async () => 'iVBORw0KGgo=',
+    snapshot: async () => '<html></html>',
+    waitForUrl: async (url: string) => url,
+  }
+  const client = new Proxy({ ...defaults, ...overrides, dispose } as PlaywrightAutomationClient, {
+    // `then` stays undefined so the client is never mistaken for a promise
+    get: (target, name) => Reflect.get(target, name) ?? (name === 'then' ? undefined : async () => undefined),
+  })
+  return { client, dispose, untilDisposed }
+}
@@ -0,0 +1,115 @@
+import initSqlJs, { Database, SqlValue } from 'sql.js'
+import { vi } from 'vitest'
+import { DatabaseService } from '../../src/database'
+import { apiKeyPrefix, generateApiKey, hashApiKey } from '../../src/auth'
+import type { ApiRole } from '../../src/types'
+
+type D1Value = string | number | boolean | null | ArrayBuffer | Uint8Array
+
+class SqlJsStatement {
+  constructor(private database: Database, readonly sql: string, private values: SqlValue[] = []) {}
+
+  bind(...values: D1Value[]): SqlJsStatement {
+    return new SqlJsStatement(this.database, this.sql, values.map(toSqlValue))
+  }
+
+  async all<T>(): Promise<{ success: true; results: T[]; meta: object }> {
+    return { success: true, results: this.rows() as T[], meta: {} }
+  }
+
+  async first<T>(column?: string): Promise<T | null> {
+    const row = this.rows()[0]
+    if (!row) return null
+    return (column ? row[column] : row) as T
+  }
+
+  async raw<T>(): Promise<T[]> {
+    return this.rows().map(row => Object.values(row)) as T[]
+  }
+
+  async run(): Promise<{ success: true; results: unknown[]; meta: { changes: number; last_row_id: number } }> {
+    const results = this.rows()
+    const lastRowId = this.database.exec('SELECT last_insert_rowid()')[0].values[0][0] as number
+    return { success: true, results, meta: { changes: this.database.getRowsModified(), last_row_id: lastRowId } }
+  }
+
+  private rows(): Record<string, SqlValue>[] {
+    const statement = this.database.prepare(this.sql)
+    try {
+      statement.bind(this.values)
+      const rows: Record<string, SqlValue>[] = []
+      while (statement.step()) rows.push(statement.getAsObject())
+      return rows
+    } finally {
+      statement.free()
+    }
+  }
+}
+
+// D1 rejects undefined bindings and stores booleans as integers
+function toSqlValue(value: D1Value): SqlValue {
+  if (value === undefined) throw new Error('D1_TYPE_ERROR: Type \'undefined\' not supported for value \'undefined\'')
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value instanceof ArrayBuffer) return new Uint8Array(value)
+  return value
+}
+
+// The subset of the D1 binding the worker uses, over an in-memory SQLite database
+class SqlJsD1 {
+  constructor(private database: Database) {}
+
+  prepare(sql: string): SqlJsStatement {
+    return new SqlJsStatement(this.database, sql)
+  }
+
+  // Like D1, a batch runs as one transaction
+  async batch(statements: SqlJsStatement[]): Promise<unknown[]> {
+    this.database.exec('BEGIN')
+    try {
+      const results = []
+      for (const statement of statements) results.push(await statement.run())
+      this.database.exec('COMMIT')
+      return results
+    } catch (error) {
+      this.database.exec('ROLLBACK')
+      throw error
+    }
+  }
+
+  async exec(sql: string): Promise<{ count: number; duration: number }> {
+    this.database.exec(sql)
+    return { count: 1, duration: 0 }
+  }
+}
+
+/**
+ * An in-memory D1 stand-in with every migration applied, so specs can run
+ * the worker's real SQL.
+ */
+export async function createTestDatabase(): Promise<{ d1: D1Database; db: DatabaseService }> {
+  const SQL = await initSqlJs()
+  const d1 = new SqlJsD1(new SQL.Database()) as unknown as D1Database
+  const db = new DatabaseService(d1)
+  await db.migrate()
+  return { d1, db }
+}
+
+// Stores a new API key and returns the Authorization header that sends it
+export async function createAuthHeader(db: DatabaseService, role: ApiRole = 'runner'): Promise<Record<string, string>> {
+  const key = generateApiKey()
+  await db.createApiKey({ name: `${role} key`, key_prefix: apiKeyPrefix(key), role }, await hashApiKey(key))
+  return { Authorization: `Bearer ${key}` }
+}
+
+// Collects waitUntil promises so a spec can await the work scheduled after a response
+export function createExecutionContext(): ExecutionContext & { settle: () => Promise<void> } {
+  const pending: Promise<unknown>[] = []
+  return {
+    waitUntil: vi.fn((promise: Promise<unknown>) => { pending.push(promise) }),
+    passThroughOnException: () => {},
+    props: {},
+    settle: async () => {
+      while (pending.length) await pending.shift()
+    },
+  } as unknown as ExecutionContext & { settle: () => Promise<void> }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { validateInstructions } from '../src/instruction-schema'
+
+describe('validateInstructions', () => {
+  it('accepts test cases, suites and agentic configs', () => {
+    expect(validateInstructions('traditional', JSON.stringify({
+      name: 'Login',
+      variables: { host: 'https://staging.example.com', retries: 2 },
+      steps: [
+        { action: 'navigate', url: '{{host}}/login' },
+        { action: 'press', value: 'Enter' },
+        { action: 'screenshot' },
+      ],
+      assertions: [{ type: 'count', selector: 'li', expected: 3, comparator: 'gte' }],
+    }))).toEqual([])
+
+    expect(validateInstructions('traditional', {
+      name: 'Todo app',
+      beforeAll: [{ action: 'navigate', url: 'https://app.example.com', description: 'Open' }],
+      mocks: [{ url: '**/api/**', method: ['GET', 'POST'], abort: 'timedout', delay_ms: 500 }],
+      cases: [{
+        name: 'adds a todo',
+        mocks: [{ url: '**/api/todos', fixture: 'todos.json', times: 1 }],
+        steps: [{ action: 'mock_route', mock: { url: '**/api/todos', status: 503, body: { error: 'down' } } }],
+        assertions: [],
+      }],
+    })).toEqual([])
+
+    expect(validateInstructions('agentic', { goal: 'Add todos', success_criteria: ['3 todos created'], max_attempts: 2 })).toEqual([])
+  })
+
+  it('reports field-level paths for misspelled and missing fields', () => {
+    expect(validateInstructions('traditional', {
+      name: 'Login',
+      steps: [
+        { action: 'navigate', url: 'https://example.com' },
+        { action: 'click', selecter: '#submit' },
+        { action: 'tap', selector: '#menu' },
+      ],
+      assertions: [{ type: 'count', selector: 'li', expected: '3' }],
+    })).toEqual([
+      { path: '/steps/1/selecter', message: 'is not allowed; did you mean "selector"?' },
+      { path: '/steps/1/selector', message: 'is required' },
+      { path: '/steps/2/action', message: expect.stringMatching(/^must be one of "navigate", "click"/) },
+      { path: '/assertions/0/expected', message: 'must be number' },
+    ])
+
+    expect(validateInstructions('agentic', { goal: '', success_criteria: 'done', max_steps: 0 })).toEqual([
+      { path: '/goal', message: 'must not be empty' },
+      { path: '/success_criteria', message: 'must be array' },
+      { path: '/max_steps', message: 'must be at least 1' },
+    ])
+  })
+
+  it('reports unparseable JSON at the root', () => {
+    expect(validateInstructions('traditional', '{"name": "Login",')).toEqual([
+      { path: '', message: expect.stringMatching(/^Invalid JSON: /) },
+    ])
+    expect(validateInstructions('traditional', '[]')).toEqual([{ path: '', message: 'must be object' }])
+  })
+})
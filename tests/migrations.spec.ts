@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { readdirSync } from 'node:fs'
+import path from 'node:path'
+import { MIGRATIONS, LiveTable, diffSchema, expectedSchema, satisfiedVersion, splitSqlStatements } from '../src/migrations'
+
+// The live schema a database would report once the given migrations have run
+function liveAfter(count: number): LiveTable[] {
+  return [...expectedSchema(MIGRATIONS.slice(0, count)).values()].map(table => ({
+    name: table.name,
+    columns: [...table.columns].map(([name, type]) => ({ name, type })),
+    indexes: [...table.indexes].map(name => ({ name })),
+  }))
+}
+
+describe('MIGRATIONS', () => {
+  it('registers every file in migrations/ in order', () => {
+    const files = readdirSync(path.resolve(__dirname, '../migrations')).filter(file => file.endsWith('.sql')).sort()
+    expect(MIGRATIONS.map(migration => `${migration.name}.sql`)).toEqual(files)
+    expect(MIGRATIONS.map(migration => migration.version)).toEqual(files.map((_, i) => i + 1))
+  })
+})
+
+describe('splitSqlStatements', () => {
+  it('drops comments and keeps semicolons inside literals', () => {
+    expect(splitSqlStatements(`
+      -- seed; not a statement
+      INSERT INTO t (a) VALUES ('x;y', 'it''s');
+      /* block; comment */ UPDATE t SET "a;b" = 1;
+    `)).toEqual([
+      "INSERT INTO t (a) VALUES ('x;y', 'it''s')",
+      'UPDATE t SET "a;b" = 1',
+    ])
+  })
+})
+
+describe('expectedSchema', () => {
+  it('follows CREATE, ALTER and DROP statements across migrations', () => {
+    const schema = expectedSchema([
+      { version: 1, name: '0001_a', statements: splitSqlStatements(`
+        CREATE TABLE results (id INTEGER PRIMARY KEY, status TEXT NOT NULL CHECK (status IN ('a', 'b')), UNIQUE (status));
+        CREATE INDEX idx_results_status ON results(status);
+        ALTER TABLE results ADD COLUMN attempt INTEGER NOT NULL DEFAULT 1;
+      `) },
+      { version: 2, name: '0002_b', statements: splitSqlStatements(`
+        CREATE TABLE results_new (id INTEGER PRIMARY KEY, status TEXT NOT NULL, attempt INTEGER);
+        INSERT INTO results_new SELECT id, status, attempt FROM results;
+        DROP TABLE results;
+        ALTER TABLE results_new RENAME TO results;
+        CREATE INDEX idx_results_status ON results(status);
+      `) },
+    ])
+
+    expect([...schema.keys()]).toEqual(['results'])
+    expect([...schema.get('results')!.columns]).toEqual([['id', 'INTEGER'], ['status', 'TEXT'], ['attempt', 'INTEGER']])
+    expect([...schema.get('results')!.indexes]).toEqual(['idx_results_status'])
+  })
+})
+
+describe('diffSchema', () => {
+  it('reports missing and unexpected tables, columns and indexes', () => {
+    const live = liveAfter(MIGRATIONS.length)
+    expect(diffSchema(expectedSchema(MIGRATIONS), live).in_sync).toBe(true)
+
+    const instructions = live.find(table => table.name === 'system_instructions')!
+    instructions.columns = instructions.columns.filter(column => column.name !== 'priority')
+    instructions.indexes.push({ name: 'sqlite_autoindex_system_instructions_1' }, { name: 'idx_manual' })
+    live.push({ name: 'scratch', columns: [], indexes: [] }, { name: 'd1_migrations', columns: [], indexes: [] })
+
+    expect(diffSchema(expectedSchema(MIGRATIONS), live)).toMatchObject({
+      in_sync: false,
+      missing_tables: [],
+      unexpected_tables: ['scratch'],
+      missing_columns: [{ table: 'system_instructions', column: 'priority', type: 'INTEGER' }],
+      unexpected_indexes: [{ table: 'system_instructions', index: 'idx_manual' }],
+    })
+  })
+})
+
+describe('satisfiedVersion', () => {
+  it('finds the newest migration an untracked database already contains', () => {
+    expect(satisfiedVersion([])).toBe(0)
+    expect(satisfiedVersion(liveAfter(MIGRATIONS.length))).toBe(MIGRATIONS.length)
+    // 0002 only seeds data, so a database with the 0001 tables counts as migrated through it
+    expect(satisfiedVersion(liveAfter(1))).toBe(2)
+  })
+})
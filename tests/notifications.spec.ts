@@ -0,0 +1,141 @@
+import { createHmac } from 'node:crypto'
+import { describe, it, expect, vi } from 'vitest'
+import { NotificationService, buildSlackMessage, notificationEvent, signPayload } from '../src/notifications'
+import type { DatabaseService } from '../src/database'
+import type { NotificationChannel, NotificationDelivery, TestSession } from '../src/types'
+
+const session: TestSession = {
+  id: 'session-2',
+  url: 'https://example.com',
+  test_type: 'traditional',
+  status: 'failed',
+  config_id: 3,
+  error_summary: 'Expected text "Hi"',
+}
+
+function createHarness(channels: NotificationChannel[], previousStatus: TestSession['status'] | null) {
+  const deliveries = new Map<number, NotificationDelivery>()
+  const db = {
+    getTestSession: vi.fn(async () => session),
+    getNotificationChannelsForConfig: vi.fn(async () => channels),
+    getNotificationChannel: vi.fn(async (id: number) => channels.find(channel => channel.id === id) ?? null),
+    getPreviousSessionStatus: vi.fn(async () => previousStatus),
+    getSessionStats: vi.fn(async () => ({ test_results_summary: { passed: 2, failed: 1, skipped: 0 } })),
+    getSystemInstructionById: vi.fn(async () => ({ name: 'Login' })),
+    createNotificationDelivery: vi.fn(async (delivery: NotificationDelivery) => {
+      const id = deliveries.size + 1
+      deliveries.set(id, { ...delivery, id, status: 'pending', attempts: 0 })
+      return id
+    }),
+    updateNotificationDelivery: vi.fn(async (id: number, updates: Partial<NotificationDelivery>) => {
+      deliveries.set(id, { ...deliveries.get(id)!, ...updates })
+    }),
+    getDueNotificationDeliveries: vi.fn(async () => [...deliveries.values()].filter(delivery => delivery.status === 'pending')),
+  }
+  return { db, deliveries }
+}
+
+describe('notificationEvent', () => {
+  it('applies always, failure and recovery rules', () => {
+    expect(notificationEvent('always', 'completed', null)).toBe('completed')
+    expect(notificationEvent('always', 'cancelled', null)).toBe('cancelled')
+    expect(notificationEvent('failure', 'failed', 'failed')).toBe('failure')
+    expect(notificationEvent('failure', 'completed', 'failed')).toBeNull()
+    expect(notificationEvent('recovery', 'completed', 'failed')).toBe('recovery')
+    expect(notificationEvent('recovery', 'completed', 'completed')).toBeNull()
+    expect(notificationEvent('recovery', 'completed', null)).toBeNull()
+    expect(notificationEvent('always', 'running', null)).toBeNull()
+  })
+})
+
+describe('NotificationService', () => {
+  it('signs webhook bodies like GitHub webhooks', async () => {
+    const body = JSON.stringify({ hello: 'world' })
+    expect(await signPayload('s3cret', body)).toBe(`sha256=${createHmac('sha256', 's3cret').update(body).digest('hex')}`)
+  })
+
+  it('records failed deliveries and retries them', async () => {
+    const channels: NotificationChannel[] = [
+      { id: 1, name: 'CI hook', type: 'webhook', target: 'https://hooks.example/ci', rule: 'failure', enabled: true },
+      { id: 2, name: 'Team chat', type: 'slack', target: 'https://hooks.slack.example/T1', rule: 'recovery', enabled: true },
+    ]
+    const { db, deliveries } = createHarness(channels, 'completed')
+    const fetcher = vi.fn()
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }))
+    const service = new NotificationService({ PUBLIC_BASE_URL: 'https://worker.example/' } as Env, db as unknown as DatabaseService, fetcher)
+
+    await service.notifySessionFinished('session-2')
+
+    // Only the failure channel fires; the previous run did not fail, so there is nothing to recover from
+    expect(db.createNotificationDelivery).toHaveBeenCalledTimes(1)
+    expect(deliveries.get(1)).toMatchObject({ status: 'pending', attempts: 1, response_status: 503, last_error: 'HTTP 503: busy' })
+    expect(deliveries.get(1)!.next_attempt_at).toBeTruthy()
+
+    const [url, init] = fetcher.mock.calls[0]
+    expect(url).toBe('https://hooks.example/ci')
+    expect(JSON.parse(init.body)).toMatchObject({
+      event: 'failure',
+      config_name: 'Login',
+      summary: { passed: 2, failed: 1, skipped: 0 },
+      links: { session: 'https://worker.example/sessions.html?sessionId=session-2' },
+    })
+
+    expect(await service.retryDueDeliveries()).toBe(1)
+    expect(deliveries.get(1)).toMatchObject({ status: 'delivered', attempts: 2, response_status: 200, last_error: null, next_attempt_at: null })
+  })
+
+  it('calls the global fetch unbound when no fetcher is given', async () => {
+    const channels: NotificationChannel[] = [
+      { id: 1, name: 'CI hook', type: 'webhook', target: 'https://hooks.example/ci', rule: 'always', enabled: true },
+    ]
+    const { db, deliveries } = createHarness(channels, null)
+    const receivers: unknown[] = []
+    vi.stubGlobal('fetch', vi.fn(function (this: unknown) {
+      receivers.push(this)
+      return Promise.resolve(new Response('ok', { status: 200 }))
+    }))
+    try {
+      await new NotificationService({} as Env, db as unknown as DatabaseService).notifySessionFinished('session-2')
+    } finally {
+      vi.unstubAllGlobals()
+    }
+
+    expect(receivers).toHaveLength(1)
+    expect([undefined, globalThis]).toContain(receivers[0])
+    expect(deliveries.get(1)).toMatchObject({ status: 'delivered', response_status: 200 })
+  })
+
+  it('retries only the email recipients that failed', async () => {
+    const channels: NotificationChannel[] = [
+      { id: 1, name: 'QA list', type: 'email', target: 'a@example.com, b@example.com', rule: 'failure', enabled: true },
+    ]
+    const { db, deliveries } = createHarness(channels, null)
+    const send = vi.fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('mailbox unavailable'))
+      .mockResolvedValueOnce(undefined)
+    const env = { NOTIFY_EMAIL: { send }, NOTIFY_EMAIL_FROM: 'qa@example.com' } as unknown as Env
+    const service = new NotificationService(env, db as unknown as DatabaseService, vi.fn())
+
+    await service.notifySessionFinished('session-2')
+    expect(deliveries.get(1)).toMatchObject({
+      status: 'pending',
+      delivered_to: 'a@example.com',
+      last_error: 'Email not sent to b@example.com: mailbox unavailable',
+    })
+
+    await service.retryDueDeliveries()
+    expect(send.mock.calls.map(([message]) => message.to)).toEqual(['a@example.com', 'b@example.com', 'b@example.com'])
+    expect(deliveries.get(1)).toMatchObject({ status: 'delivered', attempts: 2, delivered_to: 'a@example.com,b@example.com' })
+  })
+
+  it('formats Slack messages', () => {
+    expect(buildSlackMessage({
+      event: 'recovery',
+      session: { ...session, status: 'completed', error_summary: undefined },
+      config_name: 'Login',
+      summary: { passed: 3, failed: 0, skipped: 0 },
+    })).toEqual({ text: ':white_check_mark: *Login recovered*\nhttps://example.com · 3 passed, 0 failed, 0 skipped' })
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { decodeCursor, encodeCursor, parseConfigListQuery, parseSessionListQuery } from '../src/pagination'
+
+describe('parseSessionListQuery', () => {
+  it('defaults to the newest 50 sessions', () => {
+    expect(parseSessionListQuery(new URLSearchParams())).toEqual({
+      sort: 'start_time',
+      order: 'desc',
+      limit: 50,
+      cursor: null,
+      filters: {},
+    })
+  })
+
+  it('parses filters and normalizes the date range to stored timestamps', () => {
+    const query = parseSessionListQuery(new URLSearchParams({
+      status: 'failed,cancelled',
+      test_type: 'agentic',
+      config_id: '7',
+      url: 'Example.com/login',
+      from: '2025-01-01T12:30:00+02:00',
+      to: '2025-01-31',
+      sort: 'url',
+      order: 'asc',
+      limit: '10',
+    }))
+
+    expect(query).toEqual({
+      sort: 'url',
+      order: 'asc',
+      limit: 10,
+      cursor: null,
+      filters: {
+        status: ['failed', 'cancelled'],
+        test_type: 'agentic',
+        config_id: 7,
+        url: 'Example.com/login',
+        from: '2025-01-01 10:30:00',
+        // A date-only upper bound includes that whole day
+        to: '2025-02-01 00:00:00',
+      },
+    })
+  })
+
+  it('rejects unknown values', () => {
+    expect(parseSessionListQuery(new URLSearchParams({ status: 'failed,broken' }))).toEqual({ error: expect.stringMatching(/^status must be/) })
+    expect(parseSessionListQuery(new URLSearchParams({ sort: 'end_time' }))).toEqual({ error: 'sort must be one of start_time, url, status' })
+    expect(parseSessionListQuery(new URLSearchParams({ limit: '500' }))).toEqual({ error: 'limit must be an integer between 1 and 200' })
+    expect(parseSessionListQuery(new URLSearchParams({ from: 'yesterday' }))).toEqual({ error: 'from must be an ISO 8601 date or date-time' })
+    expect(parseSessionListQuery(new URLSearchParams({ from: '2025-02-01', to: '2025-01-01' }))).toEqual({ error: 'from must be before to' })
+  })
+})
+
+describe('parseConfigListQuery', () => {
+  it('lists active configurations unless asked otherwise', () => {
+    expect(parseConfigListQuery(new URLSearchParams())).toMatchObject({ sort: 'created_at', filters: { is_active: true } })
+    expect(parseConfigListQuery(new URLSearchParams({ status: 'inactive' }))).toMatchObject({ filters: { is_active: false } })
+    expect(parseConfigListQuery(new URLSearchParams({ status: 'all' }))).toMatchObject({ filters: {} })
+    expect(parseConfigListQuery(new URLSearchParams({ status: 'paused' }))).toEqual({ error: 'status must be active, inactive or all' })
+  })
+})
+
+describe('cursors', () => {
+  it('round-trip the sort value and id for the same sort order only', () => {
+    const cursor = encodeCursor({ sort: 'name', order: 'asc' }, { id: 12, name: 'Café checkout' })
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(decodeCursor(cursor, 'name', 'asc')).toEqual({ value: 'Café checkout', id: 12 })
+    expect(decodeCursor(cursor, 'name', 'desc')).toBeNull()
+    expect(decodeCursor('not-a-cursor', 'name', 'asc')).toBeNull()
+
+    expect(parseConfigListQuery(new URLSearchParams({ sort: 'name', order: 'asc', cursor }))).toMatchObject({ cursor: { value: 'Café checkout', id: 12 } })
+    expect(parseConfigListQuery(new URLSearchParams({ cursor }))).toEqual({ error: 'cursor is invalid or was issued for a different sort order' })
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// A page whose locators match the elements listed per selector
+const page = vi.hoisted(() => ({
+  elements: {} as Record<string, Array<{ text: string; value?: string; attributes?: Record<string, string> }>>,
+  reads: [] as string[],
+}))
+
+vi.mock('@cloudflare/playwright', () => {
+  const locator = (selector: string, index?: number) => {
+    const matches = () => page.elements[selector] ?? []
+    const element = () => {
+      page.reads.push(selector)
+      return matches()[index ?? 0]
+    }
+    return {
+      count: async () => matches().length,
+      first: () => locator(selector, 0),
+      isVisible: async () => matches().length > 0,
+      innerText: async () => element().text,
+      inputValue: async () => element().value ?? '',
+      getAttribute: async (name: string) => element().attributes?.[name] ?? null,
+    }
+  }
+  const fakePage = { locator: (selector: string) => locator(selector), close: async () => {} }
+  const context = { newPage: async () => fakePage, close: async () => {} }
+  return { default: { launch: async () => ({ newContext: async () => context, close: async () => {} }) } }
+})
+
+import { PlaywrightClient } from '../src/playwright-client'
+
+describe('PlaywrightClient queries', () => {
+  it('reads from the first match and returns null when nothing matches', async () => {
+    page.elements = {
+      li: [{ text: 'Milk' }, { text: 'Eggs' }],
+      '#email': [{ text: '', value: 'ada@example.com', attributes: { required: '' } }],
+    }
+    page.reads = []
+    const client = new PlaywrightClient({} as never)
+
+    expect(await client.count('li')).toBe(2)
+    expect(await client.innerText('li')).toBe('Milk')
+    expect(await client.inputValue('#email')).toBe('ada@example.com')
+    expect(await client.getAttribute('#email', 'required')).toBe('')
+    expect(await client.getAttribute('#email', 'disabled')).toBeNull()
+    expect(await client.isVisible('.toast')).toBe(false)
+    expect(await client.innerText('.toast')).toBeNull()
+    expect(await client.inputValue('.missing')).toBeNull()
+    // Missing elements are answered from the count, without Playwright's implicit wait on a read
+    expect(page.reads).not.toContain('.toast')
+    expect(page.reads).not.toContain('.missing')
+
+    await client.dispose()
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { exportPlaywrightSpec } from '../src/playwright-export'
+import { resolveTraditionalTest } from '../src/templating'
+
+describe('exportPlaywrightSpec', () => {
+  it('converts steps and assertions into a single test', () => {
+    const spec = exportPlaywrightSpec({
+      name: 'Login Test',
+      steps: [
+        { action: 'navigate', url: 'https://app.example.com/login', description: 'Open login' },
+        { action: 'type', selector: '#username', value: "o'brien" },
+        { action: 'type', selector: '#password', value: '{{secret:ADMIN_PASSWORD}}' },
+        { action: 'press', value: 'Enter' },
+        { action: 'custom', description: 'Solve captcha' },
+      ],
+      assertions: [
+        { type: 'text', selector: '.welcome', expected: 'welcome', match: 'contains', ignore_case: true, description: 'Greets the user' },
+        { type: 'url', expected: '/dashboard$', match: 'regex', description: 'On dashboard' },
+        { type: 'count', selector: 'li', expected: 2, comparator: 'gte', description: 'Has items' },
+        { type: 'visible', selector: '.error', not: true, timeout: 2000, description: 'No error' },
+      ],
+    })
+
+    expect(spec).toBe(`// Generated by the Playwright testing worker. Review selectors and waits before committing.
+import { test, expect } from '@playwright/test';
+
+test('Login Test', async ({ page }) => {
+  // Open login
+  await page.goto('https://app.example.com/login');
+  await page.locator('#username').fill('o\\'brien');
+  await page.locator('#password').fill(\`\${process.env.ADMIN_PASSWORD}\`);
+  await page.keyboard.press('Enter');
+  // Solve captcha
+  // TODO: custom step "Solve captcha" has no Playwright equivalent: {"action":"custom","description":"Solve captcha"}
+  // Greets the user
+  await expect(page.locator('.welcome').first()).toContainText('welcome', { ignoreCase: true });
+  // On dashboard
+  await expect(page).toHaveURL(/\\/dashboard$/);
+  // Has items
+  await expect.poll(() => page.locator('li').count()).toBeGreaterThanOrEqual(2);
+  // No error
+  await expect(page.locator('.error').first()).not.toBeVisible({ timeout: 2000 });
+});
+`)
+  })
+
+  it('shares one context across cases when a suite has beforeAll hooks', () => {
+    const spec = exportPlaywrightSpec(resolveTraditionalTest({
+      name: 'Todos',
+      variables: { host: 'https://todo.example.com' },
+      beforeAll: [{ action: 'navigate', url: '{{host}}/login' }],
+      cases: [
+        { name: 'adds', steps: [{ action: 'click', selector: '#add' }], assertions: [] },
+        { name: 'lists', steps: [], assertions: [{ type: 'count', selector: 'li', expected: 1, description: 'One todo' }] },
+      ],
+    }))
+
+    expect(spec).toContain("import { test, expect, type BrowserContext, type Page } from '@playwright/test';")
+    expect(spec).toContain("test.describe('Todos', () => {")
+    expect(spec).toContain("    await page.goto('https://todo.example.com/login');")
+    expect(spec).toContain("  test('adds', async () => {\n    await page.locator('#add').click();\n  });")
+    expect(spec).toContain("    await expect(page.locator('li')).toHaveCount(1);")
+    expect(spec).toContain('    await context.close();')
+  })
+
+  it('turns route mocks into page.route handlers', () => {
+    const spec = exportPlaywrightSpec({
+      name: 'Errors',
+      mocks: [{ url: '**/api/todos', method: 'GET', status: 500, body: { error: 'boom' }, times: 1 }],
+      steps: [{ action: 'mock_route', mock: { url: '/\\/api\\/profile$/', fixture: 'profile.json', delay_ms: 3000 } }],
+      assertions: [],
+    })
+
+    expect(spec).toContain(`test('Errors', async ({ page }) => {
+  await page.route('**/api/todos', async route => {
+    if (route.request().method() !== 'GET') return route.fallback();
+    await route.fulfill({ status: 500, json: {"error":"boom"} });
+  }, { times: 1 });
+  await page.route(/\\/api\\/profile$/, async route => {
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    await route.fulfill({ path: 'fixtures/profile.json' });
+  });
+});`)
+  })
+})
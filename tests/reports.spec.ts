@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { renderReport, SessionReportInput } from '../src/reports'
+
+const session: SessionReportInput = {
+  session: {
+    id: 'session-1',
+    url: 'https://example.com/login',
+    test_type: 'traditional',
+    status: 'failed',
+    config_id: 7,
+    start_time: '2026-01-02 03:04:05',
+    end_time: '2026-01-02 03:04:07',
+  },
+  name: 'Login <smoke>',
+  results: [
+    { session_id: 'session-1', test_name: 'Login - navigate https://example.com/login', status: 'passed', execution_time_ms: 850 },
+    {
+      session_id: 'session-1',
+      test_name: 'Login - text .welcome',
+      status: 'failed',
+      execution_time_ms: 1200,
+      error_message: JSON.stringify({ message: 'Expected text "Hi" but got "Bye"', type: 'text', operator: 'exact', negated: false, actual: 'Bye' }),
+      screenshot_path: 'assertion-1-failure.png',
+    },
+    { session_id: 'session-1', test_name: 'Login - click #logout', status: 'skipped', error_message: 'Session cancelled' },
+  ],
+  artifacts: [
+    { session_id: 'session-1', name: 'assertion-1-failure.png', kind: 'screenshot', content_type: 'image/png', size_bytes: 10, storage_key: 'k' },
+  ],
+}
+
+const screenshotUrl = 'https://worker.example/session/artifact?sessionId=session-1&name=assertion-1-failure.png'
+
+describe('renderReport', () => {
+  it('renders JUnit XML with durations, failures and attachments', () => {
+    const { body, contentType } = renderReport('junit', [session], 'https://worker.example')
+
+    expect(contentType).toBe('application/xml; charset=utf-8')
+    expect(body).toContain('<testsuites name="Playwright worker" tests="3" failures="1" errors="0" skipped="1" time="2.000">')
+    expect(body).toContain('<testsuite name="Login &lt;smoke&gt;" id="session-1" tests="3" failures="1" errors="0" skipped="1" time="2.000" timestamp="2026-01-02T03:04:05.000Z">')
+    expect(body).toContain('<testcase name="Login - navigate https://example.com/login" classname="Login" time="0.850"/>')
+    expect(body).toContain('<failure message="Expected text &quot;Hi&quot; but got &quot;Bye&quot;" type="AssertionError">')
+    expect(body).toContain(`<system-out>[[ATTACHMENT|${screenshotUrl.replace('&', '&amp;')}]]</system-out>`)
+    expect(body).toContain('<skipped message="Session cancelled"/>')
+  })
+
+  it('renders CTRF, TAP and Markdown summaries', () => {
+    const ctrf = JSON.parse(renderReport('ctrf', [session], 'https://worker.example').body)
+    expect(ctrf.results.summary).toMatchObject({ tests: 3, passed: 1, failed: 1, skipped: 1, start: Date.UTC(2026, 0, 2, 3, 4, 5) })
+    expect(ctrf.results.tests[1]).toMatchObject({
+      name: 'Login - text .welcome',
+      status: 'failed',
+      duration: 1200,
+      message: 'Expected text "Hi" but got "Bye"',
+      suite: 'Login <smoke>',
+      attachments: [{ name: 'assertion-1-failure.png', contentType: 'image/png', path: screenshotUrl }],
+    })
+
+    expect(renderReport('tap', [session], 'https://worker.example').body).toBe(`TAP version 13
+1..3
+# Login <smoke> (session session-1, failed)
+ok 1 - Login - navigate https://example.com/login
+  ---
+  duration_ms: 850
+  ...
+not ok 2 - Login - text .welcome
+  ---
+  duration_ms: 1200
+  message: "Expected text \\"Hi\\" but got \\"Bye\\""
+  screenshot: "${screenshotUrl}"
+  ...
+ok 3 - Login - click \\#logout # SKIP Session cancelled
+`)
+
+    const markdown = renderReport('markdown', [session, { ...session, session: { ...session.session, id: 'session-2', status: 'completed' }, results: [] }], 'https://worker.example').body
+    expect(markdown).toContain('✅ 1 passed · ❌ 1 failed · ⏭️ 1 skipped across 2 sessions')
+    expect(markdown).toContain(`| ❌ | Login - text .welcome | 1200 ms | Expected text "Hi" but got "Bye" [assertion-1-failure.png](${screenshotUrl}) |`)
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { classifyError, resolveRetryPolicy, retryDelay } from '../src/retry-policy'
+import { AssertionFailedError } from '../src/assertions'
+
+describe('resolveRetryPolicy', () => {
+  it('takes each field from the most specific policy that sets it', () => {
+    expect(resolveRetryPolicy()).toEqual({ retries: 0, backoff_ms: 500, backoff_factor: 2, max_backoff_ms: 10000, retry_on: ['timeout', 'element', 'navigation'] })
+    expect(resolveRetryPolicy(
+      { retry_on: ['assertion'] },
+      undefined,
+      { retries: 2, backoff_ms: 100, retry_on: ['timeout'] },
+    )).toMatchObject({ retries: 2, backoff_ms: 100, retry_on: ['assertion'] })
+    expect(resolveRetryPolicy({ retries: 50 }).retries).toBe(10)
+  })
+})
+
+describe('retryDelay', () => {
+  it('backs off exponentially up to the maximum', () => {
+    const policy = resolveRetryPolicy({ backoff_ms: 200, backoff_factor: 3, max_backoff_ms: 1000 })
+    expect([1, 2, 3].map(retry => retryDelay(policy, retry))).toEqual([200, 600, 1000])
+  })
+})
+
+describe('classifyError', () => {
+  it('recognizes Playwright timeouts, element and navigation errors', () => {
+    const timeout = new Error('locator.click: Timeout 30000ms exceeded.\nwaiting for locator("#pay")')
+    timeout.name = 'TimeoutError'
+    expect(classifyError(timeout)).toBe('timeout')
+    expect(classifyError(new Error('locator.click: Element is not attached to the DOM'))).toBe('element')
+    expect(classifyError(new Error('page.goto: net::ERR_CONNECTION_RESET at https://example.com'))).toBe('navigation')
+    expect(classifyError(new AssertionFailedError({ message: 'Expected title', type: 'title', operator: 'exact', negated: false, actual: 'x' }))).toBe('assertion')
+    expect(classifyError(new Error('Selector is required for click action'))).toBe('other')
+  })
+})
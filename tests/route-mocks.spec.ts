@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { buildMockHandler, describeMock, isValidFixtureName } from '../src/route-mocks'
+
+const text = (body: Uint8Array) => new TextDecoder().decode(body)
+
+describe('buildMockHandler', () => {
+  it('serializes JSON bodies and keeps an explicit content type', () => {
+    const json = buildMockHandler({ url: '**/api/todos', method: ['get', 'POST'], status: 500, body: { error: 'boom' } })
+    expect(json).toMatchObject({ url: '**/api/todos', methods: ['GET', 'POST'], delay_ms: 0, times: null, abort: null })
+    expect(json.response).toMatchObject({ status: 500, headers: { 'content-type': 'application/json' } })
+    expect(text(json.response!.body)).toBe('{"error":"boom"}')
+
+    const html = buildMockHandler({ url: '**/page', body: '<p>Hi</p>', headers: { 'Content-Type': 'text/html' } })
+    expect(html.methods).toBeNull()
+    expect(html.response).toMatchObject({ status: 200, headers: { 'Content-Type': 'text/html' } })
+    expect(text(html.response!.body)).toBe('<p>Hi</p>')
+  })
+
+  it('uses fixture content, and aborts without a response', () => {
+    const fixture = { body: new TextEncoder().encode('[]'), content_type: 'application/json' }
+    const handler = buildMockHandler({ url: '**/api/todos', fixture: 'empty.json', delay_ms: 2000, times: 1 }, fixture)
+    expect(handler).toMatchObject({ delay_ms: 2000, times: 1, response: { headers: { 'content-type': 'application/json' } } })
+    expect(text(handler.response!.body)).toBe('[]')
+
+    expect(buildMockHandler({ url: '**/api/*', abort: true })).toMatchObject({ abort: 'failed', response: null })
+    expect(buildMockHandler({ url: '**/api/*', abort: 'timedout', fixture: 'unused.json' })).toMatchObject({ abort: 'timedout' })
+  })
+
+  it('rejects mocks it cannot answer', () => {
+    expect(() => buildMockHandler({ url: '**/api', body: 'x', fixture: 'y.json' })).toThrow('sets both body and fixture')
+    expect(() => buildMockHandler({ url: '**/api', fixture: 'y.json' })).toThrow('Fixture "y.json" was not loaded')
+    expect(() => buildMockHandler({ url: '**/api', delay_ms: 120_000 })).toThrow('delay_ms')
+  })
+})
+
+describe('mock helpers', () => {
+  it('describes mocks and validates fixture names', () => {
+    expect(describeMock({ url: '**/api/users', method: ['get', 'post'] })).toBe('GET,POST **/api/users')
+    expect(describeMock({ url: '**/api/users' })).toBe('**/api/users')
+    expect(isValidFixtureName('users-empty.json')).toBe(true)
+    expect(isValidFixtureName('../secrets')).toBe(false)
+    expect(isValidFixtureName('.hidden')).toBe(false)
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+vi.mock('@cloudflare/playwright-mcp', () => ({ createMcpAgent: () => ({}) }))
+
+import worker from '../src/index'
+import { createExecutionContext, createTestDatabase } from './helpers/worker'
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+})
+
+describe('scheduled()', () => {
+  it('still retries notification deliveries when starting schedules fails', async () => {
+    const { d1, db } = await createTestDatabase()
+    await db.createTestSession({ id: 'session_1', url: 'https://shop.example', test_type: 'traditional', status: 'failed' })
+    const channelId = await db.createNotificationChannel({
+      name: 'CI hook', type: 'webhook', target: 'https://hooks.example/ci', rule: 'failure', enabled: true,
+    })
+    const deliveryId = (await db.createNotificationDelivery({ channel_id: channelId, session_id: 'session_1', event: 'failure' }))!
+    await db.updateNotificationDelivery(deliveryId, { attempts: 1, next_attempt_at: '2025-06-02T09:59:00.000Z' })
+    await d1.exec('DROP TABLE schedules')
+
+    const fetch = vi.fn(async () => new Response('ok', { status: 200 }))
+    vi.stubGlobal('fetch', fetch)
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await worker.scheduled(
+      { scheduledTime: Date.parse('2025-06-02T10:00:00Z'), cron: '* * * * *', noRetry: () => {} },
+      { DB: d1 } as Env,
+      createExecutionContext()
+    )
+
+    expect(consoleError).toHaveBeenCalledWith('Starting scheduled sessions failed', expect.any(Error))
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(await db.getNotificationDeliveries({ sessionId: 'session_1' })).toMatchObject([{ status: 'delivered', attempts: 2 }])
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest'
+import { SecretCipher, SecretResolvingClient, SecretVault, collectSecretReferences } from '../src/secrets'
+import { DatabaseService } from '../src/database'
+import { Logger } from '../src/logger'
+import type { PlaywrightAutomationClient } from '../src/types'
+
+const vault = () => new SecretVault(new Map([['ADMIN_PASSWORD', 'hunter2 & "co"'], ['API_TOKEN', 'tok_123']]))
+
+describe('secrets', () => {
+  it('round-trips values and binds them to their name', async () => {
+    const cipher = new SecretCipher('test-key')
+    const encrypted = await cipher.encrypt('ADMIN_PASSWORD', 'hunter2')
+    expect(encrypted.ciphertext).not.toContain('hunter2')
+    await expect(cipher.decrypt('ADMIN_PASSWORD', encrypted)).resolves.toBe('hunter2')
+    await expect(cipher.decrypt('OTHER', encrypted)).rejects.toThrow()
+    await expect(new SecretCipher('other-key').decrypt('ADMIN_PASSWORD', encrypted)).rejects.toThrow()
+  })
+
+  it('collects references and resolves them', () => {
+    expect(collectSecretReferences({ steps: [{ value: '{{secret:ADMIN_PASSWORD}}' }], context: 'use {{ secret:API_TOKEN }}' }))
+      .toEqual(['ADMIN_PASSWORD', 'API_TOKEN'])
+    expect(vault().resolve('Bearer {{secret:API_TOKEN}}')).toBe('Bearer tok_123')
+    expect(() => vault().resolve('{{secret:UNKNOWN}}')).toThrow(/not available/)
+  })
+
+  it('redacts raw, JSON-escaped and URL-encoded values', () => {
+    const v = vault()
+    expect(v.redact('typed hunter2 & "co"')).toBe('typed [REDACTED:ADMIN_PASSWORD]')
+    expect(v.redact(JSON.stringify({ value: 'hunter2 & "co"' }))).toBe('{"value":"[REDACTED:ADMIN_PASSWORD]"}')
+    expect(v.redact('/login?p=hunter2%20%26%20%22co%22')).toBe('/login?p=[REDACTED:ADMIN_PASSWORD]')
+  })
+
+  it('resolves at the browser boundary and scrubs snapshots', async () => {
+    const inner = {
+      type: vi.fn(async () => {}),
+      snapshot: async () => '<p>token tok_123</p>',
+    } as unknown as PlaywrightAutomationClient
+    const client = new SecretResolvingClient(inner, vault())
+
+    await client.type('#password', '{{secret:ADMIN_PASSWORD}}')
+    expect(inner.type).toHaveBeenCalledWith('#password', 'hunter2 & "co"')
+    await expect(client.snapshot()).resolves.toBe('<p>token [REDACTED:API_TOKEN]</p>')
+  })
+
+  it('scrubs action logs written through a redacting database', async () => {
+    const writes: unknown[][] = []
+    const d1 = {
+      prepare: () => ({ bind: (...args: unknown[]) => ({ run: async () => { writes.push(args); return { meta: {} } } }) }),
+    } as unknown as D1Database
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {})
+
+    const db = new DatabaseService(d1).withRedactor(vault())
+    await new Logger(db, 'session_test').logAction('type', { selector: '#token', value: 'tok_123' })
+
+    expect(JSON.stringify(writes)).not.toContain('tok_123')
+    expect(JSON.stringify(info.mock.calls)).not.toContain('tok_123')
+  })
+})
@@ -2,5 +2,8 @@
 export const mailer = {
   send: async (_msg: any) => ({ id: 'test-email-id' }),
 };
+export class EmailMessage {
+  constructor(public from: string, public to: string, public raw: ReadableStream | string) {}
+}
 export default mailer as any;
 
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { renderTemplate, resolveTraditionalTest, TemplateError } from '../src/templating'
+import type { TraditionalTestCase, TraditionalTestSuite } from '../src/types'
+
+const loginCase: TraditionalTestCase = {
+  name: 'Login',
+  variables: { host: 'https://staging.example.com', role: 'viewer' },
+  dataset: [
+    { user: 'admin@example.com', role: 'admin' },
+    { user: 'viewer@example.com' },
+  ],
+  steps: [
+    { action: 'navigate', url: '{{host}}/login', description: 'Open login' },
+    { action: 'type', selector: '#email', value: '{{ user }}', description: 'Enter email' },
+  ],
+  assertions: [
+    { type: 'text', selector: '[data-role="{{role}}"]', expected: 'Signed in as {{role}}', description: 'Role badge' },
+  ],
+}
+
+describe('templating', () => {
+  it('renders placeholders and leaves namespaced ones alone', () => {
+    expect(renderTemplate('{{a}}-{{ b }}', { a: 1, b: true })).toBe('1-true')
+    expect(renderTemplate('Bearer {{secret:TOKEN}}', {})).toBe('Bearer {{secret:TOKEN}}')
+  })
+
+  it('rejects undefined variables', () => {
+    expect(() => renderTemplate('{{missing}} {{also}}', {})).toThrow(TemplateError)
+    expect(() => renderTemplate('{{missing}}', {})).toThrow(/missing/)
+  })
+
+  it('expands dataset rows into separately named cases', () => {
+    const resolved = resolveTraditionalTest(loginCase, { host: 'https://prod.example.com' }) as TraditionalTestSuite
+    expect(resolved.cases.map(c => c.name)).toEqual(['Login [row 1]', 'Login [row 2]'])
+
+    const [admin, viewer] = resolved.cases
+    expect(admin.steps[0].url).toBe('https://prod.example.com/login')
+    expect(admin.steps[1].value).toBe('admin@example.com')
+    expect(admin.assertions[0]).toMatchObject({ selector: '[data-role="admin"]', expected: 'Signed in as admin' })
+    expect(viewer.assertions[0].expected).toBe('Signed in as viewer')
+  })
+
+  it('keeps the variable type for whole-value placeholders', () => {
+    const resolved = resolveTraditionalTest({
+      name: 'Count',
+      variables: { items: 3 },
+      steps: [],
+      assertions: [{ type: 'count', selector: 'li', expected: '{{items}}', description: 'Items' }],
+    }) as TraditionalTestCase
+    expect(resolved.assertions[0].expected).toBe(3)
+  })
+
+  it('applies suite, case and request variables in order', () => {
+    const resolved = resolveTraditionalTest({
+      name: 'Suite',
+      variables: { host: 'https://suite.example.com', term: 'suite' },
+      retry: { retries: 2 },
+      beforeAll: [{ action: 'navigate', url: '{{host}}', description: 'Open' }],
+      cases: [{
+        name: 'Search',
+        variables: { term: 'case' },
+        retry: { retries: 1 },
+        steps: [{ action: 'type', selector: '#q', value: '{{term}} on {{locale}}', description: 'Search' }],
+        assertions: [],
+      }],
+    }, { locale: 'de' }) as TraditionalTestSuite
+
+    expect(resolved.beforeAll?.[0].url).toBe('https://suite.example.com')
+    expect(resolved.cases[0].steps[0].value).toBe('case on de')
+    expect(resolved.retry).toEqual({ retries: 2 })
+    expect(resolved.cases[0].retry).toEqual({ retries: 1 })
+  })
+})
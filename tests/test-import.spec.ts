@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { detectImportFormat, importChromeRecording, importPlaywrightCodegen } from '../src/test-import'
+
+describe('importChromeRecording', () => {
+  it('maps recorder steps and reports the ones it cannot use', () => {
+    const result = importChromeRecording({
+      title: 'Checkout',
+      steps: [
+        { type: 'setViewport' },
+        { type: 'navigate', url: 'https://shop.example.com/cart' },
+        { type: 'click', selectors: [['aria/Checkout'], ['#checkout']] },
+        { type: 'change', value: 'Ada', selectors: [['pierce/#name']] },
+        { type: 'keyDown', key: 'Enter' },
+        { type: 'keyUp', key: 'Enter' },
+        { type: 'waitForElement', selectors: [['text/Thanks']], count: 1, operator: '>=' },
+        { type: 'click', selectors: [['aria/Only aria']] },
+        { type: 'click', selectors: [['#frame-button']], frame: [0] },
+      ],
+    })
+
+    expect(result.test_case).toEqual({
+      name: 'Checkout',
+      steps: [
+        { action: 'navigate', url: 'https://shop.example.com/cart' },
+        { action: 'click', selector: '#checkout' },
+        { action: 'type', selector: '#name', value: 'Ada' },
+        { action: 'press', value: 'Enter' },
+        { action: 'wait_for', selector: 'text=Thanks', state: 'visible', timeout: undefined },
+      ],
+      assertions: [
+        { type: 'count', selector: 'text=Thanks', expected: 1, comparator: 'gte', description: 'text=Thanks count >= 1' },
+      ],
+    })
+    expect(result.url_pattern).toBe('shop.example.com')
+    expect(result.warnings).toEqual([
+      'Step 1 (setViewport): not supported',
+      'Step 7 (waitForElement): the element count is checked after all steps',
+      'Step 8 (click): none of the recorded selectors can be used',
+      'Step 9 (click): steps inside iframes are not supported',
+    ])
+  })
+})
+
+describe('importPlaywrightCodegen', () => {
+  it('converts locator actions and expect matchers', () => {
+    const result = importPlaywrightCodegen(`import { test, expect } from '@playwright/test';
+
+test('login flow', async ({ page }) => {
+  await page.goto('https://app.example.com/login');
+  await page.getByLabel('Email').fill('qa@example.com');
+  await page.getByRole('button', { name: 'Sign in', exact: true }).click();
+  await page.locator('li').nth(2).hover();
+  await page.keyboard.press('Escape');
+  await expect(page.getByTestId('banner')).not.toBeVisible();
+  await expect(page).toHaveURL(/dashboard$/);
+  await expect(page.locator('.welcome')).toContainText('Hello, it\\'s you');
+  await page.mouse.click(10, 20);
+});`)
+
+    expect(result.test_case).toEqual({
+      name: 'login flow',
+      steps: [
+        { action: 'navigate', url: 'https://app.example.com/login' },
+        { action: 'type', selector: 'internal:label="Email"i', value: 'qa@example.com' },
+        { action: 'click', selector: 'role=button[name="Sign in"s]' },
+        { action: 'hover', selector: 'li >> nth=2' },
+        { action: 'press', value: 'Escape' },
+      ],
+      assertions: [
+        { type: 'visible', selector: '[data-testid="banner"]', not: true, description: 'toBeVisible [data-testid="banner"]' },
+        { type: 'url', selector: undefined, expected: '/dashboard$/', match: 'regex', description: 'toHaveURL' },
+        { type: 'text', selector: '.welcome', expected: "Hello, it's you", match: 'contains', description: 'toContainText .welcome' },
+      ],
+    })
+    expect(result.warnings).toEqual([
+      'Line 9: assertions run after all steps',
+      'Line 12: page.mouse input other than keyboard.press is not supported: await page.mouse.click(10, 20);',
+    ])
+  })
+
+  it('detects the format from the payload', () => {
+    expect(detectImportFormat({ steps: [] })).toBe('chrome-recorder')
+    expect(detectImportFormat('  {"title": "x", "steps": []}')).toBe('chrome-recorder')
+    expect(detectImportFormat("await page.goto('https://example.com');")).toBe('playwright-codegen')
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { FakeBrowser } from './helpers/browser'
+
+// The worker's browser client is replaced by the fake the current spec sets up
+const browser = vi.hoisted(() => ({ current: null as FakeBrowser | null }))
+vi.mock('@cloudflare/playwright-mcp', () => ({ createMcpAgent: () => ({}) }))
+vi.mock('../src/playwright-client', () => ({
+  PlaywrightClient: function PlaywrightClient() { return browser.current!.client },
+}))
+
+import worker from '../src/index'
+import type { DatabaseService } from '../src/database'
+import type { TestJob } from '../src/test-runner'
+import type { TraditionalTestCase } from '../src/types'
+import { createFakeBrowser } from './helpers/browser'
+import { createAuthHeader, createExecutionContext, createTestDatabase } from './helpers/worker'
+
+const testCase: TraditionalTestCase = {
+  name: 'Home page',
+  steps: [{ action: 'navigate', url: 'https://shop.example', description: 'Open shop' }],
+  assertions: [{ type: 'title', expected: 'Example', description: 'Title is set' }],
+}
+
+async function startTest(env: Env, ctx: ExecutionContext, headers: Record<string, string>, query = '') {
+  return await worker.fetch(new Request(`https://worker.example/test/traditional${query}`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url: 'https://shop.example', testCase, useStoredConfig: false }),
+  }), env, ctx)
+}
+
+async function harness() {
+  const { d1, db } = await createTestDatabase()
+  return { d1, db, headers: await createAuthHeader(db) }
+}
+
+async function resultStatuses(db: DatabaseService, sessionId: string) {
+  return (await db.getTestResults(sessionId)).map(result => result.status)
+}
+
+beforeEach(() => {
+  browser.current = createFakeBrowser()
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('dispatching test runs', () => {
+  it('answers 202 with the session id and sends the job to the queue', async () => {
+    const { d1, db, headers } = await harness()
+    const send = vi.fn(async () => {})
+    const ctx = createExecutionContext()
+
+    const response = await startTest({ DB: d1, TEST_QUEUE: { send } } as unknown as Env, ctx, headers)
+    const body = await response.json() as { sessionId: string; status: string; statusUrl: string }
+
+    expect(response.status).toBe(202)
+    expect(body).toEqual({
+      sessionId: expect.stringMatching(/^session_/),
+      status: 'running',
+      statusUrl: `/session?sessionId=${encodeURIComponent(body.sessionId)}`,
+    })
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ kind: 'traditional', sessionId: body.sessionId, testCase }))
+    expect(await db.getTestSession(body.sessionId)).toMatchObject({ status: 'running' })
+    expect(browser.current!.dispose).not.toHaveBeenCalled()
+  })
+
+  it('runs the job after the response through waitUntil when TEST_QUEUE is unbound', async () => {
+    const { d1, db, headers } = await harness()
+    const ctx = createExecutionContext()
+
+    const response = await startTest({ DB: d1 } as Env, ctx, headers)
+    const { sessionId } = await response.json() as { sessionId: string }
+
+    expect(response.status).toBe(202)
+    expect(ctx.waitUntil).toHaveBeenCalled()
+    await ctx.settle()
+    expect(await db.getTestSession(sessionId)).toMatchObject({ status: 'completed' })
+    expect(await resultStatuses(db, sessionId)).toEqual(['passed', 'passed'])
+  })
+
+  it('still returns the full result with wait=true', async () => {
+    const { d1, db, headers } = await harness()
+    const send = vi.fn(async () => {})
+
+    const response = await startTest({ DB: d1, TEST_QUEUE: { send } } as unknown as Env, createExecutionContext(), headers, '?wait=true')
+    const body = await response.json() as { sessionId: string; success: boolean; results: unknown[]; executionTime: number }
+
+    expect(response.status).toBe(200)
+    expect(body).toMatchObject({ sessionId: expect.stringMatching(/^session_/), success: true, executionTime: expect.any(Number) })
+    expect(body.results).toEqual(expect.any(Array))
+    expect(send).not.toHaveBeenCalled()
+    expect(await db.getTestSession(body.sessionId)).toMatchObject({ status: 'completed' })
+  })
+})
+
+describe('queue consumer', () => {
+  it('runs each job, records its session and acks the message', async () => {
+    const { d1, db } = await harness()
+    await db.createTestSession({ id: 'session_queued', url: 'https://shop.example', test_type: 'traditional', status: 'running' })
+    const job: TestJob = { kind: 'traditional', sessionId: 'session_queued', url: 'https://shop.example', testCase }
+    const message = { body: job, ack: vi.fn(), retry: vi.fn() }
+
+    await worker.queue({ messages: [message] } as unknown as MessageBatch<TestJob>, { DB: d1 } as Env, createExecutionContext())
+
+    expect(message.ack).toHaveBeenCalledTimes(1)
+    expect(await db.getTestSession('session_queued')).toMatchObject({ status: 'completed' })
+    expect(await resultStatuses(db, 'session_queued')).toEqual(['passed', 'passed'])
+    expect(browser.current!.dispose).toHaveBeenCalledTimes(1)
+  })
+
+  it('records a failing job on its session and still acks it', async () => {
+    const { d1, db } = await harness()
+    browser.current = createFakeBrowser({ navigate: async () => { throw new Error('net::ERR_NAME_NOT_RESOLVED') } })
+    await db.createTestSession({ id: 'session_broken', url: 'https://shop.example', test_type: 'traditional', status: 'running' })
+    const job: TestJob = { kind: 'traditional', sessionId: 'session_broken', url: 'https://shop.example', testCase }
+    const message = { body: job, ack: vi.fn(), retry: vi.fn() }
+
+    await worker.queue({ messages: [message] } as unknown as MessageBatch<TestJob>, { DB: d1 } as Env, createExecutionContext())
+
+    expect(message.ack).toHaveBeenCalledTimes(1)
+    expect(message.retry).not.toHaveBeenCalled()
+    expect(await db.getTestSession('session_broken')).toMatchObject({ status: 'failed' })
+  })
+})
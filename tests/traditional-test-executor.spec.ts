@@ -0,0 +1,309 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TraditionalTestExecutor } from '../src/traditional-test-executor'
+import { Logger } from '../src/logger'
+import type { DatabaseService } from '../src/database'
+import type { SessionArtifacts } from '../src/artifact-store'
+import type { ActionLog, PlaywrightAutomationClient, TestResult, TraditionalTestSuite } from '../src/types'
+
+function createHarness(failingSelectors: string[] = []) {
+  const results: Omit<TestResult, 'id' | 'timestamp'>[] = []
+  const logs: Omit<ActionLog, 'id' | 'timestamp'>[] = []
+  const db = {
+    saveTestResult: async (result: Omit<TestResult, 'id' | 'timestamp'>) => { results.push(result) },
+    logAction: async (log: Omit<ActionLog, 'id' | 'timestamp'>) => { logs.push(log) },
+    getActionLogs: async () => [],
+    redact: (text?: string) => text,
+  } as unknown as DatabaseService
+
+  const client: PlaywrightAutomationClient = {
+    navigate: async () => {},
+    click: async (selector: string) => {
+      if (failingSelectors.includes(selector)) throw new Error(`Cannot click ${selector}`)
+    },
+    type: async () => {},
+    selectOption: async () => {},
+    count: async () => 1,
+    isVisible: async () => true,
+    innerText: async () => 'ok',
+    inputValue: async () => null,
+    getAttribute: async () => null,
+    cssProperty: async () => 'rgb(0, 0, 0)',
+    isEnabled: async () => true,
+    isChecked: async () => false,
+    currentUrl: async () => 'https://example.com/dashboard',
+    title: async () => 'Dashboard',
+    takeScreenshot: async () => 'iVBORw0KGgo=',
+    snapshot: async () => '<html></html>',
+    waitFor: vi.fn(async () => {}),
+    waitForUrl: async (url: string) => url,
+    hover: async () => {},
+    press: async () => {},
+    check: async () => {},
+    uncheck: async () => {},
+    scrollIntoView: async () => {},
+    goBack: async () => {},
+    reload: async () => {},
+    uploadFile: async () => {},
+    evaluate: vi.fn(async () => ({ items: 3 })),
+    mockRoute: vi.fn(async () => {}),
+    newPage: vi.fn(async () => {}),
+    dispose: async () => {},
+  }
+
+  const artifacts = { saveScreenshot: async (name: string) => name } as unknown as SessionArtifacts
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+
+  const executor = new TraditionalTestExecutor(client, db, new Logger(db, 'session_test'), artifacts)
+  return { executor, client, results, logs }
+}
+
+const suite: TraditionalTestSuite = {
+  name: 'Todo suite',
+  beforeAll: [{ action: 'navigate', url: 'https://example.com/login', description: 'Log in' }],
+  beforeEach: [{ action: 'navigate', url: 'https://example.com', description: 'Open app' }],
+  afterEach: [{ action: 'click', selector: '#reset', description: 'Reset state' }],
+  cases: [
+    { name: 'adds a todo', steps: [{ action: 'click', selector: '#add', description: 'Add' }], assertions: [] },
+    { name: 'deletes a todo', steps: [{ action: 'click', selector: '#delete', description: 'Delete' }], assertions: [] },
+  ],
+}
+
+describe('traditional test suites', () => {
+  it('runs every case on a fresh page and records a summary', async () => {
+    const { executor, client, results } = createHarness(['#delete'])
+    const result = await executor.executeSuite('session_test', suite)
+
+    expect(client.newPage).toHaveBeenCalledTimes(2)
+    expect(result.success).toBe(false)
+    expect(result.suite).toMatchObject({ total: 2, passed: 1, failed: 1, skipped: 0 })
+    expect(result.error_summary).toBe('1 of 2 cases failed')
+
+    const caseRows = results.filter(r => r.test_name.startsWith('Todo suite › '))
+    expect(caseRows.map(r => [r.test_name, r.status])).toEqual([
+      ['Todo suite › adds a todo', 'passed'],
+      ['Todo suite › deletes a todo', 'failed'],
+    ])
+    // afterEach still runs after the failed case
+    expect(results.filter(r => r.test_name === 'deletes a todo - afterEach - Reset state')).toHaveLength(1)
+  })
+
+  it('skips all cases when beforeAll fails', async () => {
+    const { executor, results } = createHarness(['#login'])
+    const result = await executor.executeSuite('session_test', {
+      ...suite,
+      beforeAll: [{ action: 'click', selector: '#login', description: 'Log in' }],
+    })
+
+    expect(result.suite).toMatchObject({ passed: 0, failed: 0, skipped: 2 })
+    expect(result.suite?.hook_errors).toEqual(['beforeAll: Cannot click #login'])
+    expect(results.some(r => r.test_name.startsWith('adds a todo'))).toBe(false)
+  })
+})
+
+describe('traditional step actions', () => {
+  it('runs the extended actions and names steps without descriptions', async () => {
+    const { executor, client, results, logs } = createHarness()
+    const result = await executor.executeTest('session_test', {
+      name: 'Config page smoke',
+      steps: [
+        { action: 'navigate', url: 'https://example.com/config' },
+        { action: 'wait_for', selector: 'header h1' },
+        { action: 'press', value: 'Enter', selector: '#search' },
+        { action: 'check', selector: '#terms' },
+        { action: 'evaluate', script: '() => ({ items: document.querySelectorAll("li").length })' },
+      ],
+      assertions: [],
+    })
+
+    expect(result.success).toBe(true)
+    expect(client.waitFor).toHaveBeenCalledWith('header h1', 'visible', 10000)
+    expect(results.map(r => r.test_name)).toContain('Config page smoke - wait_for header h1')
+    const evaluateLog = logs.find(log => log.action_type === 'evaluate')
+    expect(JSON.parse(evaluateLog!.result!)).toEqual({ value: { items: 3 } })
+  })
+
+  it('fails steps that are missing required fields', async () => {
+    const { executor } = createHarness()
+    const result = await executor.executeTest('session_test', {
+      name: 'Upload',
+      steps: [{ action: 'upload_file', selector: 'input[type=file]' }],
+      assertions: [],
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error_summary).toBe('Selector and files are required for upload_file action')
+  })
+})
+
+describe('traditional assertions', () => {
+  it('stores expected and actual as JSON when an assertion fails', async () => {
+    const { executor, results } = createHarness()
+    const result = await executor.executeTest('session_test', {
+      name: 'Dashboard',
+      steps: [],
+      assertions: [
+        { type: 'url', expected: '/dashboard', match: 'contains', description: 'On dashboard' },
+        { type: 'title', expected: 'Settings', timeout: 0, description: 'Settings title' },
+        { type: 'checked', selector: '#terms', not: true, description: 'Terms unchecked' },
+      ],
+    })
+
+    expect(result.success).toBe(false)
+    expect(results.map(r => r.status)).toEqual(['passed', 'failed', 'passed'])
+    expect(JSON.parse(results[1].error_message!)).toMatchObject({
+      message: 'Expected page title to equal "Settings", got "Dashboard"',
+      type: 'title',
+      operator: 'exact',
+      negated: false,
+      expected: 'Settings',
+      actual: 'Dashboard',
+    })
+  })
+})
+
+describe('DOM assertions', () => {
+  it('polls the page until an assertion passes within its timeout', async () => {
+    const { executor, client, results } = createHarness()
+    client.count = vi.fn()
+      .mockResolvedValueOnce(0)
+      .mockResolvedValueOnce(0)
+      .mockResolvedValue(3)
+    client.innerText = vi.fn(async () => '  Saved  ')
+
+    const result = await executor.executeTest('session_test', {
+      name: 'Todos',
+      steps: [],
+      assertions: [
+        { type: 'count', selector: 'li', expected: 3, timeout: 2000, description: 'Three todos' },
+        { type: 'text', selector: '.toast', expected: 'Saved', description: 'Toast shown' },
+      ],
+    })
+
+    expect(result.success).toBe(true)
+    expect(results.map(r => r.status)).toEqual(['passed', 'passed'])
+    expect(client.count).toHaveBeenCalledTimes(3)
+    expect(client.innerText).toHaveBeenCalledWith('.toast')
+  })
+
+  it('reports a missing element once the timeout runs out', async () => {
+    const { executor, client, results } = createHarness()
+    client.innerText = vi.fn(async () => null)
+
+    const result = await executor.executeTest('session_test', {
+      name: 'Todos',
+      steps: [],
+      assertions: [{ type: 'text', selector: '.toast', expected: 'Saved', timeout: 250, description: 'Toast shown' }],
+    })
+
+    expect(result.success).toBe(false)
+    expect((client.innerText as ReturnType<typeof vi.fn>).mock.calls.length).toBeGreaterThan(1)
+    expect(JSON.parse(results[0].error_message!)).toMatchObject({ message: 'Element .toast does not exist', actual: null })
+  })
+})
+
+describe('traditional retries', () => {
+  it('retries transient failures, logs each retry and marks the step flaky', async () => {
+    const { executor, client, results, logs } = createHarness()
+    client.click = vi.fn()
+      .mockRejectedValueOnce(new Error('locator.click: Timeout 5000ms exceeded.'))
+      .mockRejectedValueOnce(new Error('Element is not visible'))
+      .mockResolvedValue(undefined)
+
+    const result = await executor.executeTest('session_test', {
+      name: 'Checkout',
+      steps: [{ action: 'click', selector: '#pay', description: 'Pay' }],
+      assertions: [],
+      retry: { retries: 2, backoff_ms: 0 },
+    })
+
+    expect(result.success).toBe(true)
+    expect(client.click).toHaveBeenCalledTimes(3)
+    expect(results).toMatchObject([{ test_name: 'Checkout - Pay', status: 'flaky', attempts: 3 }])
+    expect(logs.filter(log => log.action_type === 'retry').map(log => JSON.parse(log.action_data!))).toEqual([
+      { testName: 'Checkout - Pay', attempt: 2, max_attempts: 3, error_type: 'timeout', error: 'locator.click: Timeout 5000ms exceeded.', delay_ms: 0 },
+      { testName: 'Checkout - Pay', attempt: 3, max_attempts: 3, error_type: 'element', error: 'Element is not visible', delay_ms: 0 },
+    ])
+  })
+
+  it('lets a step policy override the suite and skips error types it does not retry', async () => {
+    const { executor, client, results } = createHarness()
+    client.click = vi.fn(async () => { throw new Error('Cannot click #add') })
+
+    const result = await executor.executeSuite('session_test', {
+      ...suite,
+      retry: { retries: 3, backoff_ms: 0 },
+      cases: [
+        { name: 'adds a todo', steps: [{ action: 'click', selector: '#add', description: 'Add', retry: { retry_on: ['other'] } }], assertions: [] },
+      ],
+      afterEach: [{ action: 'click', selector: '#reset', description: 'Reset state' }],
+    })
+
+    expect(result.success).toBe(false)
+    // 4 tries for "Add", then 1 for "Reset state", whose error type the suite policy does not retry
+    expect(client.click).toHaveBeenCalledTimes(5)
+    expect(results.find(r => r.test_name === 'adds a todo - Add')).toMatchObject({ status: 'failed', attempts: 4 })
+    expect(results.find(r => r.test_name === 'adds a todo - afterEach - Reset state')).toMatchObject({ status: 'failed', attempts: 1 })
+  })
+
+  it('counts a suite case that needed a retry as flaky', async () => {
+    const { executor, client, results } = createHarness()
+    client.click = vi.fn()
+      .mockRejectedValueOnce(new Error('strict mode violation: locator("#add") resolved to 2 elements'))
+      .mockResolvedValue(undefined)
+
+    const result = await executor.executeSuite('session_test', { ...suite, retry: { retries: 1, backoff_ms: 0 } })
+
+    expect(result.success).toBe(true)
+    expect(result.suite).toMatchObject({ passed: 1, flaky: 1, failed: 0 })
+    expect(results.find(r => r.test_name === 'Todo suite › adds a todo')).toMatchObject({ status: 'flaky' })
+  })
+})
+
+describe('route mocks', () => {
+  it('installs suite mocks on the context, case mocks and mock_route steps on the page, and logs intercepted requests', async () => {
+    const { executor, client, logs } = createHarness()
+    client.mockRoute = vi.fn(async (mock, _scope, onIntercept) => {
+      onIntercept({ mock: mock.url, method: 'GET', url: 'https://example.com/api/todos', resource_type: 'fetch', outcome: 'fulfilled', status: 500, delay_ms: 0 })
+    })
+
+    const result = await executor.executeSuite('session_test', {
+      ...suite,
+      mocks: [{ url: '**/api/**', abort: 'connectionrefused' }],
+      cases: [{
+        name: 'shows an error',
+        mocks: [{ url: '**/api/todos', method: 'GET', status: 500, body: { error: 'boom' } }],
+        steps: [{ action: 'mock_route', mock: { url: '**/api/todos', method: 'POST', body: 'ok' } }],
+        assertions: [],
+      }],
+    })
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(result.success).toBe(true)
+    expect(vi.mocked(client.mockRoute).mock.calls.map(([mock, scope]) => [mock.url, mock.methods, scope])).toEqual([
+      ['**/api/**', null, 'context'],
+      ['**/api/todos', ['GET'], 'page'],
+      ['**/api/todos', ['POST'], 'page'],
+    ])
+    expect(logs.filter(log => log.action_type === 'mock_route').map(log => JSON.parse(log.action_data!).mock)).toEqual([
+      '**/api/**', 'GET **/api/todos', 'POST **/api/todos',
+    ])
+    expect(logs.filter(log => log.action_type === 'mock_request')).toHaveLength(3)
+  })
+
+  it('fails the case when a mock cannot be installed', async () => {
+    const { executor, client, results } = createHarness()
+
+    const result = await executor.executeTest('session_test', {
+      name: 'Profile',
+      mocks: [{ url: '**/api/profile', fixture: 'profile.json' }],
+      steps: [{ action: 'navigate', url: 'https://example.com', description: 'Open' }],
+      assertions: [],
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error_summary).toBe('Mock setup failed: Fixture "profile.json" was not loaded')
+    expect(client.mockRoute).not.toHaveBeenCalled()
+    expect(results).toEqual([])
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { TrendData, TrendSession, buildTrendReport, measureRecovery, percentile, trendWindowStart } from '../src/trends'
+
+const now = new Date('2025-03-10T15:00:00Z')
+
+function session(id: string, status: TrendSession['status'], start_time: string, end_time: string | null = null, config_id: number | null = 1): TrendSession {
+  return { id, config_id, config_name: config_id !== null ? `Config ${config_id}` : null, url: 'https://example.com', status, start_time, end_time }
+}
+
+function data(overrides: Partial<TrendData> = {}): TrendData {
+  return { sessions: [], durations: [], failing_steps: [], errors: [], ...overrides }
+}
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+    expect(percentile(sorted, 50)).toBe(50)
+    expect(percentile(sorted, 95)).toBe(100)
+    expect(percentile([7], 95)).toBe(7)
+    expect(percentile([], 50)).toBe(0)
+  })
+})
+
+describe('measureRecovery', () => {
+  it('times each failure streak from its first failure to the next passing run', () => {
+    expect(measureRecovery([
+      session('a', 'completed', '2025-03-01 10:00:00', '2025-03-01 10:01:00'),
+      session('b', 'failed', '2025-03-01 11:00:00', '2025-03-01 11:01:00'),
+      session('c', 'failed', '2025-03-01 12:00:00', '2025-03-01 12:01:00'),
+      session('d', 'completed', '2025-03-01 13:00:00', '2025-03-01 13:01:00'),
+      session('e', 'failed', '2025-03-02 09:00:00'),
+    ])).toEqual({
+      incidents: 2,
+      recovered: 1,
+      mttr_ms: 2 * 60 * 60 * 1000 + 60 * 1000,
+      failing_since: '2025-03-02 09:00:00',
+    })
+  })
+})
+
+describe('buildTrendReport', () => {
+  it('fills every day of the window and counts runs per day', () => {
+    const report = buildTrendReport(data({
+      sessions: [
+        session('a', 'completed', '2025-03-08 10:00:00'),
+        session('b', 'failed', '2025-03-10 10:00:00'),
+        session('c', 'completed', '2025-03-10 11:00:00'),
+      ],
+    }), { configId: 1, days: 3, now })
+
+    expect(report).toMatchObject({ config_id: 1, days: 3, from: '2025-03-08', to: '2025-03-10' })
+    expect(report.summary).toEqual({ sessions: 3, passed: 2, failed: 1, pass_rate: 2 / 3 })
+    expect(report.daily).toEqual([
+      { date: '2025-03-08', sessions: 1, passed: 1, failed: 0, pass_rate: 1 },
+      { date: '2025-03-09', sessions: 0, passed: 0, failed: 0, pass_rate: null },
+      { date: '2025-03-10', sessions: 2, passed: 1, failed: 1, pass_rate: 0.5 },
+    ])
+    expect(trendWindowStart(3, now)).toBe('2025-03-08 00:00:00')
+  })
+
+  it('ranks step durations by p95 and merges errors that read the same', () => {
+    const assertion = JSON.stringify({ type: 'assertion', message: 'Expected title to be "Home"', assertion: 'title' })
+    const report = buildTrendReport(data({
+      durations: [
+        { test_name: 'Open page', execution_time_ms: 100 },
+        { test_name: 'Open page', execution_time_ms: 300 },
+        { test_name: 'Submit', execution_time_ms: 900 },
+      ],
+      failing_steps: [{ test_name: 'Submit', runs: 4, failures: 1, last_failed_at: '2025-03-09 10:00:00' }],
+      errors: [
+        { error_message: assertion, occurrences: 2, sessions: 2, last_seen: '2025-03-09 10:00:00', test_name: 'Check title' },
+        { error_message: 'Expected title to be "Home"', occurrences: 1, sessions: 1, last_seen: '2025-03-10 10:00:00', test_name: 'Check title' },
+        { error_message: 'Timeout', occurrences: 1, sessions: 1, last_seen: '2025-03-08 10:00:00', test_name: 'Submit' },
+      ],
+    }), { configId: null, days: 7, now })
+
+    expect(report.step_durations).toEqual([
+      { test_name: 'Submit', runs: 1, p50_ms: 900, p95_ms: 900 },
+      { test_name: 'Open page', runs: 2, p50_ms: 100, p95_ms: 300 },
+    ])
+    expect(report.failing_steps).toEqual([{ test_name: 'Submit', runs: 4, failures: 1, failure_rate: 0.25, last_failed_at: '2025-03-09 10:00:00' }])
+    expect(report.errors).toEqual([
+      { message: 'Expected title to be "Home"', occurrences: 3, sessions: 3, last_seen: '2025-03-10 10:00:00', example_test: 'Check title' },
+      { message: 'Timeout', occurrences: 1, sessions: 1, last_seen: '2025-03-08 10:00:00', example_test: 'Submit' },
+    ])
+  })
+
+  it('breaks results down per configuration, grouping unconfigured runs by URL', () => {
+    const report = buildTrendReport(data({
+      sessions: [
+        session('a', 'failed', '2025-03-09 10:00:00', '2025-03-09 10:00:30', 1),
+        session('b', 'completed', '2025-03-09 10:05:00', null, 2),
+        session('c', 'completed', '2025-03-09 11:00:00', '2025-03-09 11:00:30', 1),
+        session('d', 'failed', '2025-03-10 09:00:00', null, null),
+      ],
+    }), { configId: null, days: 7, now })
+
+    expect(report.configs).toEqual([
+      { config_id: null, name: 'https://example.com', sessions: 1, pass_rate: 0, last_status: 'failed', mttr_ms: null },
+      { config_id: 1, name: 'Config 1', sessions: 2, pass_rate: 0.5, last_status: 'completed', mttr_ms: 60 * 60 * 1000 + 30 * 1000 },
+      { config_id: 2, name: 'Config 2', sessions: 1, pass_rate: 1, last_status: 'completed', mttr_ms: null },
+    ])
+    expect(report.recovery).toEqual({ incidents: 2, recovered: 1, mttr_ms: 60 * 60 * 1000 + 30 * 1000, failing_since: '2025-03-10 09:00:00' })
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { matchUrl, rankUrlMatches, validateUrlPattern } from '../src/url-matcher'
+import type { SystemInstruction } from '../src/types'
+
+function config(id: number, url_pattern: string, overrides: Partial<SystemInstruction> = {}): SystemInstruction {
+  return { id, url_pattern, name: `Config ${id}`, instructions: '{}', test_type: 'traditional', ...overrides }
+}
+
+describe('matchUrl', () => {
+  it('matches globs by host label and path segment', () => {
+    expect(matchUrl('*.example.com/app/*', 'glob', 'https://shop.example.com/app/cart?x=1')).toBe('glob "*.example.com/app/*" matched')
+    expect(matchUrl('*.example.com/app/*', 'glob', 'https://a.b.example.com/app/cart')).toBeNull()
+    expect(matchUrl('*.example.com/app/*', 'glob', 'https://shop.example.com/app/cart/items')).toBeNull()
+    expect(matchUrl('example.com/app/**', 'glob', 'http://example.com/app')).not.toBeNull()
+    expect(matchUrl('example.com/app/**', 'glob', 'http://example.com/app/cart/items')).not.toBeNull()
+    expect(matchUrl('https://example.com', 'glob', 'http://example.com/login')).toBeNull()
+    expect(matchUrl('example.com', 'glob', 'https://example.com.evil.test/')).toBeNull()
+  })
+
+  it('matches exact, regex and substring patterns', () => {
+    expect(matchUrl('https://example.com/login', 'exact', 'https://example.com/login#top')).not.toBeNull()
+    expect(matchUrl('https://example.com/login', 'exact', 'https://example.com/login?next=/')).toBeNull()
+    expect(matchUrl('/\\/orders\\/\\d+$/i', 'regex', 'https://example.com/ORDERS/42')).toBe('regex /\\/orders\\/\\d+$/i matched')
+    expect(matchUrl('[', 'regex', 'https://example.com/')).toBeNull()
+    expect(matchUrl('example.com', 'substring', 'https://example.com.evil.test/')).toBe('URL contains "example.com"')
+  })
+})
+
+describe('rankUrlMatches', () => {
+  const url = 'https://shop.example.com/app/cart'
+
+  it('prefers priority, then match type, then pattern length, then the older config', () => {
+    const configs = [
+      config(1, 'example.com'),
+      config(2, 'shop.example.com'),
+      config(3, 'shop.example.com/app/**', { match_type: 'glob' }),
+      config(4, url, { match_type: 'exact' }),
+      config(5, 'cart$', { match_type: 'regex' }),
+      config(6, 'example.com', { priority: 5 }),
+      config(7, 'example.org'),
+      config(8, 'example.com'),
+    ]
+
+    expect(rankUrlMatches(configs, url).map(candidate => candidate.config.id)).toEqual([6, 4, 3, 5, 2, 1, 8])
+  })
+})
+
+describe('validateUrlPattern', () => {
+  it('rejects patterns that can never match', () => {
+    expect(validateUrlPattern('example.com/login', 'exact')).toBe('exact url_pattern must be an absolute URL')
+    expect(validateUrlPattern('(', 'regex')).toMatch(/^Invalid regex url_pattern: /)
+    expect(validateUrlPattern('*.example.com', 'glob')).toBeNull()
+  })
+})
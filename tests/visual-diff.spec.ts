@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { deflateSync } from 'node:zlib'
+import { decodePng, encodePng, RgbaImage } from '../src/png'
+import { diffImages } from '../src/visual-diff'
+import { InMemoryArtifactStore, SessionArtifacts } from '../src/artifact-store'
+import { VisualBaselines, approveVisualComparison } from '../src/visual-baselines'
+import type { DatabaseService } from '../src/database'
+import type { Artifact, VisualBaseline, VisualComparison } from '../src/types'
+
+function solidImage(width: number, height: number, rgba: number[]): RgbaImage {
+  const data = new Uint8Array(width * height * 4)
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i)
+  return { width, height, data }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64')
+}
+
+// RGB PNG whose rows use the Sub, Up and Paeth filters, as browser encoders emit
+function filteredRgbPng(): Uint8Array {
+  const rows = [
+    [1, 10, 20, 30, 5, 5, 5],
+    [2, 0, 0, 0, 1, 1, 1],
+    [4, 1, 1, 1, 0, 0, 0],
+  ]
+  const chunk = (type: string, data: Uint8Array) => {
+    const out = Buffer.alloc(12 + data.length)
+    out.writeUInt32BE(data.length, 0)
+    out.write(type, 4, 'ascii')
+    Buffer.from(data).copy(out, 8)
+    return out
+  }
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(2, 0)
+  header.writeUInt32BE(3, 4)
+  header.set([8, 2, 0, 0, 0], 8)
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(Buffer.from(rows.flat()))),
+    chunk('IEND', new Uint8Array(0)),
+  ])
+}
+
+function createVisualDb() {
+  const baselines = new Map<string, VisualBaseline>()
+  const comparisons: VisualComparison[] = []
+  const artifacts: Artifact[] = []
+  const db = {
+    getVisualBaseline: async (scope: string, name: string) => baselines.get(`${scope}/${name}`) ?? null,
+    upsertVisualBaseline: async (baseline: VisualBaseline) => { baselines.set(`${baseline.scope}/${baseline.name}`, baseline) },
+    saveVisualComparison: async (comparison: VisualComparison) => { comparisons.push({ ...comparison, id: comparisons.length + 1 }) },
+    markVisualComparisonApproved: async (id: number) => { comparisons[id - 1].approved_at = 'now' },
+    saveArtifact: async (artifact: Artifact) => { artifacts.push(artifact) },
+    getArtifact: async (sessionId: string, name: string) =>
+      artifacts.find(artifact => artifact.session_id === sessionId && artifact.name === name) ?? null,
+  } as unknown as DatabaseService
+  return { db, baselines, comparisons }
+}
+
+describe('png', () => {
+  it('round-trips RGBA images', async () => {
+    const image = solidImage(3, 2, [12, 34, 56, 255])
+    image.data.set([255, 0, 0, 128], 4)
+    const decoded = await decodePng(await encodePng(image))
+    expect(decoded.width).toBe(3)
+    expect(decoded.height).toBe(2)
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data))
+  })
+
+  it('reverses row filters when decoding RGB images', async () => {
+    const decoded = await decodePng(filteredRgbPng())
+    expect(Array.from(decoded.data)).toEqual([
+      10, 20, 30, 255, 15, 25, 35, 255,
+      10, 20, 30, 255, 16, 26, 36, 255,
+      11, 21, 31, 255, 16, 26, 36, 255,
+    ])
+  })
+})
+
+describe('visual diff', () => {
+  it('counts pixels beyond the threshold and flags size changes', () => {
+    const baseline = solidImage(10, 10, [200, 200, 200, 255])
+    const actual = solidImage(10, 10, [205, 200, 200, 255])
+    actual.data.set([0, 0, 0, 255], 0)
+
+    const diff = diffImages(baseline, actual, { threshold: 0.1 })
+    expect(diff.diffPixels).toBe(1)
+    expect(diff.diffRatio).toBe(0.01)
+    expect(Array.from(diff.image!.data.subarray(0, 4))).toEqual([255, 0, 0, 255])
+
+    const resized = diffImages(baseline, solidImage(10, 12, [200, 200, 200, 255]))
+    expect(resized).toMatchObject({ sizeMismatch: true, diffRatio: 1 })
+    expect(resized.image).toBeUndefined()
+  })
+
+  it('creates a baseline on first capture, fails on changes and approves the new capture', async () => {
+    const store = new InMemoryArtifactStore()
+    const { db, baselines, comparisons } = createVisualDb()
+    const visualFor = (sessionId: string) =>
+      new VisualBaselines(store, db, new SessionArtifacts(store, db, sessionId), sessionId, 'config:1')
+
+    const original = toBase64(await encodePng(solidImage(4, 4, [255, 255, 255, 255])))
+    const changed = toBase64(await encodePng(solidImage(4, 4, [0, 0, 0, 255])))
+
+    expect((await visualFor('session_1').compare('header', original)).status).toBe('new')
+    expect((await visualFor('session_2').compare('header', original)).status).toBe('passed')
+
+    const failed = await visualFor('session_3').compare('header', changed)
+    expect(failed).toMatchObject({ status: 'failed', diff_ratio: 1, diff_artifact: 'header-diff.png' })
+
+    await approveVisualComparison(store, db, comparisons[2])
+    expect(baselines.get('config:1/header')?.source_session_id).toBe('session_3')
+    expect(comparisons[2].approved_at).toBeTruthy()
+    expect((await visualFor('session_4').compare('header', changed)).status).toBe('passed')
+  })
+})
@@ -2,6 +2,15 @@ import { defineConfig } from 'vitest/config'
 import path from 'node:path'
 
 export default defineConfig({
+  plugins: [
+    {
+      // Mirrors the Text rule in wrangler.toml: migrations/*.sql import as strings
+      name: 'sql-text',
+      transform(code, id) {
+        if (id.endsWith('.sql')) return { code: `export default ${JSON.stringify(code)};`, map: null }
+      },
+    },
+  ],
   test: {
     environment: 'node',
     deps: {
@@ -23,7 +32,7 @@ export default defineConfig({
     },
   },
   ssr: {
-    noExternal: true,
+    noExternal: [/^(?!vitest)/],
     resolve: {
       alias: {
         'cloudflare:workers': path.resolve(__dirname, 'tests/shims/cloudflare-workers.ts'),